@@ -5,17 +5,21 @@ import {
   AIRequestParams,
   AIResponse,
   AIModel,
-  type CodeReviewResult,
+  type AIStreamOptions,
+  type CodeReviewResponse,
   type AIProviders,
 } from "../types";
 import {
   generateWithRetry,
   getCodeReviewPrompt,
   getSystemPrompt,
+  getCommitUserPrompt,
+  throwIfCancelled,
 } from "../utils/generateHelper";
 
 import { getWeeklyReportPrompt } from "../../prompt/weeklyReport";
 import { CodeReviewReportGenerator } from "../../services/CodeReviewReportGenerator";
+import { CodeReviewResultParser } from "../../services/CodeReviewResultParser";
 import { formatMessage } from "../../utils/i18n/LocalizationManager";
 
 /**
@@ -100,23 +104,10 @@ export abstract class BaseOpenAIProvider implements AIProvider {
     return generateWithRetry(
       params,
       async (truncatedDiff) => {
-        const messages: ChatCompletionMessageParam[] = [
-          {
-            role: "system",
-            content: getSystemPrompt(params),
-          },
-          {
-            role: "user",
-            content: truncatedDiff,
-          },
-        ];
-
         const completion = await this.openai.chat.completions.create({
-          model:
-            (params.model && params.model.id) ||
-            this.config.defaultModel ||
-            "gpt-3.5-turbo",
-          messages,
+          model: this.getModelId(params),
+          messages: this.createCommitMessages(params, truncatedDiff),
+          temperature: params.temperature,
         });
 
         return {
@@ -135,6 +126,101 @@ export abstract class BaseOpenAIProvider implements AIProvider {
     );
   }
 
+  /**
+   * 流式生成AI回复内容
+   * 每收到一段增量内容即通过 onProgress 回调当前完整内容,支持通过取消令牌中止请求
+   *
+   * @param params - AI请求参数
+   * @param options - 流式生成选项
+   * @returns 包含完整生成内容的Promise
+   * @throws {vscode.CancellationError} 当用户取消生成时抛出
+   */
+  async generateResponseStream(
+    params: AIRequestParams,
+    options: AIStreamOptions
+  ): Promise<AIResponse> {
+    return generateWithRetry(
+      params,
+      async (truncatedDiff) => {
+        throwIfCancelled(options.token);
+
+        const abortController = new AbortController();
+        const cancellation = options.token?.onCancellationRequested(() =>
+          abortController.abort()
+        );
+
+        try {
+          const stream = await this.openai.chat.completions.create(
+            {
+              model: this.getModelId(params),
+              messages: this.createCommitMessages(params, truncatedDiff),
+              temperature: params.temperature,
+              stream: true,
+            },
+            { signal: abortController.signal }
+          );
+
+          let content = "";
+          for await (const chunk of stream) {
+            const delta = chunk.choices[0]?.delta?.content;
+            if (delta) {
+              content += delta;
+              options.onProgress(content);
+            }
+          }
+
+          return { content };
+        } catch (error) {
+          throwIfCancelled(options.token);
+          throw error;
+        } finally {
+          cancellation?.dispose();
+        }
+      },
+      {
+        initialMaxLength: params.model?.maxTokens?.input || 16385,
+        provider: this.getId(),
+      }
+    );
+  }
+
+  /**
+   * 构建生成提交信息的对话消息
+   * @param params - AI请求参数
+   * @param truncatedDiff - 截断后的差异内容
+   * @returns 对话消息列表
+   * @protected
+   */
+  protected createCommitMessages(
+    params: AIRequestParams,
+    truncatedDiff: string
+  ): ChatCompletionMessageParam[] {
+    return [
+      {
+        role: "system",
+        content: getSystemPrompt(params),
+      },
+      {
+        role: "user",
+        content: getCommitUserPrompt(params, truncatedDiff),
+      },
+    ];
+  }
+
+  /**
+   * 获取请求使用的模型ID
+   * @param params - AI请求参数
+   * @returns 模型ID
+   * @protected
+   */
+  protected getModelId(params: AIRequestParams): string {
+    return (
+      (params.model && params.model.id) ||
+      this.config.defaultModel ||
+      "gpt-3.5-turbo"
+    );
+  }
+
   /**
    * 生成代码评审报告
    * 将diff内容转换为结构化的评审结果
@@ -143,7 +229,9 @@ export abstract class BaseOpenAIProvider implements AIProvider {
    * @returns 包含评审报告的Promise
    * @throws 如果AI响应解析失败或生成过程出错
    */
-  async generateCodeReview(params: AIRequestParams): Promise<AIResponse> {
+  async generateCodeReview(
+    params: AIRequestParams
+  ): Promise<CodeReviewResponse> {
     return generateWithRetry(
       params,
       async (truncatedInput) => {
@@ -173,19 +261,10 @@ export abstract class BaseOpenAIProvider implements AIProvider {
             throw new Error("No response content from AI");
           }
 
-          let reviewResult: CodeReviewResult;
-          try {
-            reviewResult = JSON.parse(responseContent);
-          } catch (e) {
-            throw new Error(
-              `Failed to parse AI response as JSON: ${
-                e instanceof Error ? e.message : String(e)
-              }`
-            );
-          }
+          const review = CodeReviewResultParser.parse(responseContent);
           return {
-            content:
-              CodeReviewReportGenerator.generateMarkdownReport(reviewResult),
+            content: CodeReviewReportGenerator.generateMarkdownReport(review),
+            review,
             usage: {
               promptTokens: completion.usage?.prompt_tokens,
               completionTokens: completion.usage?.completion_tokens,
@@ -212,12 +291,14 @@ export abstract class BaseOpenAIProvider implements AIProvider {
    *
    * @param commits - 提交记录数组
    * @param model - 可选的指定模型
+   * @param systemPrompt - 可选的报告模板提示语,未指定时使用周报提示语
    * @returns 包含周报内容的Promise
    * @throws 如果生成失败会抛出本地化的错误信息
    */
   async generateWeeklyReport(
     commits: string[],
-    model?: AIModel
+    model?: AIModel,
+    systemPrompt?: string
   ): Promise<AIResponse> {
     try {
       const response = await this.openai.chat.completions.create({
@@ -225,7 +306,7 @@ export abstract class BaseOpenAIProvider implements AIProvider {
         messages: [
           {
             role: "system",
-            content: getWeeklyReportPrompt(),
+            content: systemPrompt || getWeeklyReportPrompt(),
           },
           {
             role: "user",
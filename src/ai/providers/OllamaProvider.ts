@@ -4,10 +4,16 @@ import {
   AIRequestParams,
   AIResponse,
   type AIModel,
+  type AIStreamOptions,
   type AIProviders,
 } from "../types";
 import { ConfigurationManager } from "../../config/ConfigurationManager";
-import { generateWithRetry, getSystemPrompt } from "../utils/generateHelper";
+import {
+  generateWithRetry,
+  getSystemPrompt,
+  getCommitUserPrompt,
+  throwIfCancelled,
+} from "../utils/generateHelper";
 import { getWeeklyReportPrompt } from "../../prompt/weeklyReport";
 import { getMessage } from "../../utils/i18n";
 import { notify } from "../../utils/notification/NotificationManager";
@@ -85,29 +91,13 @@ export class OllamaProvider implements AIProvider {
 
         const response = await this.ollama.chat({
           model: model.id,
-          messages: [
-            {
-              role: "system",
-              content: getSystemPrompt(params),
-            },
-            {
-              role: "user",
-              content: truncatedDiff,
-            },
-          ],
+          messages: this.createCommitMessages(params, truncatedDiff),
+          options: { temperature: params.temperature },
           stream: false,
         });
 
-        let content = "";
-        try {
-          const jsonContent = JSON.parse(response.message.content);
-          content = jsonContent.response || response.message.content;
-        } catch {
-          content = response.message.content;
-        }
-
         return {
-          content,
+          content: this.parseContent(response.message.content),
           usage: {
             totalTokens: response.total_duration,
           },
@@ -120,15 +110,116 @@ export class OllamaProvider implements AIProvider {
     );
   }
 
+  /**
+   * 流式生成AI响应
+   * 逐段接收Ollama输出,通过取消令牌中止正在进行的请求
+   * @param params - AI请求参数
+   * @param options - 流式生成选项
+   * @returns 包含完整生成内容的响应
+   * @throws {vscode.CancellationError} 当用户取消生成时抛出
+   */
+  async generateResponseStream(
+    params: AIRequestParams,
+    options: AIStreamOptions
+  ): Promise<AIResponse> {
+    return generateWithRetry(
+      params,
+      async (truncatedDiff) => {
+        throwIfCancelled(options.token);
+
+        const model =
+          params.model || this.configManager.getConfig("BASE_MODEL");
+
+        const stream = await this.ollama.chat({
+          model: model.id,
+          messages: this.createCommitMessages(params, truncatedDiff),
+          options: { temperature: params.temperature },
+          stream: true,
+        });
+        const cancellation = options.token?.onCancellationRequested(() =>
+          stream.abort()
+        );
+
+        try {
+          let content = "";
+          let totalDuration: number | undefined;
+          for await (const chunk of stream) {
+            if (chunk.message?.content) {
+              content += chunk.message.content;
+              options.onProgress(content);
+            }
+            if (chunk.done) {
+              totalDuration = chunk.total_duration;
+            }
+          }
+
+          return {
+            content: this.parseContent(content),
+            usage: {
+              totalTokens: totalDuration,
+            },
+          };
+        } catch (error) {
+          throwIfCancelled(options.token);
+          throw error;
+        } finally {
+          cancellation?.dispose();
+        }
+      },
+      {
+        initialMaxLength: 16385,
+        provider: this.getId(),
+      }
+    );
+  }
+
+  /**
+   * 构建生成提交信息的对话消息
+   * @param params - AI请求参数
+   * @param truncatedDiff - 截断后的差异内容
+   * @returns 对话消息列表
+   * @private
+   */
+  private createCommitMessages(params: AIRequestParams, truncatedDiff: string) {
+    return [
+      {
+        role: "system",
+        content: getSystemPrompt(params),
+      },
+      {
+        role: "user",
+        content: getCommitUserPrompt(params, truncatedDiff),
+      },
+    ];
+  }
+
+  /**
+   * 解析模型输出内容
+   * 部分模型会返回 {"response": "..."} 形式的JSON,此时取出其中的文本
+   * @param rawContent - 模型原始输出
+   * @returns 解析后的文本内容
+   * @private
+   */
+  private parseContent(rawContent: string): string {
+    try {
+      const jsonContent = JSON.parse(rawContent);
+      return jsonContent.response || rawContent;
+    } catch {
+      return rawContent;
+    }
+  }
+
   /**
    * 生成周报内容
    * @param commits - 提交记录数组
    * @param model - 可选的指定模型
+   * @param systemPrompt - 可选的报告模板提示语,未指定时使用周报提示语
    * @returns 生成的周报内容和统计信息
    */
   async generateWeeklyReport(
     commits: string[],
-    model?: AIModel
+    model?: AIModel,
+    systemPrompt?: string
   ): Promise<AIResponse> {
     const modelId =
       model?.id || (this.configManager.getConfig("BASE_MODEL") as any).id;
@@ -138,7 +229,7 @@ export class OllamaProvider implements AIProvider {
       messages: [
         {
           role: "system",
-          content: getWeeklyReportPrompt(),
+          content: systemPrompt || getWeeklyReportPrompt(),
         },
         {
           role: "user",
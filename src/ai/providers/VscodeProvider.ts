@@ -5,13 +5,20 @@ import {
   type AIProvider,
   type AIRequestParams,
   type AIResponse,
-  type CodeReviewResult,
+  type AIStreamOptions,
+  type CodeReviewResponse,
 } from "../types";
 import { generateCommitMessageSystemPrompt } from "../../prompt/prompt";
-import { getCodeReviewPrompt, getSystemPrompt } from "../utils/generateHelper";
+import {
+  getCodeReviewPrompt,
+  getSystemPrompt,
+  getCommitUserPrompt,
+  throwIfCancelled,
+} from "../utils/generateHelper";
 import { getWeeklyReportPrompt } from "../../prompt/weeklyReport";
 import { getMessage, formatMessage } from "../../utils/i18n";
 import { CodeReviewReportGenerator } from "../../services/CodeReviewReportGenerator";
+import { CodeReviewResultParser } from "../../services/CodeReviewResultParser";
 
 interface DiffBlock {
   header: string;
@@ -34,6 +41,34 @@ export class VSCodeProvider implements AIProvider {
   constructor() {}
 
   async generateResponse(params: AIRequestParams): Promise<AIResponse> {
+    return this.requestCommitMessage(params);
+  }
+
+  /**
+   * 流式生成提交信息,取消令牌会透传给语言模型请求
+   * @param params - AI请求参数
+   * @param options - 流式生成选项
+   * @returns 包含完整生成内容的响应
+   * @throws {vscode.CancellationError} 当用户取消生成时抛出
+   */
+  async generateResponseStream(
+    params: AIRequestParams,
+    options: AIStreamOptions
+  ): Promise<AIResponse> {
+    return this.requestCommitMessage(params, options);
+  }
+
+  /**
+   * 向VS Code语言模型请求提交信息
+   * @param params - AI请求参数
+   * @param options - 可选的流式生成选项
+   * @returns 生成的提交信息
+   * @private
+   */
+  private async requestCommitMessage(
+    params: AIRequestParams,
+    options?: AIStreamOptions
+  ): Promise<AIResponse> {
     try {
       const models = await vscode.lm.selectChatModels();
       if (!models || models.length === 0) {
@@ -49,7 +84,10 @@ export class VSCodeProvider implements AIProvider {
         const messages = [
           vscode.LanguageModelChatMessage.User(getSystemPrompt(params)),
           vscode.LanguageModelChatMessage.User(
-            params.diff.substring(0, maxCodeCharacters)
+            getCommitUserPrompt(
+              params,
+              params.diff.substring(0, maxCodeCharacters)
+            )
           ),
         ];
 
@@ -58,15 +96,26 @@ export class VSCodeProvider implements AIProvider {
             console.warn(getMessage("input.truncated"));
           }
 
-          const response = await chatModel.sendRequest(messages);
+          throwIfCancelled(options?.token);
+          const response = await chatModel.sendRequest(
+            messages,
+            params.temperature !== undefined
+              ? { modelOptions: { temperature: params.temperature } }
+              : {},
+            options?.token
+          );
 
           let result = "";
           for await (const fragment of response.text) {
             result += fragment;
+            options?.onProgress(result);
           }
+          throwIfCancelled(options?.token);
 
           return { content: result.trim() };
         } catch (ex: Error | any) {
+          throwIfCancelled(options?.token);
+
           let message = ex instanceof Error ? ex.message : String(ex);
 
           if (
@@ -89,6 +138,9 @@ export class VSCodeProvider implements AIProvider {
         }
       }
     } catch (error) {
+      if (error instanceof vscode.CancellationError) {
+        throw error;
+      }
       throw new Error(
         formatMessage("vscode.generation.failed", [
           error instanceof Error ? error.message : String(error),
@@ -97,7 +149,9 @@ export class VSCodeProvider implements AIProvider {
     }
   }
 
-  async generateCodeReview(params: AIRequestParams): Promise<AIResponse> {
+  async generateCodeReview(
+    params: AIRequestParams
+  ): Promise<CodeReviewResponse> {
     try {
       const models = await vscode.lm.selectChatModels();
       if (!models || models.length === 0) {
@@ -110,29 +164,15 @@ export class VSCodeProvider implements AIProvider {
       let retries = 0;
 
       while (true) {
-        // 更新JSON schema格式以匹配CodeReviewIssue接口
-        const systemMessage = `${getCodeReviewPrompt(params)}
-IMPORTANT: You must respond with a valid JSON object following this schema:
-{
-  "summary": string,  // Overall review summary
-  "issues": [        // Array of code review issues
-    {
-      "description": string,   // Issue description 
-      "suggestion": string,    // Suggested fix
-      "filePath": string,     // File path
-      "startLine": number,    // Issue start line
-      "endLine"?: number,     // Optional end line
-      "severity": "NOTE" | "WARNING" | "ERROR",
-      "documentation"?: string,   // Optional documentation link
-      "code"?: string            // Optional code snippet
-    }
-  ]
-}`;
+        const systemMessage = getCodeReviewPrompt(params);
 
         const messages = [
           vscode.LanguageModelChatMessage.User(systemMessage),
           vscode.LanguageModelChatMessage.User(
-            params.diff.substring(0, maxCodeCharacters)
+            getCommitUserPrompt(
+              params,
+              params.diff.substring(0, maxCodeCharacters)
+            )
           ),
         ];
 
@@ -150,32 +190,10 @@ IMPORTANT: You must respond with a valid JSON object following this schema:
             result += fragment;
           }
 
-          let reviewResult: CodeReviewResult;
-          try {
-            const jsonMatch = result.match(/\{[\s\S]*\}/);
-            const jsonContent = jsonMatch ? jsonMatch[0] : result;
-
-            reviewResult = JSON.parse(jsonContent);
-          } catch (e) {
-            // 修改fallback对象结构以符合CodeReviewIssue接口
-            reviewResult = {
-              summary: "Code Review Summary",
-              issues: [
-                {
-                  description: result,
-                  suggestion: "Please review the generated content.",
-                  filePath: "unknown",
-                  startLine: 1,
-                  severity: "NOTE",
-                  code: result,
-                },
-              ],
-            };
-          }
-
+          const review = CodeReviewResultParser.parse(result);
           return {
-            content:
-              CodeReviewReportGenerator.generateMarkdownReport(reviewResult),
+            content: CodeReviewReportGenerator.generateMarkdownReport(review),
+            review,
           };
         } catch (ex: Error | any) {
           console.log("ex", ex);
@@ -213,7 +231,8 @@ IMPORTANT: You must respond with a valid JSON object following this schema:
 
   async generateWeeklyReport(
     commits: string[],
-    model?: AIModel
+    model?: AIModel,
+    systemPrompt?: string
   ): Promise<AIResponse> {
     try {
       const models = await vscode.lm.selectChatModels();
@@ -226,7 +245,9 @@ IMPORTANT: You must respond with a valid JSON object following this schema:
         : models[0];
 
       const messages = [
-        vscode.LanguageModelChatMessage.User(getWeeklyReportPrompt()),
+        vscode.LanguageModelChatMessage.User(
+          systemPrompt || getWeeklyReportPrompt()
+        ),
         vscode.LanguageModelChatMessage.User(commits.join("\n")),
       ];
 
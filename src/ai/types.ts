@@ -1,4 +1,6 @@
+import type { CancellationToken } from "vscode";
 import type { AIGenerationErrorType } from "./utils/generateHelper";
+import type { ProjectConvention } from "../config/ProjectConvention";
 
 /**
  * AI请求选项接口，定义了向AI模型发送请求时的基本参数
@@ -51,6 +53,10 @@ export interface AIRequestParams {
   scm?: "git" | "svn";
   /** 额外上下文信息 */
   additionalContext: string;
+  /** 采样温度,未设置时使用提供商默认值 */
+  temperature?: number;
+  /** 仓库中声明的提交约定 */
+  convention?: ProjectConvention;
 
   /** 代码分析相关选项 */
   simplifyDiff?: boolean;
@@ -60,6 +66,16 @@ export interface AIRequestParams {
   enableEmoji?: boolean;
 }
 
+/**
+ * 流式生成选项接口
+ */
+export interface AIStreamOptions {
+  /** 收到新内容时的回调,参数为当前已生成的完整内容 */
+  onProgress: (content: string) => void;
+  /** 取消令牌,触发后中止生成并抛出 vscode.CancellationError */
+  token?: CancellationToken;
+}
+
 /**
  * AI错误接口，定义了统一的错误处理结构
  */
@@ -116,10 +132,19 @@ export interface AIModel<
 export interface AIProvider {
   /** 生成回复内容 */
   generateResponse(params: AIRequestParams): Promise<AIResponse>;
+  /** 流式生成回复内容,每收到一段内容即回调 */
+  generateResponseStream?(
+    params: AIRequestParams,
+    options: AIStreamOptions
+  ): Promise<AIResponse>;
   /** 生成代码评审内容 */
-  generateCodeReview?(params: AIRequestParams): Promise<AIResponse>;
-  /** 生成周报 */
-  generateWeeklyReport(commits: string[], model?: AIModel): Promise<AIResponse>;
+  generateCodeReview?(params: AIRequestParams): Promise<CodeReviewResponse>;
+  /** 生成周报,可指定报告模板的系统提示语 */
+  generateWeeklyReport(
+    commits: string[],
+    model?: AIModel,
+    systemPrompt?: string
+  ): Promise<AIResponse>;
   /** 检查服务可用性 */
   isAvailable(): Promise<boolean>;
   /** 刷新可用模型列表 */
@@ -152,6 +177,8 @@ export interface CodeReviewIssue {
   documentation?: string;
   /** 问题代码片段 */
   code?: string;
+  /** 替换 startLine 至 endLine 各行的修复代码,用于快速修复 */
+  replacement?: string;
 }
 
 /**
@@ -164,6 +191,14 @@ export interface CodeReviewResult {
   summary: string;
 }
 
+/**
+ * 代码评审响应接口,content 为 Markdown 格式的评审报告
+ */
+export interface CodeReviewResponse extends AIResponse {
+  /** 校验后的结构化评审结果 */
+  review: CodeReviewResult;
+}
+
 export type GitHubModels =
   | "gpt-4o"
   | "gpt-4o-mini"
@@ -344,6 +379,9 @@ export interface VSCodeModelInfo {
   maxTokens: number; // 新增maxTokens字段
 }
 
+/** 每个token平均对应的字符数,用于在token上限和字符长度之间换算 */
+export const CHARACTERS_PER_TOKEN = 3.1;
+
 /**
  * 计算给定模型和输出长度下的最大输入字符数
  * @param model - AI模型信息
@@ -351,13 +389,10 @@ export interface VSCodeModelInfo {
  * @returns 允许的最大输入字符数
  */
 export function getMaxCharacters(model: AIModel, outputLength: number): number {
-  // 每个字符平均消耗的token数
-  const tokensPerCharacter = 3.1;
-
-  // 计算可用的最大token数
+  // 计算可用的最大字符数
   const max =
-    model.maxTokens.input * tokensPerCharacter -
-    outputLength / tokensPerCharacter;
+    model.maxTokens.input * CHARACTERS_PER_TOKEN -
+    outputLength / CHARACTERS_PER_TOKEN;
 
   // 保留10%的缓冲空间
   return Math.floor(max - max * 0.1);
@@ -0,0 +1,254 @@
+import * as vscode from "vscode";
+import {
+  getMaxCharacters,
+  type AIProvider,
+  type AIRequestParams,
+  type AIResponse,
+  type AIStreamOptions,
+} from "../types";
+import { getSystemPrompt, throwIfCancelled } from "./generateHelper";
+import { DiffSplitter } from "../../utils/diff/DiffSplitter";
+import type { DiffChunk } from "../../utils/diff/types";
+import {
+  getFileSummaryPrompt,
+  getSummaryCondensePrompt,
+  getSummaryMergeInstruction,
+} from "../../prompt/diffSummary";
+import { formatMessage } from "../../utils/i18n";
+
+/** 每次请求为模型输出预留的长度 */
+const OUTPUT_LENGTH = 2600;
+
+/** 单批输入的最小长度,避免提示词过长时预算变为负数 */
+const MIN_BATCH_LENGTH = 1000;
+
+/**
+ * 分块生成的配置选项
+ */
+export interface ChunkedGenerateOptions {
+  /** 进度报告对象 */
+  progress?: vscode.Progress<{ message?: string; increment?: number }>;
+  /** 取消令牌 */
+  token?: vscode.CancellationToken;
+  /** 最终合并阶段的流式输出选项,提供商支持时生效 */
+  stream?: AIStreamOptions;
+  /** 最终生成内容的名称,用于合并阶段的提示,默认为提交信息 */
+  output?: string;
+}
+
+/**
+ * 计算单次请求允许的输入长度
+ * 差异按字符计算长度,模型的输入 token 上限由 getMaxCharacters 按 CHARACTERS_PER_TOKEN
+ * 换算为字符数,再扣除系统提示的长度
+ * @param params - AI 请求参数
+ * @param systemPrompt - 本次请求使用的系统提示
+ * @returns 允许的最大输入字符数
+ */
+export function getInputBudget(
+  params: AIRequestParams,
+  systemPrompt: string
+): number {
+  const budget =
+    getMaxCharacters(params.model, OUTPUT_LENGTH) - systemPrompt.length;
+  return Math.max(budget, MIN_BATCH_LENGTH);
+}
+
+/**
+ * 判断差异内容是否超出模型上下文,需要使用分块生成
+ * @param params - AI 请求参数
+ * @returns 是否需要分块生成
+ */
+export function needsChunkedGeneration(params: AIRequestParams): boolean {
+  return params.diff.length > getInputBudget(params, getSystemPrompt(params));
+}
+
+/**
+ * 将完整差异拆分为按文件的差异块,并恢复被拆分掉的文件头
+ * @param diff - 完整差异内容
+ * @param scm - 源代码管理类型
+ * @returns 差异块列表
+ */
+function splitDiff(diff: string, scm: "git" | "svn" = "git"): DiffChunk[] {
+  const chunks =
+    scm === "svn"
+      ? DiffSplitter.splitSvnDiff(diff).map((chunk) => ({
+          ...chunk,
+          content: `Index: ${chunk.content}`,
+        }))
+      : DiffSplitter.splitGitDiff(diff).map((chunk) => ({
+          ...chunk,
+          content: `diff --git ${chunk.content}`,
+        }));
+
+  // 无法识别文件头时,将整个差异视为一个块
+  return chunks.length > 0 ? chunks : [{ filename: "", content: diff }];
+}
+
+/**
+ * 将超出预算的单个文件差异按行拆分为多个部分
+ * @param chunk - 文件差异块
+ * @param budget - 单个部分允许的最大长度
+ * @returns 拆分后的差异块列表
+ */
+function splitOversizedChunk(chunk: DiffChunk, budget: number): DiffChunk[] {
+  if (chunk.content.length <= budget) {
+    return [chunk];
+  }
+
+  const parts: string[] = [];
+  let current = "";
+  for (const line of chunk.content.split("\n")) {
+    // 超长的单行直接截断,保证每个部分都不超过预算
+    const safeLine = line.length > budget ? line.substring(0, budget) : line;
+    if (current && current.length + safeLine.length + 1 > budget) {
+      parts.push(current);
+      current = "";
+    }
+    current = current ? `${current}\n${safeLine}` : safeLine;
+  }
+  if (current) {
+    parts.push(current);
+  }
+
+  return parts.map((content, index) => ({
+    filename: chunk.filename,
+    content: `# ${chunk.filename} (part ${index + 1}/${parts.length})\n${content}`,
+  }));
+}
+
+/**
+ * 将文本片段按预算合并为批次,尽量减少请求次数
+ * @param pieces - 文本片段列表,每个片段都不超过预算
+ * @param budget - 每个批次允许的最大长度
+ * @returns 批次内容列表
+ */
+function createBatches(pieces: string[], budget: number): string[] {
+  const batches: string[] = [];
+  let current = "";
+  for (const piece of pieces) {
+    if (current && current.length + piece.length + 2 > budget) {
+      batches.push(current);
+      current = "";
+    }
+    current = current ? `${current}\n\n${piece}` : piece;
+  }
+  if (current) {
+    batches.push(current);
+  }
+  return batches;
+}
+
+/**
+ * 使用指定系统提示依次处理每个批次
+ * @param provider - AI 提供商
+ * @param params - AI 请求参数
+ * @param systemPrompt - 本阶段使用的系统提示
+ * @param batches - 批次内容列表
+ * @param options - 分块生成选项
+ * @param increment - 本阶段占用的总进度
+ * @returns 每个批次的生成结果
+ */
+async function summarizeBatches(
+  provider: AIProvider,
+  params: AIRequestParams,
+  systemPrompt: string,
+  batches: string[],
+  options: ChunkedGenerateOptions,
+  increment: number
+): Promise<string[]> {
+  const summaries: string[] = [];
+  for (const [index, batch] of batches.entries()) {
+    throwIfCancelled(options.token);
+    options.progress?.report({
+      message: formatMessage("progress.summarizing.changes", [
+        index + 1,
+        batches.length,
+      ]),
+    });
+
+    const response = await provider.generateResponse({
+      ...params,
+      systemPrompt,
+      additionalContext: "",
+      diff: batch,
+    });
+    summaries.push(response.content.trim());
+
+    options.progress?.report({ increment: increment / batches.length });
+  }
+  throwIfCancelled(options.token);
+  return summaries;
+}
+
+/**
+ * 以 map-reduce 方式为超出模型上下文的差异生成提交信息
+ * 1. 按文件拆分差异,超长文件再按行拆分,并按预算合并为批次
+ * 2. 逐批生成文件变更摘要
+ * 3. 摘要仍超出预算时继续压缩
+ * 4. 使用原有系统提示(如提交信息系统提示),基于全部摘要生成最终结果
+ *
+ * 仅依赖 AIProvider 的通用生成接口,适用于所有提供商
+ * @param provider - AI 提供商
+ * @param params - AI 请求参数
+ * @param options - 分块生成选项
+ * @returns 最终生成的内容,默认为提交信息
+ * @throws {vscode.CancellationError} 当用户取消生成时抛出
+ */
+export async function generateChunkedResponse(
+  provider: AIProvider,
+  params: AIRequestParams,
+  options: ChunkedGenerateOptions = {}
+): Promise<AIResponse> {
+  const summaryPrompt = getFileSummaryPrompt(params.language);
+  const summaryBudget = getInputBudget(params, summaryPrompt);
+
+  const pieces = splitDiff(params.diff, params.scm).flatMap((chunk) =>
+    splitOversizedChunk(chunk, summaryBudget).map((piece) => piece.content)
+  );
+  let summaries = await summarizeBatches(
+    provider,
+    params,
+    summaryPrompt,
+    createBatches(pieces, summaryBudget),
+    options,
+    60
+  );
+
+  // 合并后的摘要仍超出预算时逐轮压缩,直到无法继续合并
+  const mergePrompt =
+    getSystemPrompt(params) + getSummaryMergeInstruction(options.output);
+  const mergeBudget = getInputBudget(params, mergePrompt);
+  const condensePrompt = getSummaryCondensePrompt(params.language);
+  const condenseBudget = getInputBudget(params, condensePrompt);
+  while (summaries.join("\n\n").length > mergeBudget && summaries.length > 1) {
+    const batches = createBatches(
+      summaries.map((summary) => summary.substring(0, condenseBudget)),
+      condenseBudget
+    );
+    if (batches.length >= summaries.length) {
+      break;
+    }
+    summaries = await summarizeBatches(
+      provider,
+      params,
+      condensePrompt,
+      batches,
+      options,
+      0
+    );
+  }
+
+  options.progress?.report({
+    message: formatMessage("progress.merging.summaries", [pieces.length]),
+  });
+
+  const mergeParams: AIRequestParams = {
+    ...params,
+    systemPrompt: mergePrompt,
+    diff: summaries.join("\n\n"),
+  };
+  if (options.stream && provider.generateResponseStream) {
+    return provider.generateResponseStream(mergeParams, options.stream);
+  }
+  return provider.generateResponse(mergeParams);
+}
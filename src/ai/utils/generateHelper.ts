@@ -1,8 +1,12 @@
+import * as vscode from "vscode";
 import { notify } from "../../utils/notification/NotificationManager";
 import { generateCommitMessageSystemPrompt } from "../../prompt/prompt";
 import { AIRequestParams } from "../types";
 import { ConfigurationManager } from "../../config/ConfigurationManager";
-import { CODE_REVIEW_PROMPT } from "../../prompt/codeReview";
+import {
+  CODE_REVIEW_OUTPUT_FORMAT,
+  CODE_REVIEW_PROMPT,
+} from "../../prompt/codeReview";
 import { getMessage, formatMessage } from "../../utils/i18n";
 
 /**
@@ -79,6 +83,11 @@ export async function generateWithRetry<T>(
 
       return await generateFn(truncatedPrompt);
     } catch (error: any) {
+      // 用户取消不属于生成失败,直接向上抛出
+      if (error instanceof vscode.CancellationError) {
+        throw error;
+      }
+
       console.log("error", error);
 
       // 检查是否是可重试的错误类型且未超过最大重试次数
@@ -105,6 +114,32 @@ export async function generateWithRetry<T>(
   }
 }
 
+/**
+ * 检查取消令牌,已请求取消时抛出 vscode.CancellationError
+ * @param {vscode.CancellationToken} [token] - 取消令牌
+ * @throws {vscode.CancellationError} 当已请求取消时抛出
+ */
+export function throwIfCancelled(token?: vscode.CancellationToken): void {
+  if (token?.isCancellationRequested) {
+    throw new vscode.CancellationError();
+  }
+}
+
+/**
+ * 获取生成提交信息时的用户消息
+ * 存在额外上下文时置于差异之前,与系统提示中的约定一致
+ * @param {AIRequestParams} params - AI 请求参数
+ * @param {string} diff - 截断后的差异内容
+ * @returns {string} 用户消息文本
+ */
+export function getCommitUserPrompt(
+  params: AIRequestParams,
+  diff: string
+): string {
+  const context = params.additionalContext?.trim();
+  return context ? `Additional context:\n${context}\n\nDiff:\n${diff}` : diff;
+}
+
 /** 标记是否正在生成系统提示,用于防止循环调用 */
 let isGeneratingPrompt = false;
 
@@ -130,6 +165,7 @@ export function getSystemPrompt(params: AIRequestParams): string {
     return generateCommitMessageSystemPrompt({
       config,
       vcsType: params.scm || "git",
+      convention: params.convention,
     });
   } finally {
     isGeneratingPrompt = false;
@@ -148,7 +184,8 @@ export function getCodeReviewPrompt(params: AIRequestParams): string {
     const configuredPrompt = config.features?.codeReview?.systemPrompt;
 
     // 如果配置了自定义提示则使用配置的,否则使用默认提示
-    return configuredPrompt || CODE_REVIEW_PROMPT;
+    // 输出格式始终追加在最后,保证结果可以解析为结构化的审查结果
+    return `${configuredPrompt || CODE_REVIEW_PROMPT}\n${CODE_REVIEW_OUTPUT_FORMAT}`;
   } finally {
   }
 }
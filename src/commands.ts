@@ -4,6 +4,15 @@ import { GenerateCommitCommand } from "./commands/GenerateCommitCommand";
 import { SelectModelCommand } from "./commands/SelectModelCommand";
 import { GenerateWeeklyReportCommand } from "./commands/GenerateWeeklyReportCommand";
 import { ReviewCodeCommand } from "./commands/ReviewCodeCommand";
+import {
+  SvnChangelistCommand,
+  type ChangelistCommandMode,
+} from "./commands/SvnChangelistCommand";
+import { RewriteHistoryCommand } from "./commands/RewriteHistoryCommand";
+import { SplitCommitCommand } from "./commands/SplitCommitCommand";
+import { GeneratePullRequestCommand } from "./commands/GeneratePullRequestCommand";
+import { GenerateChangelogCommand } from "./commands/GenerateChangelogCommand";
+import { ReviewHistoryPanel } from "./webview/ReviewHistoryPanel";
 import { notify } from "./utils";
 
 /**
@@ -34,6 +43,18 @@ export class CommandManager implements vscode.Disposable {
       const selectModelCommand = new SelectModelCommand(this.context);
       const weeklyReportCommand = new GenerateWeeklyReportCommand(this.context);
       const reviewCodeCommand = new ReviewCodeCommand(this.context);
+      const changelistCommand = new SvnChangelistCommand(this.context);
+      const rewriteHistoryCommand = new RewriteHistoryCommand(this.context);
+      const splitCommitCommand = new SplitCommitCommand(this.context);
+      const pullRequestCommand = new GeneratePullRequestCommand(this.context);
+      const changelogCommand = new GenerateChangelogCommand(this.context);
+
+      // SVN变更列表命令与执行模式的对应关系
+      const changelistCommands: [string, ChangelistCommandMode][] = [
+        [COMMANDS.SVN_CHANGELIST.GENERATE, "generate"],
+        [COMMANDS.SVN_CHANGELIST.GENERATE_ALL, "generateAll"],
+        [COMMANDS.SVN_CHANGELIST.COMMIT, "commit"],
+      ];
 
       this.disposables.push(
         // 注册生成commit信息命令
@@ -83,7 +104,103 @@ export class CommandManager implements vscode.Disposable {
               await reviewCodeCommand.execute(resources);
             } catch (error) {
               // 处理代码审查失败
-              notify.error("command.review.code.failed", [
+              notify.error("code.review.failed", [
+                error instanceof Error ? error.message : String(error),
+              ]);
+            }
+          }
+        ),
+        // 注册SVN变更列表命令
+        ...changelistCommands.map(([command, mode]) =>
+          vscode.commands.registerCommand(command, async (resource?: any) => {
+            try {
+              await changelistCommand.execute(resource, mode);
+            } catch (error) {
+              // 处理变更列表命令失败
+              notify.error("svn.changelist.failed", [
+                error instanceof Error ? error.message : String(error),
+              ]);
+            }
+          })
+        ),
+        // 注册历史提交信息重写命令
+        vscode.commands.registerCommand(
+          COMMANDS.COMMIT_HISTORY.REWRITE,
+          async (resource?: any) => {
+            try {
+              await rewriteHistoryCommand.execute(resource);
+            } catch (error) {
+              // 处理历史提交信息重写失败
+              notify.error("history.failed", [
+                error instanceof Error ? error.message : String(error),
+              ]);
+            }
+          }
+        ),
+        // 注册拆分提交命令
+        vscode.commands.registerCommand(
+          COMMANDS.COMMIT_SPLIT.SPLIT,
+          async (resource?: any) => {
+            try {
+              await splitCommitCommand.execute(resource);
+            } catch (error) {
+              // 处理拆分提交失败
+              notify.error("commit.split.failed", [
+                error instanceof Error ? error.message : String(error),
+              ]);
+            }
+          }
+        ),
+        // 注册拉取请求描述生成命令
+        vscode.commands.registerCommand(
+          COMMANDS.PULL_REQUEST.GENERATE,
+          async (resource?: any) => {
+            try {
+              await pullRequestCommand.execute(resource);
+            } catch (error) {
+              // 处理拉取请求描述生成失败
+              notify.error("pullRequest.failed", [
+                error instanceof Error ? error.message : String(error),
+              ]);
+            }
+          }
+        ),
+        // 注册更新日志生成命令
+        vscode.commands.registerCommand(
+          COMMANDS.CHANGELOG.GENERATE,
+          async (resource?: any) => {
+            try {
+              await changelogCommand.execute(resource);
+            } catch (error) {
+              // 处理更新日志生成失败
+              notify.error("changelog.failed", [
+                error instanceof Error ? error.message : String(error),
+              ]);
+            }
+          }
+        ),
+        // 注册代码审查历史命令
+        vscode.commands.registerCommand(COMMANDS.CODE_REVIEW.HISTORY, () => {
+          try {
+            ReviewHistoryPanel.createOrShow();
+          } catch (error) {
+            // 处理审查历史面板打开失败
+            notify.error("review.history.failed", [
+              error instanceof Error ? error.message : String(error),
+            ]);
+          }
+        }),
+        // 注册重新审查变化文件的命令,审查历史面板会传入仓库根目录
+        vscode.commands.registerCommand(
+          COMMANDS.CODE_REVIEW.RERUN,
+          async (rootPath?: unknown) => {
+            try {
+              await reviewCodeCommand.rerun(
+                typeof rootPath === "string" ? rootPath : undefined
+              );
+            } catch (error) {
+              // 处理代码审查失败
+              notify.error("code.review.failed", [
                 error instanceof Error ? error.message : String(error),
               ]);
             }
@@ -1,7 +1,7 @@
 import * as vscode from "vscode";
 import { ConfigurationManager } from "../config/ConfigurationManager";
 import { AIProviderFactory } from "../ai/AIProviderFactory";
-import { SCMFactory } from "../scm/SCMProvider";
+import { ISCMProvider, SCMFactory } from "../scm/SCMProvider";
 import { ModelPickerService } from "../services/ModelPickerService";
 import { notify } from "../utils/notification/NotificationManager";
 import { getMessage, formatMessage } from "../utils/i18n";
@@ -150,12 +150,52 @@ export abstract class BaseCommand {
     ];
   }
 
+  /**
+   * 从命令参数中解析目标仓库路径
+   * 支持源代码管理标题栏传入的SourceControl(rootUri)以及资源状态
+   * @param resources - 源代码管理资源状态或SourceControl实例
+   * @returns 用于定位仓库的路径,无法解析时返回undefined
+   */
+  protected getRepositoryPath(resources?: any): string | undefined {
+    const first = Array.isArray(resources) ? resources[0] : resources;
+    if (first?.rootUri instanceof vscode.Uri) {
+      return first.rootUri.fsPath;
+    }
+    return this.getSelectedFiles(resources)?.[0];
+  }
+
+  /**
+   * 过滤出属于指定SCM提供程序仓库的文件
+   * @param scmProvider - SCM提供程序实例
+   * @param files - 选中的文件列表
+   * @returns 属于该仓库的文件列表
+   */
+  protected filterFilesInRepository(
+    scmProvider: ISCMProvider,
+    files?: string[]
+  ): string[] | undefined {
+    if (!files) {
+      return undefined;
+    }
+    const filtered = files.filter((file) =>
+      SCMFactory.isPathInside(file, scmProvider.rootPath)
+    );
+    if (filtered.length < files.length) {
+      notify.warn("scm.files.outside.repository", [
+        String(files.length - filtered.length),
+        scmProvider.rootPath,
+      ]);
+    }
+    return filtered;
+  }
+
   /**
    * 检测并获取SCM提供程序
+   * @param targetPath - 用于定位仓库的路径,未提供时根据当前编辑器或用户选择确定
    * @returns SCM提供程序实例
    */
-  protected async detectSCMProvider() {
-    const scmProvider = await SCMFactory.detectSCM();
+  protected async detectSCMProvider(targetPath?: string) {
+    const scmProvider = await SCMFactory.detectSCM(targetPath);
     if (!scmProvider) {
       await notify.error(getMessage("scm.not.detected"));
       return;
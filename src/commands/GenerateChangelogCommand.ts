@@ -0,0 +1,242 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { BaseCommand } from "./BaseCommand";
+import { CONFIG_SCHEMA } from "../config/ConfigSchema";
+import {
+  GitCommitStrategy,
+  type CommitLogStrategy,
+} from "../scm/CommitLogStrategy";
+import type { ISCMProvider } from "../scm/SCMProvider";
+import { ChangelogService } from "../services/ChangelogService";
+import { getChangelogPrompt } from "../prompt/changelog";
+import { throwIfCancelled } from "../ai/utils/generateHelper";
+import { notify } from "../utils/notification";
+import { getMessage, formatMessage } from "../utils/i18n";
+import { ProgressHandler } from "../utils/notification/ProgressHandler";
+
+/**
+ * 更新日志生成命令类
+ * 读取两个标签或修订版本之间的提交,按约定式提交类型分组后由模型总结,
+ * 为每种选择的语言在对应的更新日志文件开头插入新版本的章节
+ * @extends {BaseCommand}
+ */
+export class GenerateChangelogCommand extends BaseCommand {
+  /**
+   * 执行更新日志生成命令
+   * @param resources - 源代码管理标题栏传入的SourceControl实例,用于定位仓库
+   */
+  async execute(resources?: any) {
+    const configResult = await this.handleConfiguration();
+    if (!configResult) {
+      return;
+    }
+
+    try {
+      const scmProvider = await this.detectSCMProvider(
+        this.getRepositoryPath(resources)
+      );
+      if (!scmProvider) {
+        return;
+      }
+      const strategy = ChangelogService.createCommitStrategy(scmProvider.type);
+
+      const range = await this.pickRange(scmProvider, strategy);
+      if (!range) {
+        return;
+      }
+
+      const version = await vscode.window.showInputBox({
+        prompt: getMessage("changelog.version.prompt"),
+        value: this.getDefaultVersion(scmProvider.rootPath, range.to),
+        ignoreFocusOut: true,
+        validateInput: (value) =>
+          value.trim() ? undefined : getMessage("changelog.version.required"),
+      });
+      if (!version) {
+        return;
+      }
+
+      const { configuration } = this.getExtConfig();
+      const languages = await this.pickLanguages(configuration.base.language);
+      if (!languages?.length) {
+        return;
+      }
+
+      const files = await ProgressHandler.withProgress(
+        getMessage("progress.generating.changelog"),
+        async (progress, token) => {
+          const commits = await strategy.getCommitsInRange(
+            scmProvider.rootPath,
+            range.from,
+            range.to
+          );
+          const groups = ChangelogService.groupCommits(commits);
+          if (groups.length === 0) {
+            return undefined;
+          }
+
+          const { aiProvider, selectedModel } =
+            await this.selectAndUpdateModelConfiguration(
+              configResult.provider,
+              configResult.model
+            );
+          const paths = ChangelogService.getChangelogPaths(
+            scmProvider.rootPath,
+            languages
+          );
+          const date = new Date().toISOString().substring(0, 10);
+
+          // 所有语言生成完成后再写入,避免部分语言失败时只更新了部分文件
+          const sections = new Map<string, string>();
+          for (const language of languages) {
+            progress.report({
+              message: formatMessage("changelog.generating.language", [
+                language,
+              ]),
+            });
+            const response = await aiProvider.generateResponse({
+              ...configuration.base,
+              language,
+              systemPrompt: getChangelogPrompt(language),
+              additionalContext: "",
+              diff: ChangelogService.formatGroups(groups),
+              model: selectedModel,
+              scm: scmProvider.type,
+            });
+            throwIfCancelled(token);
+            if (!response.content.trim()) {
+              throw new Error(
+                formatMessage("changelog.empty.response", [language])
+              );
+            }
+            sections.set(
+              paths.get(language)!,
+              ChangelogService.formatSection(
+                version.trim(),
+                date,
+                response.content
+              )
+            );
+          }
+
+          for (const [filePath, section] of sections) {
+            ChangelogService.prependSection(filePath, section);
+          }
+          return [...sections.keys()];
+        }
+      );
+      if (!files) {
+        notify.info("changelog.no.commits", [
+          range.from || getMessage("changelog.range.start"),
+          range.to,
+        ]);
+        return;
+      }
+
+      await vscode.window.showTextDocument(vscode.Uri.file(files[0]));
+      notify.info("changelog.updated", [
+        files.map((file) => path.basename(file)).join(", "),
+      ]);
+    } catch (error) {
+      if (error instanceof vscode.CancellationError) {
+        notify.info("changelog.cancelled");
+        return;
+      }
+      console.log("error", error);
+      if (error instanceof Error) {
+        notify.error("changelog.failed", [error.message]);
+      }
+    }
+  }
+
+  /**
+   * 输入版本范围
+   * Git默认从最近的标签到HEAD,SVN需要输入起始修订版本
+   * @param scmProvider - SCM提供程序实例
+   * @param strategy - 提交日志策略
+   * @returns 起始和结束标签或修订版本,用户取消时返回undefined
+   */
+  private async pickRange(
+    scmProvider: ISCMProvider,
+    strategy: CommitLogStrategy
+  ): Promise<{ from: string; to: string } | undefined> {
+    const isGit = scmProvider.type === "git";
+    const from = await vscode.window.showInputBox({
+      prompt: getMessage(`changelog.from.prompt.${scmProvider.type}`),
+      value:
+        strategy instanceof GitCommitStrategy
+          ? (await strategy.getLatestTag(scmProvider.rootPath)) ?? ""
+          : "",
+      placeHolder: isGit ? "v1.2.0" : "100",
+      ignoreFocusOut: true,
+      // SVN需要明确的起始修订版本,Git为空时从第一个提交开始
+      validateInput: (value) =>
+        isGit || value.trim()
+          ? undefined
+          : getMessage("changelog.from.required"),
+    });
+    if (from === undefined) {
+      return undefined;
+    }
+
+    const to = await vscode.window.showInputBox({
+      prompt: getMessage(`changelog.to.prompt.${scmProvider.type}`),
+      value: "HEAD",
+      ignoreFocusOut: true,
+      validateInput: (value) =>
+        value.trim() ? undefined : getMessage("changelog.to.required"),
+    });
+    if (to === undefined) {
+      return undefined;
+    }
+
+    return { from: from.trim(), to: to.trim() };
+  }
+
+  /**
+   * 选择输出语言,默认选中并优先使用配置的提交信息语言
+   * @param defaultLanguage - 配置的提交信息语言
+   * @returns 选择的语言,第一个为主语言,用户取消时返回undefined
+   */
+  private async pickLanguages(
+    defaultLanguage: string
+  ): Promise<string[] | undefined> {
+    const languages = [
+      defaultLanguage,
+      ...CONFIG_SCHEMA.base.language.enum.filter(
+        (language) => language !== defaultLanguage
+      ),
+    ];
+    const selected = await vscode.window.showQuickPick(
+      languages.map((language) => ({
+        label: language,
+        picked: language === defaultLanguage,
+      })),
+      {
+        canPickMany: true,
+        placeHolder: getMessage("changelog.languages.placeholder"),
+      }
+    );
+    return selected?.map((item) => item.label);
+  }
+
+  /**
+   * 获取默认的版本号
+   * 结束位置为标签时使用标签名,否则使用仓库 package.json 中的版本
+   * @param rootPath - 仓库根目录
+   * @param to - 结束标签或修订版本
+   * @returns 版本号,无法确定时返回空字符串
+   */
+  private getDefaultVersion(rootPath: string, to: string): string {
+    if (/^v?\d+\.\d+/.test(to)) {
+      return to.replace(/^v/, "");
+    }
+    try {
+      const packagePath = path.join(rootPath, "package.json");
+      return JSON.parse(fs.readFileSync(packagePath, "utf8")).version ?? "";
+    } catch {
+      return "";
+    }
+  }
+}
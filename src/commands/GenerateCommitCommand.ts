@@ -2,14 +2,102 @@ import * as vscode from "vscode";
 import { BaseCommand } from "./BaseCommand";
 import { ConfigurationManager } from "../config/ConfigurationManager";
 import { AIProviderFactory } from "../ai/AIProviderFactory";
-import { SCMFactory } from "../scm/SCMProvider";
+import { SCMFactory, type ISCMProvider } from "../scm/SCMProvider";
+import type { AIResponse, AIStreamOptions } from "../ai/types";
+import {
+  generateChunkedResponse,
+  needsChunkedGeneration,
+} from "../ai/utils/chunkedGenerate";
+import { throwIfCancelled } from "../ai/utils/generateHelper";
+import {
+  CommitMessageLinter,
+  CommitlintConfigLoader,
+} from "../utils/commitlint";
+import { getCommitLintFeedbackPrompt } from "../prompt/commitLint";
+import { generateCommitMessageSystemPrompt } from "../prompt/prompt";
+import {
+  CommitCandidatePicker,
+  type CommitCandidate,
+} from "../services/CommitCandidatePicker";
 import { type ConfigKey } from "../config/types";
+import {
+  ProjectConventionLoader,
+  type ProjectConvention,
+} from "../config/ProjectConvention";
 import { ModelPickerService } from "../services/ModelPickerService";
+import {
+  IssueTrackerService,
+  type TicketContext,
+} from "../services/IssueTrackerService";
 import { notify } from "../utils/notification";
 import { getMessage, formatMessage } from "../utils/i18n";
 import { ProgressHandler } from "../utils/notification/ProgressHandler";
+import { ScopeResolver } from "../utils/diff/ScopeResolver";
 import { validateAndGetModel } from "../utils/ai/modelValidation";
 
+/** 流式生成时写入提交输入框的最小间隔(ms) */
+const STREAM_UPDATE_INTERVAL = 100;
+
+/** 候选提交信息的最大数量 */
+const MAX_CANDIDATE_COUNT = 5;
+
+/** 候选提交信息使用的采样温度范围 */
+const MIN_CANDIDATE_TEMPERATURE = 0.2;
+const MAX_CANDIDATE_TEMPERATURE = 1;
+
+/** 规范校验失败后自动重新生成的最大次数 */
+const MAX_LINT_RETRIES = 2;
+
+/**
+ * 单次生成提交信息的选项
+ */
+interface CommitGenerateOptions {
+  /** 采样温度 */
+  temperature?: number;
+  /** 流式输出选项 */
+  stream?: AIStreamOptions;
+  /** 追加到系统提示后的反馈,用于按规范校验结果重新生成 */
+  feedback?: string;
+}
+
+/**
+ * 为一组文件生成提交信息的请求
+ */
+export interface CommitMessageRequest {
+  /** 需要生成提交信息的文件,未提供时使用全部变更 */
+  files?: string[];
+  /** 提供给模型的额外上下文,如历史提交的原提交信息 */
+  context?: string;
+  /** 提交输入框中已有的内容,只用于查找任务单编号,不会发送给模型 */
+  commitInput?: string;
+  /** 是否将生成过程流式写入提交输入框 */
+  streamToInput?: boolean;
+  /** 使用给定的差异而不是工作区的变更,如历史提交引入的差异 */
+  diff?: string;
+  /** 是否允许交互,为false时不显示候选选择器,用于批量生成 */
+  interactive?: boolean;
+  /**
+   * 是否关联当前分支名和变更列表名中的任务单,默认为true;
+   * 为false时只保留上下文中已有的任务单编号,如历史提交的原提交信息
+   */
+  branchTickets?: boolean;
+}
+
+/** 按选项生成提交信息的函数 */
+type CommitGenerator = (options?: CommitGenerateOptions) => Promise<AIResponse>;
+
+/**
+ * 进度任务的生成结果
+ * 单个结果直接返回;多个候选时返回候选列表,供选择器使用
+ */
+interface CommitGeneration {
+  response?: AIResponse;
+  candidates?: CommitCandidate[];
+  generate: CommitGenerator;
+  diff: string;
+  tickets: TicketContext;
+}
+
 /**
  * 提交信息生成命令类
  */
@@ -60,7 +148,9 @@ export class GenerateCommitCommand extends BaseCommand {
 
     try {
       // 检测SCM提供程序
-      const scmProvider = await SCMFactory.detectSCM();
+      const scmProvider = await SCMFactory.detectSCM(
+        this.getRepositoryPath(resources)
+      );
       if (!scmProvider) {
         notify.error("scm.not.detected");
         return;
@@ -69,89 +159,34 @@ export class GenerateCommitCommand extends BaseCommand {
       // 获取当前提交输入框内容
       const currentInput = await scmProvider.getCommitInput();
 
-      // 获取配置信息以用于后续操作
-      const config = ConfigurationManager.getInstance();
-      const configuration = config.getConfiguration();
-
-      // 使用进度提示生成提交信息
-      const response = await ProgressHandler.withProgress(
-        formatMessage("progress.generating.commit", [
-          scmProvider?.type.toLocaleUpperCase(),
-        ]),
-        async (progress) => {
-          // 获取选中文件的差异信息
-          const selectedFiles = this.getSelectedFiles(resources);
-          const diffContent = await scmProvider.getDiff(selectedFiles);
-
-          // 检查是否有变更
-          if (!diffContent) {
-            notify.info("no.changes");
-            throw new Error(getMessage("no.changes"));
-          }
-
-          // 获取和更新AI模型配置
-          const {
-            provider: newProvider,
-            model: newModel,
-            aiProvider,
-            selectedModel,
-          } = await this.selectAndUpdateModelConfiguration(provider, model);
-          // 生成提交信息
-          const result = await aiProvider.generateResponse({
-            ...configuration.base,
-            ...configuration.features.commitFormat,
-            ...configuration.features.codeAnalysis,
-            additionalContext: currentInput,
-            diff: diffContent,
-            model: selectedModel,
-            scm: scmProvider.type ?? "git",
-          });
-
-          return result;
+      let content: string | undefined;
+      try {
+        content = await this.generateCommitMessage(scmProvider, configResult, {
+          files: this.filterFilesInRepository(
+            scmProvider,
+            this.getSelectedFiles(resources)
+          ),
+          commitInput: currentInput,
+          streamToInput: true,
+        });
+      } catch (error) {
+        // 取消或生成失败时恢复原有的提交信息,覆盖流式写入的部分内容
+        await scmProvider.setCommitInput(currentInput).catch(() => {});
+        if (error instanceof vscode.CancellationError) {
+          notify.info("commit.message.generation.cancelled");
+          return;
         }
-      );
-
-      // 处理生成结果
-      if (!response) {
-        return notify.info("no.commit.message.generated");
+        throw error;
       }
 
       // 尝试设置提交信息
-      if (response?.content) {
+      if (content) {
         notify.info("commit.message.generated", [
           scmProvider.type.toUpperCase(),
           provider,
           model,
         ]);
-        try {
-          await scmProvider.setCommitInput(response.content);
-        } catch (error) {
-          console.log("error", error);
-          // 写入失败,尝试复制到剪贴板
-          if (error instanceof Error) {
-            try {
-              await vscode.env.clipboard.writeText(response.content);
-              notify.error("commit.message.write.failed", [error.message]);
-              notify.info("commit.message.copied", [error.message]);
-            } catch (error) {
-              // 尝试复制到剪贴板
-              try {
-                await vscode.env.clipboard.writeText(response.content);
-                notify.info("commit.message.copied");
-              } catch (error) {
-                // 复制也失败了,显示消息内容
-                if (error instanceof Error) {
-                  notify.error("commit.message.copy.failed", [error.message]);
-                  // 提示手动复制
-                  vscode.window.showInformationMessage(
-                    getMessage("commit.message.manual.copy"),
-                    response.content
-                  );
-                }
-              }
-            }
-          }
-        }
+        await this.writeCommitInput(scmProvider, content);
       }
     } catch (error) {
       // 处理整体执行错误
@@ -162,6 +197,404 @@ export class GenerateCommitCommand extends BaseCommand {
     }
   }
 
+  /**
+   * 为指定文件生成提交信息
+   * 依次完成生成(多个候选时由用户选择)、规范校验和工单号插入
+   * @param scmProvider - SCM提供程序实例
+   * @param configResult - AI提供商和模型
+   * @param request - 生成选项
+   * @returns 最终的提交信息,未生成或用户取消选择时返回undefined
+   * @throws {vscode.CancellationError} 当用户取消生成时抛出
+   */
+  protected async generateCommitMessage(
+    scmProvider: ISCMProvider,
+    { provider, model }: { provider: string; model: string },
+    request: CommitMessageRequest = {}
+  ): Promise<string | undefined> {
+    const context = request.context ?? "";
+
+    // 获取配置信息以用于后续操作
+    // 跳过默认系统提示的自动填充,以便按仓库的提交约定生成
+    const config = ConfigurationManager.getInstance();
+    const configuration = config.getConfiguration(true);
+    const convention = ProjectConventionLoader.load(scmProvider.rootPath);
+
+    // 使用进度提示生成提交信息
+    const generation = await ProgressHandler.withProgress<CommitGeneration>(
+      formatMessage("progress.generating.commit", [
+        scmProvider?.type.toLocaleUpperCase(),
+      ]),
+      async (progress, token) => {
+        // 获取选中文件的差异信息
+        const selectedFiles = request.files;
+        const diffContent =
+          request.diff ?? (await scmProvider.getDiff(selectedFiles));
+
+        // 检查是否有变更
+        if (!diffContent) {
+          notify.info("no.changes");
+          throw new Error(getMessage("no.changes"));
+        }
+
+        // 从分支名、变更列表名、提交输入框或额外上下文中提取关联的工单
+        const tickets = await IssueTrackerService.resolve(
+          scmProvider,
+          selectedFiles,
+          [request.commitInput, context].filter(Boolean).join("\n"),
+          configuration.features.issueTracker,
+          convention,
+          request.branchTickets
+        );
+
+        // 获取和更新AI模型配置
+        const {
+          provider: newProvider,
+          model: newModel,
+          aiProvider,
+          selectedModel,
+        } = await this.selectAndUpdateModelConfiguration(provider, model);
+        const requestParams = {
+          ...configuration.base,
+          ...configuration.features.commitFormat,
+          ...configuration.features.codeAnalysis,
+          // 未自定义系统提示时,使用结合提交约定的默认提示
+          systemPrompt:
+            configuration.base.systemPrompt ||
+            generateCommitMessageSystemPrompt({
+              config: configuration,
+              vcsType: scmProvider.type,
+              convention,
+            }),
+          convention,
+          additionalContext: [
+            context,
+            configuration.features.commitFormat.inferScope
+              ? ScopeResolver.formatContext(
+                  ScopeResolver.resolveFromDiff(
+                    diffContent,
+                    scmProvider.type,
+                    scmProvider.rootPath,
+                    convention
+                  )
+                )
+              : "",
+            IssueTrackerService.formatContext(tickets.issues),
+          ]
+            .filter(Boolean)
+            .join("\n\n"),
+          diff: diffContent,
+          model: selectedModel,
+          scm: scmProvider.type ?? "git",
+        };
+
+        // 提供商和模型均支持时,流式写入提交输入框
+        const streamOptions =
+          request.streamToInput &&
+          configuration.features.commitFormat.enableStreaming &&
+          aiProvider.generateResponseStream &&
+          selectedModel?.capabilities?.streaming !== false
+            ? this.createStreamOptions(scmProvider, token)
+            : undefined;
+
+        const generate: CommitGenerator = async ({
+          temperature,
+          stream,
+          feedback,
+        } = {}) => {
+          const params = {
+            ...requestParams,
+            temperature,
+            systemPrompt: feedback
+              ? requestParams.systemPrompt + feedback
+              : requestParams.systemPrompt,
+          };
+
+          // 差异超出模型上下文时,按文件摘要后再合并生成
+          if (
+            configuration.features.codeAnalysis.enableChunkedGeneration &&
+            selectedModel &&
+            needsChunkedGeneration({ ...params, model: selectedModel })
+          ) {
+            return generateChunkedResponse(
+              aiProvider,
+              { ...params, model: selectedModel },
+              { progress, token, stream }
+            );
+          }
+
+          if (stream) {
+            return aiProvider.generateResponseStream(params, stream);
+          }
+
+          // 生成提交信息
+          return aiProvider.generateResponse(params);
+        };
+
+        // 生成多个候选提交信息供用户选择,批量生成时只生成一个
+        const candidateCount = Math.min(
+          Math.max(
+            Math.floor(configuration.features.commitFormat.candidateCount),
+            1
+          ),
+          MAX_CANDIDATE_COUNT
+        );
+        if (candidateCount > 1 && request.interactive !== false) {
+          const candidates = await this.generateCandidates(
+            generate,
+            candidateCount
+          );
+          throwIfCancelled(token);
+          return { candidates, generate, diff: diffContent, tickets };
+        }
+
+        return {
+          response: await generate({ stream: streamOptions }),
+          generate,
+          diff: diffContent,
+          tickets,
+        };
+      }
+    );
+
+    const { generate } = generation;
+    let response = generation.response;
+    if (generation.candidates) {
+      const content = await CommitCandidatePicker.pick(generation.candidates, {
+        diff: generation.diff,
+        scm: scmProvider.type,
+        regenerate: async (candidate) => ({
+          content: (await generate({ temperature: candidate.temperature }))
+            .content,
+          temperature: candidate.temperature,
+        }),
+      });
+      // 用户取消选择时保留原有的提交信息
+      if (content === undefined) {
+        return undefined;
+      }
+      response = { content };
+    }
+
+    // 处理生成结果
+    if (!response) {
+      notify.info("no.commit.message.generated");
+      return undefined;
+    }
+
+    // 按提交规范校验生成结果
+    if (response.content) {
+      response = {
+        ...response,
+        content: await this.lintCommitMessage(
+          response.content,
+          scmProvider,
+          generate,
+          convention
+        ),
+      };
+    }
+
+    // 插入关联的工单号
+    if (response.content) {
+      response = {
+        ...response,
+        content: IssueTrackerService.applyKeys(
+          response.content,
+          generation.tickets,
+          !configuration.features.commitFormat.enableMergeCommit
+        ),
+      };
+    }
+
+    return response.content;
+  }
+
+  /**
+   * 将提交信息写入提交输入框,写入失败时复制到剪贴板
+   * @param scmProvider - SCM提供程序实例
+   * @param content - 提交信息
+   */
+  protected async writeCommitInput(
+    scmProvider: ISCMProvider,
+    content: string
+  ): Promise<void> {
+    try {
+      await scmProvider.setCommitInput(content);
+    } catch (error) {
+      console.log("error", error);
+      // 写入失败,尝试复制到剪贴板
+      if (error instanceof Error) {
+        try {
+          await vscode.env.clipboard.writeText(content);
+          notify.error("commit.message.write.failed", [error.message]);
+          notify.info("commit.message.copied", [error.message]);
+        } catch (error) {
+          // 尝试复制到剪贴板
+          try {
+            await vscode.env.clipboard.writeText(content);
+            notify.info("commit.message.copied");
+          } catch (error) {
+            // 复制也失败了,显示消息内容
+            if (error instanceof Error) {
+              notify.error("commit.message.copy.failed", [error.message]);
+              // 提示手动复制
+              vscode.window.showInformationMessage(
+                getMessage("commit.message.manual.copy"),
+                content
+              );
+            }
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * 按仓库的 commitlint 配置(或内置约定式提交规则)校验提交信息
+   * - report: 仅提示发现的问题
+   * - retry: 存在错误时携带问题反馈重新生成,重试次数用尽后提示剩余问题
+   * @param content - 生成的提交信息
+   * @param scmProvider - SCM提供程序实例,用于定位 commitlint 配置
+   * @param generate - 提交信息生成函数
+   * @param convention - 仓库中的提交约定,其声明的类型、范围和长度限制优先于 commitlint 规则
+   * @returns 最终的提交信息
+   */
+  private async lintCommitMessage(
+    content: string,
+    scmProvider: ISCMProvider,
+    generate: CommitGenerator,
+    convention?: ProjectConvention
+  ): Promise<string> {
+    const { commitFormat } = this.getExtConfig().configuration.features;
+    if (commitFormat.lintMode === "off") {
+      return content;
+    }
+
+    const rules = {
+      ...(await CommitlintConfigLoader.load(scmProvider.rootPath)),
+      ...(convention
+        ? ProjectConventionLoader.toCommitLintRules(convention)
+        : {}),
+    };
+    const multiple = !commitFormat.enableMergeCommit;
+    let result = CommitMessageLinter.lint(content, rules, multiple);
+
+    if (commitFormat.lintMode === "retry" && !result.valid) {
+      await ProgressHandler.withProgress(
+        getMessage("progress.fixing.commit.lint"),
+        async (_progress, token) => {
+          for (
+            let attempt = 0;
+            attempt < MAX_LINT_RETRIES && !result.valid;
+            attempt++
+          ) {
+            throwIfCancelled(token);
+            const response = await generate({
+              feedback: getCommitLintFeedbackPrompt(
+                content,
+                CommitMessageLinter.format(result.violations)
+              ),
+            });
+            throwIfCancelled(token);
+            content = response.content;
+            result = CommitMessageLinter.lint(content, rules, multiple);
+          }
+        }
+      ).catch((error) => {
+        // 取消或重试失败时保留当前结果
+        if (!(error instanceof vscode.CancellationError)) {
+          console.error("Failed to regenerate commit message:", error);
+        }
+      });
+    }
+
+    if (result.violations.length > 0) {
+      notify.warn("commit.lint.violations", [
+        result.violations.length,
+        result.violations
+          .map((violation) => `${violation.rule}: ${violation.message}`)
+          .join("; "),
+      ]);
+    }
+
+    return content;
+  }
+
+  /**
+   * 使用不同的采样温度并行生成多个候选提交信息
+   * 部分候选生成失败时忽略失败项,全部失败时抛出第一个错误
+   * @param generate - 按温度生成提交信息的函数
+   * @param count - 候选数量
+   * @returns 候选提交信息列表
+   */
+  private async generateCandidates(
+    generate: CommitGenerator,
+    count: number
+  ): Promise<CommitCandidate[]> {
+    const temperatures = Array.from({ length: count }, (_, index) =>
+      Number(
+        (
+          MIN_CANDIDATE_TEMPERATURE +
+          ((MAX_CANDIDATE_TEMPERATURE - MIN_CANDIDATE_TEMPERATURE) * index) /
+            (count - 1)
+        ).toFixed(1)
+      )
+    );
+    const results = await Promise.allSettled(
+      temperatures.map(async (temperature): Promise<CommitCandidate> => ({
+        content: (await generate({ temperature })).content,
+        temperature,
+      }))
+    );
+
+    const candidates = results
+      .filter(
+        (result): result is PromiseFulfilledResult<CommitCandidate> =>
+          result.status === "fulfilled" && !!result.value.content.trim()
+      )
+      .map((result) => result.value);
+    if (candidates.length === 0) {
+      const rejected = results.find(
+        (result): result is PromiseRejectedResult =>
+          result.status === "rejected"
+      );
+      throw (
+        rejected?.reason ?? new Error(getMessage("no.commit.message.generated"))
+      );
+    }
+    return candidates;
+  }
+
+  /**
+   * 创建流式生成选项,生成过程中持续写入提交输入框
+   * 输入框不可写(如命令行SVN)时仅收集内容,由调用方按常规流程处理结果
+   * @param scmProvider - SCM提供程序实例
+   * @param token - 进度通知的取消令牌
+   * @returns 流式生成选项
+   */
+  private createStreamOptions(
+    scmProvider: ISCMProvider,
+    token: vscode.CancellationToken
+  ): AIStreamOptions {
+    let inputWritable = true;
+    let lastUpdate = 0;
+
+    return {
+      token,
+      onProgress: (content) => {
+        // 节流写入,避免频繁刷新输入框
+        const now = Date.now();
+        if (!inputWritable || now - lastUpdate < STREAM_UPDATE_INTERVAL) {
+          return;
+        }
+        lastUpdate = now;
+        scmProvider.setCommitInput(content).catch(() => {
+          inputWritable = false;
+        });
+      },
+    };
+  }
+
   /**
    * 获取选中的文件列表
    * @param resourceStates - 源代码管理资源状态
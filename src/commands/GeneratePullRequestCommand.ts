@@ -0,0 +1,150 @@
+import * as vscode from "vscode";
+import { BaseCommand } from "./BaseCommand";
+import { PullRequestService } from "../services/PullRequestService";
+import { PullRequestPanel } from "../webview/PullRequestPanel";
+import {
+  getPullRequestPrompt,
+  getTruncatedDiffNote,
+} from "../prompt/pullRequest";
+import { throwIfCancelled } from "../ai/utils/generateHelper";
+import {
+  generateChunkedResponse,
+  getInputBudget,
+} from "../ai/utils/chunkedGenerate";
+import type { AIResponse } from "../ai/types";
+import { notify } from "../utils/notification";
+import { getMessage, formatMessage } from "../utils/i18n";
+import { ProgressHandler } from "../utils/notification/ProgressHandler";
+
+/**
+ * 拉取请求描述生成命令类
+ * 根据当前分支相对目标分支的提交和累计差异生成标题和描述,
+ * 仓库中存在拉取请求模板时按模板生成,结果在编辑面板中展示
+ * @extends {BaseCommand}
+ */
+export class GeneratePullRequestCommand extends BaseCommand {
+  /**
+   * 执行拉取请求描述生成命令
+   * @param resources - 源代码管理标题栏传入的SourceControl实例,用于定位仓库
+   */
+  async execute(resources?: any) {
+    const configResult = await this.handleConfiguration();
+    if (!configResult) {
+      return;
+    }
+
+    try {
+      const scmProvider = await this.detectSCMProvider(
+        this.getRepositoryPath(resources)
+      );
+      if (!scmProvider) {
+        return;
+      }
+      if (!scmProvider.getBranchChanges) {
+        notify.error("pullRequest.not.supported");
+        return;
+      }
+
+      const branch = await scmProvider.getBranchName?.();
+      const base = await vscode.window.showInputBox({
+        prompt: formatMessage("pullRequest.base.prompt", [branch ?? "HEAD"]),
+        value: (await scmProvider.getDefaultBaseBranch?.()) ?? "",
+        ignoreFocusOut: true,
+        validateInput: (value) =>
+          value.trim() ? undefined : getMessage("pullRequest.base.required"),
+      });
+      if (!base) {
+        return;
+      }
+
+      const { configuration } = this.getExtConfig();
+      const description = await ProgressHandler.withProgress(
+        getMessage("progress.generating.pullRequest"),
+        async (progress, token) => {
+          const { commits, diff } = await scmProvider.getBranchChanges!(
+            base.trim()
+          );
+          if (commits.length === 0 || !diff.trim()) {
+            return undefined;
+          }
+
+          const { aiProvider, selectedModel } =
+            await this.selectAndUpdateModelConfiguration(
+              configResult.provider,
+              configResult.model
+            );
+          const params = {
+            ...configuration.base,
+            ...configuration.features.codeAnalysis,
+            systemPrompt: getPullRequestPrompt(
+              configuration.base.language,
+              PullRequestService.loadTemplate(scmProvider.rootPath)
+            ),
+            additionalContext: PullRequestService.formatCommits(commits),
+            diff,
+            model: selectedModel,
+            scm: scmProvider.type,
+          };
+
+          // 提交列表与系统提示一起占用模型上下文,差异只能使用剩余的预算
+          const budget = selectedModel
+            ? getInputBudget(
+                { ...params, model: selectedModel },
+                `${params.systemPrompt}${params.additionalContext}`
+              )
+            : Infinity;
+          let response: AIResponse;
+          if (diff.length <= budget) {
+            response = await aiProvider.generateResponse(params);
+          } else if (
+            selectedModel &&
+            configuration.features.codeAnalysis.enableChunkedGeneration
+          ) {
+            // 差异超出模型上下文时,按文件摘要后再生成描述
+            response = await generateChunkedResponse(
+              aiProvider,
+              { ...params, model: selectedModel },
+              {
+                progress,
+                token,
+                output: "pull request title and description",
+              }
+            );
+          } else {
+            // 未启用分块生成时在行尾截断差异,并告知模型差异不完整
+            const end = diff.lastIndexOf("\n", budget);
+            response = await aiProvider.generateResponse({
+              ...params,
+              additionalContext: `${
+                params.additionalContext
+              }\n\n${getTruncatedDiffNote()}`,
+              diff: diff.substring(0, end > 0 ? end : budget),
+            });
+          }
+          throwIfCancelled(token);
+
+          return PullRequestService.parseResponse(response.content);
+        }
+      );
+      if (!description) {
+        notify.info("pullRequest.no.changes", [branch ?? "HEAD", base]);
+        return;
+      }
+      if (!description.title && !description.body) {
+        notify.info("pullRequest.empty.response");
+        return;
+      }
+
+      PullRequestPanel.createOrShow(description, branch ?? "HEAD", base.trim());
+    } catch (error) {
+      if (error instanceof vscode.CancellationError) {
+        notify.info("pullRequest.cancelled");
+        return;
+      }
+      console.log("error", error);
+      if (error instanceof Error) {
+        notify.error("pullRequest.failed", [error.message]);
+      }
+    }
+  }
+}
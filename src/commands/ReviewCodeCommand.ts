@@ -7,10 +7,40 @@ import {
 } from "../utils/notification/NotificationManager";
 import * as path from "path";
 import { validateAndGetModel } from "../utils/ai/modelValidation";
+import type {
+  AIProvider,
+  AIRequestParams,
+  CodeReviewIssue,
+  CodeReviewResult,
+} from "../ai/types";
+import type { ISCMProvider } from "../scm/SCMProvider";
+import { CodeReviewDiagnostics } from "../services/CodeReviewDiagnostics";
+import { CodeReviewContextService } from "../services/CodeReviewContextService";
+import {
+  CodeReviewService,
+  type ReviewProgress,
+} from "../services/CodeReviewService";
+import { CodeReviewReportGenerator } from "../services/CodeReviewReportGenerator";
+import {
+  ReviewHistoryService,
+  type ReviewHistoryRecord,
+  type ReviewIssueStatus,
+} from "../services/ReviewHistoryService";
+
+/**
+ * 合并后的审查结果
+ */
+interface ReviewOutcome {
+  /** 所有文件的审查结果,问题的文件路径为仓库相对路径 */
+  review: CodeReviewResult;
+  /** 审查的文件(仓库相对路径)及其差异指纹 */
+  files: Record<string, string>;
+}
 
 /**
  * 代码审查命令类
- * 负责执行代码审查流程,收集文件差异,调用AI进行分析,并展示审查结果
+ * 负责执行代码审查流程,收集文件差异,调用AI进行分析,
+ * 将发现的问题发布为编辑器诊断信息并展示审查报告,审查结果保存到审查历史中
  * @extends {BaseCommand}
  */
 export class ReviewCodeCommand extends BaseCommand {
@@ -46,6 +76,7 @@ export class ReviewCodeCommand extends BaseCommand {
 
   /**
    * 执行代码审查命令
+   * 整个变更集模式下没有选中文件时审查所有变更
    * @param {vscode.SourceControlResourceState[] | undefined} resources - 源代码管理资源状态列表,代表需要审查的文件
    * @returns {Promise<void>}
    */
@@ -57,114 +88,103 @@ export class ReviewCodeCommand extends BaseCommand {
     }
 
     try {
-      // 检查是否有选中的文件
+      // 按文件审查时需要选中文件
+      const { configuration } = this.getExtConfig();
       const selectedFiles = this.getSelectedFiles(resources);
-      if (!selectedFiles || selectedFiles.length === 0) {
+      if (
+        configuration.features.codeReview.mode === "file" &&
+        (!selectedFiles || selectedFiles.length === 0)
+      ) {
         await notify.warn("no.changes.selected");
         return;
       }
 
       // 检测SCM提供程序
-      const scmProvider = await this.detectSCMProvider();
+      const scmProvider = await this.detectSCMProvider(
+        this.getRepositoryPath(resources)
+      );
       if (!scmProvider) {
         return;
       }
 
-      // 获取配置信息
-      const { config, configuration } = this.getExtConfig();
-      let { provider, model } = configResult;
-
-      const { aiProvider, selectedModel } = await validateAndGetModel(
-        provider,
-        model
+      await this.review(
+        scmProvider,
+        configResult,
+        selectedFiles?.length ? selectedFiles : undefined
       );
+    } catch (error) {
+      console.log("ReviewCodeCommand error", error);
+      await this.handleError(error, "code.review.failed");
+    }
+  }
 
-      await withProgress(getMessage("reviewing.code"), async (progress) => {
-        // 获取所有选中文件的差异
-        const fileReviews = new Map<string, string>();
-        const diffs = new Map<string, string>();
-        // 并行收集所有差异 - 10% 进度
-        const diffPromises = selectedFiles.map(async (filePath) => {
-          try {
-            const diff = await scmProvider.getDiff([filePath]);
-            if (diff) {
-              diffs.set(filePath, diff);
-            }
-            progress.report({
-              increment: 10 / selectedFiles.length,
-              message: getMessage("getting.file.changes"),
-            });
-            return { success: true };
-          } catch (error) {
-            console.error(`Failed to get diff for ${filePath}:`, error);
-            return { success: false };
-          }
-        });
+  /**
+   * 重新审查上次审查之后发生变化的文件
+   * 差异与上次审查相同的文件沿用上次的审查结果,不再属于变更的文件不再保留
+   * @param {string} [rootPath] - 仓库根目录,未指定时使用当前仓库
+   * @returns {Promise<void>}
+   */
+  async rerun(rootPath?: string) {
+    const configResult = await this.handleConfiguration();
+    if (!configResult) {
+      return;
+    }
 
-        await Promise.all(diffPromises);
-        if (diffs.size === 0) {
-          await notify.warn(getMessage("no.changes.found"));
-          return;
-        }
+    try {
+      const scmProvider = await this.detectSCMProvider(rootPath);
+      if (!scmProvider) {
+        return;
+      }
 
-        // 并行审查每个文件 - 80% 进度平均分配
-        const progressPerFile = 80 / diffs.size;
-
-        const reviewPromises = Array.from(diffs.entries()).map(
-          async ([filePath, diff]) => {
-            try {
-              progress.report({
-                message: formatMessage("reviewing.file", [
-                  path.basename(filePath),
-                ]),
-              });
-              const reviewResult = await aiProvider?.generateCodeReview?.({
-                ...configuration.base,
-                ...configuration.features.codeAnalysis,
-                diff,
-                model: selectedModel,
-                scm: scmProvider.type ?? "git",
-                additionalContext: "",
-              });
-
-              if (reviewResult?.content) {
-                fileReviews.set(filePath, reviewResult.content);
-              }
-
-              progress.report({
-                increment: progressPerFile,
-              });
-
-              return { success: true, filePath };
-            } catch (error) {
-              await notify.warn(
-                formatMessage("review.file.failed", [path.basename(filePath)])
-              );
-              console.error(`Failed to review ${filePath}:`, error);
-              return { success: false, filePath };
-            }
-          }
-        );
+      const previous = ReviewHistoryService.getLatest(scmProvider.rootPath);
+      if (!previous) {
+        await notify.info("review.history.none");
+        return;
+      }
 
-        await Promise.all(reviewPromises);
+      const diff = await scmProvider.getDiff();
+      if (!diff) {
+        await notify.warn(getMessage("no.changes.found"));
+        return;
+      }
 
-        // 显示结果 - 10% 进度
-        progress.report({
-          increment: 10,
-          message: getMessage("preparing.results"),
-        });
+      const files = CodeReviewContextService.split(
+        scmProvider.rootPath,
+        diff,
+        scmProvider.type
+      );
+      const isUnchanged = (relativePath: string, fileDiff: string) =>
+        previous.files[relativePath] ===
+        ReviewHistoryService.fingerprint(fileDiff);
+      const changed = files.filter(
+        (file) => !isUnchanged(file.relativePath, file.diff)
+      );
+      if (changed.length === 0) {
+        await notify.info("review.history.unchanged");
+        return;
+      }
 
-        if (fileReviews.size === 0) {
-          await notify.error(getMessage("review.all.failed"));
-          return;
+      const unchanged = files.filter((file) =>
+        isUnchanged(file.relativePath, file.diff)
+      );
+      await this.review(
+        scmProvider,
+        configResult,
+        changed.map((file) => file.filePath),
+        {
+          files: Object.fromEntries(
+            unchanged.map((file) => [
+              file.relativePath,
+              previous.files[file.relativePath],
+            ])
+          ),
+          issues: previous.issues
+            .filter((issue) =>
+              unchanged.some((file) => file.relativePath === issue.filePath)
+            )
+            .map(({ id, ...issue }) => issue),
         }
-
-        await this.showReviewResults(fileReviews);
-
-        await notify.warn(
-          formatMessage("review.complete.count", [fileReviews.size.toString()])
-        );
-      });
+      );
     } catch (error) {
       console.log("ReviewCodeCommand error", error);
       await this.handleError(error, "code.review.failed");
@@ -172,78 +192,278 @@ export class ReviewCodeCommand extends BaseCommand {
   }
 
   /**
-   * 在WebView面板中显示代码审查结果
-   * @param {Map<string, string>} fileReviews - 文件路径到审查结果的映射
+   * 按配置的审查方式审查文件,保存审查记录并展示结果
+   * @param {ISCMProvider} scmProvider - SCM提供程序实例
+   * @param configResult - 配置的AI提供商和模型
+   * @param {string[] | undefined} files - 需要审查的文件,未指定时审查所有变更
+   * @param carried - 重新审查时沿用的未变化文件及其问题
    * @returns {Promise<void>}
    */
-  private async showReviewResults(fileReviews: Map<string, string>) {
-    // 创建webview面板显示审查结果
-    const panel = vscode.window.createWebviewPanel(
-      "codeReview",
-      getMessage("review.results.title"),
-      vscode.ViewColumn.One,
-      {
-        enableScripts: true,
-      }
+  private async review(
+    scmProvider: ISCMProvider,
+    configResult: { provider: string; model: string },
+    files: string[] | undefined,
+    carried?: Pick<ReviewOutcome, "files"> & {
+      issues: (CodeReviewIssue & { status: ReviewIssueStatus })[];
+    }
+  ) {
+    const { configuration } = this.getExtConfig();
+    let { provider, model } = configResult;
+
+    const { aiProvider, selectedModel } = await validateAndGetModel(
+      provider,
+      model
     );
+    const params: AIRequestParams = {
+      ...configuration.base,
+      ...configuration.features.codeAnalysis,
+      diff: "",
+      model: selectedModel,
+      scm: scmProvider.type ?? "git",
+      additionalContext: "",
+    };
+
+    await withProgress(getMessage("reviewing.code"), async (progress) => {
+      const outcome =
+        configuration.features.codeReview.mode === "file"
+          ? await this.reviewFiles(
+              scmProvider,
+              aiProvider,
+              params,
+              files!,
+              progress
+            )
+          : await this.reviewChangeset(
+              scmProvider,
+              aiProvider,
+              params,
+              files,
+              progress
+            );
+      if (!outcome) {
+        return;
+      }
+
+      const record = await ReviewHistoryService.add(
+        {
+          rootPath: scmProvider.rootPath,
+          scm: scmProvider.type,
+          revision: await scmProvider.getRevision?.(),
+          provider: selectedModel.provider?.name || provider,
+          model: selectedModel.name || selectedModel.id,
+          summary: outcome.review.summary,
+          files: { ...carried?.files, ...outcome.files },
+        },
+        [...(carried?.issues ?? []), ...outcome.review.issues]
+      );
+
+      await CodeReviewDiagnostics.publish(
+        ReviewHistoryService.getOpenIssuesByFile(record)
+      );
+      await this.showReviewResults(record);
 
-    panel.webview.html = this.getWebviewContent(fileReviews);
+      await notify.warn(
+        formatMessage("review.complete.count", [
+          Object.keys(outcome.files).length.toString(),
+        ])
+      );
+      if (record.issues.some((issue) => issue.status === "open")) {
+        notify.info("codeReview.diagnostics.published");
+      }
+    });
   }
 
   /**
-   * 生成审查结果显示的HTML内容
-   * @param {Map<string, string>} fileReviews - 文件路径到审查结果的映射
-   * @returns {string} 生成的HTML内容字符串
+   * 分别审查每个选中的文件
+   * @param {ISCMProvider} scmProvider - SCM提供程序实例
+   * @param {AIProvider} aiProvider - AI提供程序实例
+   * @param {AIRequestParams} params - 审查请求参数
+   * @param {string[]} selectedFiles - 选中的文件
+   * @param progress - 进度报告对象
+   * @returns 合并后的审查结果与审查的文件数,没有可审查的结果时返回undefined
    */
-  private getWebviewContent(fileReviews: Map<string, string>): string {
-    // 为每个文件生成审查内容HTML片段
-    const reviewHtml = Array.from(fileReviews.entries())
-      .map(
-        ([file, review]) => `
-        <div class="review-section">
-          <h3 class="file-name">${this.escapeHtml(path.basename(file))}</h3>
-          <div class="review-content">${this.escapeHtml(review)}</div>
-        </div>
-      `
-      )
-      .join("\n");
-
-    // 返回完整的HTML文档
-    return `<!DOCTYPE html>
-    <html>
-      <head>
-        <meta charset="UTF-8">
-        <meta name="viewport" content="width=device-width, initial-scale=1.0">
-        <title>${getMessage("review.results.title")}</title>
-        <style>
-          body { padding: 20px; }
-          .review-section { margin-bottom: 30px; }
-          .file-name { 
-            margin-bottom: 10px;
-            padding-bottom: 5px;
-            border-bottom: 1px solid var(--vscode-textSeparator-foreground);
-          }
-          .review-content { 
-            white-space: pre-wrap;
-            font-family: var(--vscode-editor-font-family);
+  private async reviewFiles(
+    scmProvider: ISCMProvider,
+    aiProvider: AIProvider,
+    params: AIRequestParams,
+    selectedFiles: string[],
+    progress: ReviewProgress
+  ): Promise<ReviewOutcome | undefined> {
+    // 获取所有选中文件的差异
+    const fileReviews = new Map<string, CodeReviewResult>();
+    const diffs = new Map<string, string>();
+    // 并行收集所有差异 - 10% 进度
+    const diffPromises = selectedFiles.map(async (filePath) => {
+      try {
+        const diff = await scmProvider.getDiff([filePath]);
+        if (diff) {
+          diffs.set(filePath, diff);
+        }
+        progress.report({
+          increment: 10 / selectedFiles.length,
+          message: getMessage("getting.file.changes"),
+        });
+        return { success: true };
+      } catch (error) {
+        console.error(`Failed to get diff for ${filePath}:`, error);
+        return { success: false };
+      }
+    });
+
+    await Promise.all(diffPromises);
+    if (diffs.size === 0) {
+      await notify.warn(getMessage("no.changes.found"));
+      return undefined;
+    }
+
+    // 并行审查每个文件 - 80% 进度平均分配
+    const progressPerFile = 80 / diffs.size;
+
+    const reviewPromises = Array.from(diffs.entries()).map(
+      async ([filePath, diff]) => {
+        try {
+          progress.report({
+            message: formatMessage("reviewing.file", [path.basename(filePath)]),
+          });
+          const reviewResult = await aiProvider.generateCodeReview?.({
+            ...params,
+            diff,
+          });
+
+          if (reviewResult?.review) {
+            // 按文件审查时,问题均属于被审查的文件
+            fileReviews.set(filePath, {
+              summary: reviewResult.review.summary,
+              issues: reviewResult.review.issues.map((issue) => ({
+                ...issue,
+                filePath: path.relative(scmProvider.rootPath, filePath),
+              })),
+            });
           }
-        </style>
-      </head>
-      <body>${reviewHtml}</body>
-    </html>`;
+
+          progress.report({
+            increment: progressPerFile,
+          });
+
+          return { success: true, filePath };
+        } catch (error) {
+          await notify.warn(
+            formatMessage("review.file.failed", [path.basename(filePath)])
+          );
+          console.error(`Failed to review ${filePath}:`, error);
+          return { success: false, filePath };
+        }
+      }
+    );
+
+    await Promise.all(reviewPromises);
+
+    // 显示结果 - 10% 进度
+    progress.report({
+      increment: 10,
+      message: getMessage("preparing.results"),
+    });
+
+    if (fileReviews.size === 0) {
+      await notify.error(getMessage("review.all.failed"));
+      return undefined;
+    }
+
+    const reviews = [...fileReviews.entries()];
+    return {
+      review: {
+        summary: reviews
+          .map(
+            ([filePath, review]) =>
+              `- **${path.relative(scmProvider.rootPath, filePath)}**: ${
+                review.summary
+              }`
+          )
+          .join("\n"),
+        issues: reviews.flatMap(([, review]) => review.issues),
+      },
+      files: Object.fromEntries(
+        [...fileReviews.keys()].flatMap((filePath) =>
+          CodeReviewContextService.split(
+            scmProvider.rootPath,
+            diffs.get(filePath)!,
+            scmProvider.type
+          ).map((file) => [
+            file.relativePath,
+            ReviewHistoryService.fingerprint(file.diff),
+          ])
+        )
+      ),
+    };
   }
 
   /**
-   * 转义HTML特殊字符,防止XSS攻击
-   * @param {string} unsafe - 包含可能不安全HTML字符的字符串
-   * @returns {string} 转义后的安全字符串
+   * 审查整个变更集,连同变更所在的函数和引用的导入符号一起发送
+   * @param {ISCMProvider} scmProvider - SCM提供程序实例
+   * @param {AIProvider} aiProvider - AI提供程序实例
+   * @param {AIRequestParams} params - 审查请求参数
+   * @param {string[] | undefined} selectedFiles - 选中的文件,未选中时审查所有变更
+   * @param progress - 进度报告对象
+   * @returns 合并后的审查结果与审查的文件数,没有可审查的结果时返回undefined
+   */
+  private async reviewChangeset(
+    scmProvider: ISCMProvider,
+    aiProvider: AIProvider,
+    params: AIRequestParams,
+    selectedFiles: string[] | undefined,
+    progress: ReviewProgress
+  ): Promise<ReviewOutcome | undefined> {
+    progress.report({ message: getMessage("getting.file.changes") });
+    const diff = await scmProvider.getDiff(selectedFiles);
+    if (!diff) {
+      await notify.warn(getMessage("no.changes.found"));
+      return undefined;
+    }
+
+    progress.report({
+      increment: 10,
+      message: getMessage("review.collecting.context"),
+    });
+    const { review, files } = await CodeReviewService.reviewChangeset(
+      aiProvider,
+      params,
+      CodeReviewContextService.collect(
+        scmProvider.rootPath,
+        diff,
+        scmProvider.type
+      ),
+      progress
+    );
+
+    progress.report({
+      increment: 10,
+      message: getMessage("preparing.results"),
+    });
+
+    return {
+      review,
+      files: Object.fromEntries(
+        files.map((file) => [
+          file.relativePath,
+          ReviewHistoryService.fingerprint(file.diff),
+        ])
+      ),
+    };
+  }
+
+  /**
+   * 在Markdown预览中显示代码审查报告,不包含已忽略的问题
+   * @param {ReviewHistoryRecord} record - 审查记录
+   * @returns {Promise<void>}
    */
-  private escapeHtml(unsafe: string): string {
-    return unsafe
-      .replace(/&/g, "&amp;")
-      .replace(/</g, "&lt;")
-      .replace(/>/g, "&gt;")
-      .replace(/"/g, "&quot;")
-      .replace(/'/g, "&#039;");
+  private async showReviewResults(record: ReviewHistoryRecord) {
+    const document = await vscode.workspace.openTextDocument({
+      content: CodeReviewReportGenerator.generateMarkdownReport({
+        summary: record.summary,
+        issues: record.issues.filter((issue) => issue.status !== "ignored"),
+      }),
+      language: "markdown",
+    });
+    await vscode.commands.executeCommand("markdown.showPreview", document.uri);
   }
 }
@@ -0,0 +1,140 @@
+import * as vscode from "vscode";
+import { GenerateCommitCommand } from "./GenerateCommitCommand";
+import { SCMFactory } from "../scm/SCMProvider";
+import {
+  CommitHistoryPanel,
+  type CommitHistoryItem,
+} from "../webview/CommitHistoryPanel";
+import { notify } from "../utils/notification";
+import { getMessage, formatMessage } from "../utils/i18n";
+
+/** 单次最多重新生成的历史提交数量 */
+const MAX_HISTORY_COMMITS = 30;
+
+/**
+ * 历史提交信息重写命令类
+ * 根据每个历史提交的差异重新生成提交信息,在对比面板中确认后应用:
+ * Git重建当前分支上的提交,SVN修改修订版本的 svn:log 属性
+ * @extends {GenerateCommitCommand}
+ */
+export class RewriteHistoryCommand extends GenerateCommitCommand {
+  /**
+   * 执行历史提交信息重写命令
+   * @param resources - 源代码管理标题栏传入的SourceControl实例,用于定位仓库
+   */
+  async execute(resources?: any) {
+    const configResult = await this.handleConfiguration();
+    if (!configResult) {
+      return;
+    }
+
+    try {
+      const scmProvider = await SCMFactory.detectSCM(
+        this.getRepositoryPath(resources)
+      );
+      if (!scmProvider) {
+        notify.error("scm.not.detected");
+        return;
+      }
+      if (
+        !scmProvider.getCommitHistory ||
+        !scmProvider.getCommitDiff ||
+        !scmProvider.rewriteCommitMessages
+      ) {
+        notify.error("history.not.supported");
+        return;
+      }
+
+      const range = await vscode.window.showInputBox({
+        prompt: getMessage(`history.range.prompt.${scmProvider.type}`),
+        placeHolder: scmProvider.type === "git" ? "HEAD~5..HEAD" : "100:120",
+        ignoreFocusOut: true,
+        validateInput: (value) =>
+          value.trim() ? undefined : getMessage("history.range.required"),
+      });
+      if (!range) {
+        return;
+      }
+
+      const history = await scmProvider.getCommitHistory(range.trim());
+      if (history.length === 0) {
+        notify.info("history.range.empty", [range]);
+        return;
+      }
+      if (history.length > MAX_HISTORY_COMMITS) {
+        notify.warn("history.range.too.large", [
+          range,
+          history.length,
+          MAX_HISTORY_COMMITS,
+        ]);
+        return;
+      }
+
+      // 依次为每个提交重新生成提交信息,单个提交失败时跳过
+      const items: CommitHistoryItem[] = [];
+      for (const entry of history) {
+        try {
+          const generated = await this.generateCommitMessage(
+            scmProvider,
+            configResult,
+            {
+              diff: await scmProvider.getCommitDiff(entry.id),
+              context: entry.message
+                ? `Original commit message:\n${entry.message}`
+                : "",
+              interactive: false,
+              // 只保留原提交信息中的任务单,当前分支的任务单与历史提交无关
+              branchTickets: false,
+            }
+          );
+          if (generated) {
+            items.push({ ...entry, generated });
+          }
+        } catch (error) {
+          if (error instanceof vscode.CancellationError) {
+            throw error;
+          }
+          console.error(`Failed to regenerate message for ${entry.id}:`, error);
+          notify.warn("history.commit.skipped", [
+            entry.id,
+            error instanceof Error ? error.message : String(error),
+          ]);
+        }
+      }
+      if (items.length === 0) {
+        notify.info("no.commit.message.generated");
+        return;
+      }
+
+      const selected = await CommitHistoryPanel.show(items);
+      if (!selected?.length) {
+        return;
+      }
+
+      const applyAction = getMessage("history.confirm.action");
+      const confirmed = await vscode.window.showWarningMessage(
+        formatMessage(`history.confirm.${scmProvider.type}`, [
+          selected.length,
+          selected[0].id,
+        ]),
+        { modal: true },
+        applyAction
+      );
+      if (confirmed !== applyAction) {
+        return;
+      }
+
+      await scmProvider.rewriteCommitMessages(selected);
+      notify.info("history.applied", [selected.length]);
+    } catch (error) {
+      if (error instanceof vscode.CancellationError) {
+        notify.info("commit.message.generation.cancelled");
+        return;
+      }
+      console.log("error", error);
+      if (error instanceof Error) {
+        notify.error("history.failed", [error.message]);
+      }
+    }
+  }
+}
@@ -0,0 +1,170 @@
+import * as vscode from "vscode";
+import { GenerateCommitCommand } from "./GenerateCommitCommand";
+import { ConfigurationManager } from "../config/ConfigurationManager";
+import { ProjectConventionLoader } from "../config/ProjectConvention";
+import { SCMFactory, type ISCMProvider } from "../scm/SCMProvider";
+import { throwIfCancelled } from "../ai/utils/generateHelper";
+import { generateCommitMessageSystemPrompt } from "../prompt/prompt";
+import { getCommitSplitInstruction } from "../prompt/commitSplit";
+import {
+  CommitSplitService,
+  type CommitSplitGroup,
+} from "../services/CommitSplitService";
+import { notify } from "../utils/notification";
+import { getMessage, formatMessage } from "../utils/i18n";
+import { ProgressHandler } from "../utils/notification/ProgressHandler";
+
+/**
+ * 拆分提交命令类
+ * 由模型将变更块分组为多个逻辑提交,确认后依次提交:
+ * Git按变更块暂存,同一文件可以拆分到多个提交;SVN按文件提交
+ * @extends {GenerateCommitCommand}
+ */
+export class SplitCommitCommand extends GenerateCommitCommand {
+  /**
+   * 执行拆分提交命令
+   * @param resources - 源代码管理标题栏传入的SourceControl实例,用于定位仓库
+   */
+  async execute(resources?: any) {
+    const configResult = await this.handleConfiguration();
+    if (!configResult) {
+      return;
+    }
+
+    try {
+      const scmProvider = await SCMFactory.detectSCM(
+        this.getRepositoryPath(resources)
+      );
+      if (!scmProvider) {
+        notify.error("scm.not.detected");
+        return;
+      }
+
+      const groups = await this.planCommits(scmProvider, configResult);
+      if (!groups) {
+        return;
+      }
+
+      const commitAction = getMessage("commit.split.confirm.action");
+      const confirmed = await vscode.window.showInformationMessage(
+        formatMessage("commit.split.confirm", [groups.length]),
+        {
+          modal: true,
+          detail: groups
+            .map(
+              (group, index) =>
+                `${index + 1}. ${group.message.split("\n")[0]}\n   ${group.files.join(", ")}`
+            )
+            .join("\n\n"),
+        },
+        commitAction
+      );
+      if (confirmed !== commitAction) {
+        return;
+      }
+
+      let started = 0;
+      try {
+        await ProgressHandler.withProgress(
+          getMessage("progress.committing.split"),
+          async (progress) => {
+            await CommitSplitService.commit(scmProvider, groups, (group) => {
+              started++;
+              progress.report({
+                message: `${started}/${groups.length} ${group.message.split("\n")[0]}`,
+              });
+            });
+          }
+        );
+      } catch (error) {
+        // 已创建的提交会保留,提示用户检查剩余的变更
+        throw new Error(
+          formatMessage("commit.split.partial", [
+            Math.max(started - 1, 0),
+            groups.length,
+            error instanceof Error ? error.message : String(error),
+          ])
+        );
+      }
+      notify.info("commit.split.committed", [groups.length]);
+    } catch (error) {
+      if (error instanceof vscode.CancellationError) {
+        notify.info("commit.message.generation.cancelled");
+        return;
+      }
+      console.log("error", error);
+      if (error instanceof Error) {
+        notify.error("commit.split.failed", [error.message]);
+      }
+    }
+  }
+
+  /**
+   * 由模型将变更块分组为多个提交
+   * @param scmProvider - SCM提供程序实例
+   * @param configResult - AI提供商和模型
+   * @returns 按提交顺序排列的提交,没有变更时返回undefined
+   * @throws {vscode.CancellationError} 当用户取消生成时抛出
+   */
+  private async planCommits(
+    scmProvider: ISCMProvider,
+    { provider, model }: { provider: string; model: string }
+  ): Promise<CommitSplitGroup[] | undefined> {
+    const configuration =
+      ConfigurationManager.getInstance().getConfiguration(true);
+    const convention = ProjectConventionLoader.load(scmProvider.rootPath);
+
+    return ProgressHandler.withProgress(
+      getMessage("progress.splitting.commits"),
+      async (_progress, token) => {
+        // Git的变更块会重新组合为补丁暂存,需要未经简化的原始差异
+        const diff = scmProvider.getRawDiff
+          ? await scmProvider.getRawDiff()
+          : await scmProvider.getDiff();
+        const hunks = diff
+          ? CommitSplitService.splitHunks(diff, scmProvider.type)
+          : [];
+        if (hunks.length === 0) {
+          notify.info("no.changes");
+          return undefined;
+        }
+
+        const { aiProvider, selectedModel } =
+          await this.selectAndUpdateModelConfiguration(provider, model);
+        // 每个提交只需要一条提交信息,按合并提交的格式生成
+        const commitFormat = {
+          ...configuration.features.commitFormat,
+          enableMergeCommit: true,
+        };
+        const response = await aiProvider.generateResponse({
+          ...configuration.base,
+          ...commitFormat,
+          ...configuration.features.codeAnalysis,
+          systemPrompt:
+            (configuration.base.systemPrompt ||
+              generateCommitMessageSystemPrompt({
+                config: {
+                  ...configuration,
+                  features: { ...configuration.features, commitFormat },
+                },
+                vcsType: scmProvider.type,
+                convention,
+              })) + getCommitSplitInstruction(),
+          convention,
+          additionalContext: "",
+          diff: CommitSplitService.formatHunks(hunks),
+          model: selectedModel,
+          scm: scmProvider.type,
+        });
+        throwIfCancelled(token);
+
+        // 不支持按变更块暂存时,同一文件的变更只能在一个提交中
+        return CommitSplitService.parsePlan(
+          response.content,
+          hunks,
+          !scmProvider.stagePatch
+        );
+      }
+    );
+  }
+}
@@ -0,0 +1,210 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { GenerateCommitCommand } from "./GenerateCommitCommand";
+import { SCMFactory, type ISCMProvider } from "../scm/SCMProvider";
+import { notify } from "../utils/notification";
+import { getMessage, formatMessage } from "../utils/i18n";
+
+/**
+ * 变更列表命令的执行模式
+ * - generate: 为选中的变更列表生成提交信息并写入提交输入框
+ * - generateAll: 为每个变更列表分别生成提交信息
+ * - commit: 为选中的变更列表生成提交信息并提交
+ */
+export type ChangelistCommandMode = "generate" | "generateAll" | "commit";
+
+/**
+ * SVN变更列表命令类
+ * 按 svn changelist 组织的变更生成和提交提交信息
+ * @extends {GenerateCommitCommand}
+ */
+export class SvnChangelistCommand extends GenerateCommitCommand {
+  /**
+   * 执行变更列表命令
+   * @param resources - 源代码管理标题栏传入的SourceControl实例,用于定位仓库
+   * @param mode - 执行模式
+   */
+  async execute(resources?: any, mode: ChangelistCommandMode = "generate") {
+    const configResult = await this.handleConfiguration();
+    if (!configResult) {
+      return;
+    }
+
+    try {
+      const scmProvider = await SCMFactory.detectSCM(
+        this.getRepositoryPath(resources)
+      );
+      if (!scmProvider) {
+        notify.error("scm.not.detected");
+        return;
+      }
+      if (scmProvider.type !== "svn" || !scmProvider.getChangelists) {
+        notify.error("svn.changelist.not.supported");
+        return;
+      }
+
+      const changelists = await scmProvider.getChangelists();
+      if (changelists.size === 0) {
+        notify.info("svn.changelist.none");
+        return;
+      }
+
+      if (mode === "generateAll") {
+        await this.generateAll(scmProvider, configResult, changelists);
+        return;
+      }
+
+      const name = await this.pickChangelist(scmProvider, changelists);
+      if (!name) {
+        return;
+      }
+      const files = changelists.get(name)!;
+
+      if (mode === "commit") {
+        await this.commitChangelist(scmProvider, configResult, name, files);
+        return;
+      }
+
+      const currentInput = await scmProvider.getCommitInput();
+      try {
+        const content = await this.generateCommitMessage(
+          scmProvider,
+          configResult,
+          { files, commitInput: currentInput, streamToInput: true }
+        );
+        if (content) {
+          notify.info("svn.changelist.generated", [name]);
+          await this.writeCommitInput(scmProvider, content);
+        }
+      } catch (error) {
+        // 取消或生成失败时恢复原有的提交信息,覆盖流式写入的部分内容
+        await scmProvider.setCommitInput(currentInput).catch(() => {});
+        if (error instanceof vscode.CancellationError) {
+          notify.info("commit.message.generation.cancelled");
+          return;
+        }
+        throw error;
+      }
+    } catch (error) {
+      if (error instanceof vscode.CancellationError) {
+        notify.info("commit.message.generation.cancelled");
+        return;
+      }
+      console.log("error", error);
+      if (error instanceof Error) {
+        notify.error("svn.changelist.failed", [error.message]);
+      }
+    }
+  }
+
+  /**
+   * 显示变更列表选择器,只有一个变更列表时直接返回
+   * @param scmProvider - SCM提供程序实例
+   * @param changelists - 变更列表名称到文件绝对路径的映射
+   * @returns 选中的变更列表名称,用户取消时返回undefined
+   */
+  private async pickChangelist(
+    scmProvider: ISCMProvider,
+    changelists: Map<string, string[]>
+  ): Promise<string | undefined> {
+    if (changelists.size === 1) {
+      return [...changelists.keys()][0];
+    }
+
+    const selected = await vscode.window.showQuickPick(
+      [...changelists.entries()].map(([name, files]) => ({
+        label: name,
+        description: formatMessage("svn.changelist.file.count", [files.length]),
+        detail: files
+          .map((file) => path.relative(scmProvider.rootPath, file))
+          .join(", "),
+      })),
+      { placeHolder: getMessage("svn.changelist.pick.placeholder") }
+    );
+    return selected?.label;
+  }
+
+  /**
+   * 为每个变更列表分别生成提交信息,并在新的Markdown文档中展示
+   * 单个变更列表生成失败或被跳过时继续处理其余变更列表
+   * @param scmProvider - SCM提供程序实例
+   * @param configResult - AI提供商和模型
+   * @param changelists - 变更列表名称到文件绝对路径的映射
+   */
+  private async generateAll(
+    scmProvider: ISCMProvider,
+    configResult: { provider: string; model: string },
+    changelists: Map<string, string[]>
+  ): Promise<void> {
+    const sections: string[] = [];
+    for (const [name, files] of changelists) {
+      try {
+        const content = await this.generateCommitMessage(
+          scmProvider,
+          configResult,
+          { files }
+        );
+        if (content) {
+          sections.push(`## ${name}\n\n${content}`);
+        }
+      } catch (error) {
+        if (error instanceof vscode.CancellationError) {
+          throw error;
+        }
+        console.error(`Failed to generate message for ${name}:`, error);
+        notify.warn("svn.changelist.skipped", [
+          name,
+          error instanceof Error ? error.message : String(error),
+        ]);
+      }
+    }
+
+    if (sections.length === 0) {
+      notify.info("no.commit.message.generated");
+      return;
+    }
+
+    const document = await vscode.workspace.openTextDocument({
+      content: sections.join("\n\n") + "\n",
+      language: "markdown",
+    });
+    await vscode.window.showTextDocument(document);
+    notify.info("svn.changelist.generated.all", [sections.length]);
+  }
+
+  /**
+   * 为变更列表生成提交信息,确认后提交该变更列表中的文件
+   * @param scmProvider - SCM提供程序实例
+   * @param configResult - AI提供商和模型
+   * @param name - 变更列表名称
+   * @param files - 变更列表中文件的绝对路径
+   */
+  private async commitChangelist(
+    scmProvider: ISCMProvider,
+    configResult: { provider: string; model: string },
+    name: string,
+    files: string[]
+  ): Promise<void> {
+    const content = await this.generateCommitMessage(
+      scmProvider,
+      configResult,
+      { files }
+    );
+    if (!content) {
+      return;
+    }
+
+    const commitAction = getMessage("svn.changelist.commit.action");
+    const confirmed = await vscode.window.showInformationMessage(
+      formatMessage("svn.changelist.commit.confirm", [name, files.length]),
+      { modal: true, detail: content },
+      commitAction
+    );
+    if (confirmed !== commitAction) {
+      return;
+    }
+
+    await scmProvider.commit(content, files);
+    notify.info("svn.changelist.committed", [name]);
+  }
+}
@@ -164,6 +164,25 @@ export const CONFIG_SCHEMA = {
         description:
           "Enable diff content simplification (Warning: Enabling this feature may result in less accurate commit messages) / 启用差异内容简化 (警告：启用此功能可能导致提交信息不够准确)",
       },
+      enableChunkedGeneration: {
+        type: "boolean",
+        default: true,
+        description:
+          "Summarize each file separately and merge the summaries when the diff exceeds the model context, instead of truncating it / 差异超出模型上下文时按文件分别摘要后合并生成, 而不是直接截断",
+      },
+      diffSource: {
+        type: "string",
+        default: "auto",
+        description:
+          "Which Git changes are sent to the model / 发送给模型的 Git 变更范围",
+        enum: ["auto", "staged", "workingTree", "stagedAndUntracked"],
+        enumDescriptions: [
+          "Staged changes when anything is staged, otherwise the working tree / 存在暂存的变更时使用暂存区, 否则使用工作区",
+          "Staged changes only (git diff --cached) / 仅暂存的变更 (git diff --cached)",
+          "All tracked changes in the working tree (git diff HEAD) / 工作区中所有已跟踪文件的变更 (git diff HEAD)",
+          "Staged changes plus the contents of untracked files / 暂存的变更及未跟踪文件的内容",
+        ],
+      },
     },
     // Commit related features
     commitFormat: {
@@ -178,6 +197,36 @@ export const CONFIG_SCHEMA = {
         default: true,
         description: "Use emoji in commit messages / 在提交信息中使用表情符号",
       },
+      enableStreaming: {
+        type: "boolean",
+        default: true,
+        description:
+          "Stream the commit message into the SCM input box while it is being generated (when supported by the provider) / 生成过程中将提交信息流式写入源代码管理输入框(需提供商支持)",
+      },
+      candidateCount: {
+        type: "number",
+        default: 1,
+        description:
+          "Number of alternative commit messages to generate (1-5). When greater than 1, the alternatives are shown in a picker to accept, edit or regenerate / 生成的候选提交信息数量(1-5), 大于1时在选择器中展示, 可接受、编辑或重新生成",
+      },
+      lintMode: {
+        type: "string",
+        default: "report",
+        description:
+          "Check generated commit messages against the repository's commitlint config, or built-in Conventional Commits rules when none exists / 按仓库的 commitlint 配置(不存在时使用内置约定式提交规则)校验生成的提交信息",
+        enum: ["off", "report", "retry"],
+        enumDescriptions: [
+          "Do not check commit messages / 不校验提交信息",
+          "Report violations after generation / 生成后提示发现的问题",
+          "Regenerate automatically when errors are found, then report remaining violations / 发现错误时自动重新生成, 之后提示剩余问题",
+        ],
+      },
+      inferScope: {
+        type: "boolean",
+        default: true,
+        description:
+          "Infer candidate scopes from changed paths (convention scope rules, package workspaces or top-level directories) and pass them to the model / 根据变更路径(约定文件中的范围规则、包工作区或顶层目录)推断候选范围并提供给模型",
+      },
     },
     // Weekly report generation features
     weeklyReport: {
@@ -187,6 +236,39 @@ export const CONFIG_SCHEMA = {
           "Custom system prompt for weekly report generation / 生成周报的自定义系统提示语",
         default: "",
       },
+      repositories: {
+        type: "array",
+        default: [],
+        items: { type: "string" },
+        description:
+          "Git or SVN repositories included in the report, absolute or relative to the first workspace folder; the current repository is used when empty / 周报包含的 Git 或 SVN 仓库路径(绝对路径或相对于第一个工作区文件夹), 为空时使用当前仓库",
+      },
+      authors: {
+        type: "array",
+        default: [],
+        items: { type: "string" },
+        description:
+          "Authors whose commits are included in the report, with the aliases of the same person separated by | (e.g. Alice|alice.w|awang). Git matches names or emails, SVN matches user names exactly. The current user of each repository is used when empty / 周报包含的提交作者, 同一人的多个别名用 | 分隔(如 Alice|alice.w|awang)。Git 匹配名称或邮箱, SVN 精确匹配用户名。为空时使用每个仓库的当前用户",
+      },
+      excludePatterns: {
+        type: "array",
+        default: ["^Merg(e|ed|ing)\\b"],
+        items: { type: "string" },
+        description:
+          "Regular expressions (case-insensitive) of commit messages excluded from the report, such as merge commits / 从报告中排除的提交信息正则表达式(不区分大小写), 如合并提交",
+      },
+      hoursPerDay: {
+        type: "number",
+        default: 8,
+        description:
+          "Working hours per working day, split between the work items of a report by their commit times and change sizes / 每个工作日的工作时长(小时), 按提交时间和变更规模分配给报告中的工作项",
+      },
+      minUnit: {
+        type: "number",
+        default: 0.5,
+        description:
+          "Smallest amount of hours assigned to a work item; estimated hours are multiples of it / 分配给工作项的最小工时单位(小时), 估算的工时均为其整数倍",
+      },
     },
     // Code review features
     codeReview: {
@@ -196,6 +278,94 @@ export const CONFIG_SCHEMA = {
         description:
           "Custom system prompt for code review / 代码审查的自定义系统提示语",
       },
+      mode: {
+        type: "string",
+        default: "changeset",
+        description:
+          "How changes are sent to the model for review / 代码审查时发送给模型的方式",
+        enum: ["changeset", "file"],
+        enumDescriptions: [
+          "Review all changes together with the surrounding functions and imported symbols, in batches when they exceed the model context / 将所有变更连同所在函数和引用的符号一起审查, 超出模型上下文时分批审查",
+          "Review each selected file separately / 分别审查每个选中的文件",
+        ],
+      },
+      gateMode: {
+        type: "string",
+        default: "off",
+        description:
+          "Review the changes automatically before committing them through the extension / 通过扩展提交前自动审查变更",
+        enum: ["off", "warn", "block"],
+        enumDescriptions: [
+          "Do not review before committing / 提交前不审查",
+          "Ask for confirmation when issues are found / 发现问题时确认是否继续提交",
+          "Cancel the commit when issues are found / 发现问题时取消提交",
+        ],
+      },
+      gateSeverity: {
+        type: "string",
+        default: "ERROR",
+        description:
+          "Lowest severity of the issues that stop a commit / 阻止提交的问题的最低严重程度",
+        enum: ["ERROR", "WARNING", "NOTE"],
+        enumDescriptions: [
+          "Errors only / 仅错误",
+          "Warnings and errors / 警告和错误",
+          "All issues / 所有问题",
+        ],
+      },
+      gateIgnore: {
+        type: "array",
+        default: [],
+        items: { type: "string" },
+        description:
+          "Glob patterns, relative to the repository root, of files not reviewed before committing, e.g. **/*.test.ts / 提交前不审查的文件的 glob 模式(相对于仓库根目录), 如 **/*.test.ts",
+      },
+    },
+    // Issue tracker integration
+    issueTracker: {
+      pattern: {
+        type: "string",
+        default: "[A-Z][A-Z0-9]+-\\d+",
+        description:
+          "Regular expression matching ticket keys in the branch name, SVN changelist name or commit input / 从分支名、SVN变更列表名或提交输入框中匹配工单号的正则表达式",
+      },
+      position: {
+        type: "string",
+        default: "footer",
+        description:
+          "Where ticket keys are inserted in the generated commit message / 工单号在生成的提交信息中的位置",
+        enum: ["prefix", "footer", "none"],
+        enumDescriptions: [
+          "Prefix the subject, e.g. feat(auth): PROJ-123 add login / 作为主题前缀",
+          "Add a footer, e.g. Refs: PROJ-123 / 添加页脚",
+          "Do not insert ticket keys / 不插入工单号",
+        ],
+      },
+      provider: {
+        type: "string",
+        default: "none",
+        description:
+          "Issue tracker used to fetch ticket titles as prompt context / 用于获取工单标题作为提示上下文的问题跟踪系统",
+        enum: ["none", "jira", "gitlab", "github"],
+        enumDescriptions: [
+          "Do not fetch ticket titles / 不获取工单标题",
+          "Jira REST API",
+          "GitLab REST API",
+          "GitHub REST API",
+        ],
+      },
+      baseUrl: {
+        type: "string",
+        default: "",
+        description:
+          "Issue tracker API base URL, e.g. https://jira.example.com, https://gitlab.com/api/v4/projects/<id> or https://api.github.com/repos/<owner>/<repo> / 问题跟踪系统 API 基础地址",
+      },
+      token: {
+        type: "string",
+        default: "",
+        description:
+          "Access token for the issue tracker API / 问题跟踪系统 API 访问令牌",
+      },
     },
   },
 } as const;
@@ -249,16 +419,29 @@ export type ConfigValueTypeNumber = ConfigValueTypeBase & {
   default: number;
 };
 
+/**
+ * String list configuration value type
+ * @interface ConfigValueTypeArray
+ * @extends {ConfigValueTypeBase}
+ */
+export type ConfigValueTypeArray = ConfigValueTypeBase & {
+  type: "array";
+  default: readonly string[];
+  items: { type: "string" };
+};
+
 export type ConfigValueType =
   | ConfigValueTypeString
   | ConfigValueTypeBoolean
-  | ConfigValueTypeNumber;
+  | ConfigValueTypeNumber
+  | ConfigValueTypeArray;
 
 // Or directly use union type
 export type ConfigValue =
   | ConfigValueTypeString
   | ConfigValueTypeBoolean
-  | ConfigValueTypeNumber;
+  | ConfigValueTypeNumber
+  | ConfigValueTypeArray;
 
 // Add interface definition for configuration values
 export interface ConfigObject {
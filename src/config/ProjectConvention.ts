@@ -0,0 +1,208 @@
+import * as fs from "fs";
+import * as path from "path";
+import { parse as parseYaml } from "yaml";
+import { notify } from "../utils/notification/NotificationManager";
+import type { CommitLintRules } from "../utils/commitlint/types";
+
+/**
+ * 在仓库根目录查找的约定文件名,按优先级排列
+ */
+export const CONVENTION_FILES = [".dishai.json", ".dishai.yml", ".dishai.yaml"];
+
+/**
+ * 项目约定允许的提交类型
+ * @interface CommitTypeConvention
+ * @property {string} type - 提交类型,如 "feat"
+ * @property {string} [emoji] - 启用表情时类型前的表情
+ * @property {string} [description] - 类型的用途
+ * @property {string[]} [scopes] - 该类型的示例范围
+ */
+export interface CommitTypeConvention {
+  type: string;
+  emoji?: string;
+  description?: string;
+  scopes?: string[];
+}
+
+/**
+ * 任务单引用规则
+ * @interface TicketConvention
+ * @property {string} [pattern] - 匹配任务单编号的正则表达式,如 "[A-Z]+-\\d+"
+ * @property {"prefix" | "footer"} [position] - 任务单编号在提交信息中的位置,未声明时使用 issueTracker.position 配置
+ * @property {boolean} [required] - 是否每个提交都必须引用任务单
+ */
+export interface TicketConvention {
+  pattern?: string;
+  position?: "prefix" | "footer";
+  required?: boolean;
+}
+
+/**
+ * 在 `.dishai.json` / `.dishai.yml` 中声明的项目级提交约定
+ * @interface ProjectConvention
+ */
+export interface ProjectConvention {
+  /** 允许的提交类型,替换内置的类型表 */
+  types?: CommitTypeConvention[];
+  /** 允许的范围 */
+  scopes?: string[];
+  /** Glob 模式到范围的映射,用于根据变更路径推断范围 */
+  scopeRules?: Record<string, string>;
+  /** 标题的最大长度 */
+  subjectMaxLength?: number;
+  /** 正文每行的最大长度 */
+  bodyMaxLineLength?: number;
+  /** 任务单引用规则 */
+  ticket?: TicketConvention;
+  /** 示例提交信息,替换内置的示例 */
+  examples?: string[];
+}
+
+/**
+ * 检查值是否为字符串数组
+ * @param {unknown} value - 要检查的值
+ * @returns {boolean} 是否为字符串数组
+ */
+function isStringArray(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) && value.every((item) => typeof item === "string")
+  );
+}
+
+/**
+ * 加载并规范化项目提交约定
+ * @class ProjectConventionLoader
+ */
+export class ProjectConventionLoader {
+  /**
+   * 从仓库根目录加载约定文件
+   * 忽略无效的字段;无法解析的文件会提示用户并忽略
+   * @param {string} rootPath - 仓库根目录
+   * @returns {ProjectConvention | undefined} 规范化后的约定,文件不存在时返回undefined
+   */
+  static load(rootPath: string): ProjectConvention | undefined {
+    const fileName = CONVENTION_FILES.find((name) =>
+      fs.existsSync(path.join(rootPath, name))
+    );
+    if (!fileName) {
+      return undefined;
+    }
+
+    try {
+      const content = fs.readFileSync(path.join(rootPath, fileName), "utf8");
+      const raw =
+        path.extname(fileName) === ".json"
+          ? JSON.parse(content)
+          : parseYaml(content);
+      return this.normalize(raw);
+    } catch (error) {
+      console.error(`Failed to load ${fileName}:`, error);
+      notify.warn("convention.load.failed", [
+        fileName,
+        error instanceof Error ? error.message : String(error),
+      ]);
+      return undefined;
+    }
+  }
+
+  /**
+   * 从解析后的文件内容中选取支持的字段
+   * @param {any} raw - 解析后的文件内容
+   * @returns {ProjectConvention} 规范化后的约定
+   * @private
+   */
+  private static normalize(raw: any): ProjectConvention {
+    if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+      throw new Error("Convention file must contain an object");
+    }
+
+    const convention: ProjectConvention = {};
+
+    if (Array.isArray(raw.types)) {
+      convention.types = raw.types
+        .map((item: any): CommitTypeConvention | undefined => {
+          // 允许简写形式 `types: [feat, fix]`
+          if (typeof item === "string") {
+            return { type: item };
+          }
+          if (item && typeof item.type === "string") {
+            return {
+              type: item.type,
+              emoji: typeof item.emoji === "string" ? item.emoji : undefined,
+              description:
+                typeof item.description === "string"
+                  ? item.description
+                  : undefined,
+              scopes: isStringArray(item.scopes) ? item.scopes : undefined,
+            };
+          }
+          return undefined;
+        })
+        .filter(Boolean);
+    }
+    if (isStringArray(raw.scopes)) {
+      convention.scopes = raw.scopes;
+    }
+    if (raw.scopeRules && typeof raw.scopeRules === "object") {
+      convention.scopeRules = Object.fromEntries(
+        Object.entries(raw.scopeRules).filter(
+          (entry): entry is [string, string] => typeof entry[1] === "string"
+        )
+      );
+    }
+    if (typeof raw.subjectMaxLength === "number") {
+      convention.subjectMaxLength = raw.subjectMaxLength;
+    }
+    if (typeof raw.bodyMaxLineLength === "number") {
+      convention.bodyMaxLineLength = raw.bodyMaxLineLength;
+    }
+    if (raw.ticket && typeof raw.ticket === "object") {
+      convention.ticket = {
+        pattern:
+          typeof raw.ticket.pattern === "string"
+            ? raw.ticket.pattern
+            : undefined,
+        // 未声明时保持undefined,使用 issueTracker.position 配置
+        position: ["prefix", "footer"].includes(raw.ticket.position)
+          ? raw.ticket.position
+          : undefined,
+        required: raw.ticket.required === true,
+      };
+    }
+    if (isStringArray(raw.examples)) {
+      convention.examples = raw.examples;
+    }
+
+    return convention;
+  }
+
+  /**
+   * 将约定转换为 commitlint 规则,用于校验生成的提交信息
+   * @param {ProjectConvention} convention - 项目约定
+   * @returns {CommitLintRules} 由约定中声明的字段生成的规则
+   */
+  static toCommitLintRules(convention: ProjectConvention): CommitLintRules {
+    const rules: CommitLintRules = {};
+    if (convention.types?.length) {
+      rules["type-enum"] = [
+        2,
+        "always",
+        convention.types.map((type) => type.type),
+      ];
+    }
+    if (convention.scopes?.length) {
+      rules["scope-enum"] = [2, "always", convention.scopes];
+    }
+    if (convention.subjectMaxLength) {
+      rules["subject-max-length"] = [2, "always", convention.subjectMaxLength];
+    }
+    if (convention.bodyMaxLineLength) {
+      rules["body-max-line-length"] = [
+        1,
+        "always",
+        convention.bodyMaxLineLength,
+      ];
+    }
+    return rules;
+  }
+}
@@ -28,11 +28,32 @@ export const CONFIG_KEYS = {
   "FEATURES": "dish-ai-commit.features",
   "FEATURES_CODEANALYSIS": "dish-ai-commit.features.codeAnalysis",
   "FEATURES_CODEANALYSIS_SIMPLIFYDIFF": "dish-ai-commit.features.codeAnalysis.simplifyDiff",
+  "FEATURES_CODEANALYSIS_ENABLECHUNKEDGENERATION": "dish-ai-commit.features.codeAnalysis.enableChunkedGeneration",
+  "FEATURES_CODEANALYSIS_DIFFSOURCE": "dish-ai-commit.features.codeAnalysis.diffSource",
   "FEATURES_COMMITFORMAT": "dish-ai-commit.features.commitFormat",
   "FEATURES_COMMITFORMAT_ENABLEMERGECOMMIT": "dish-ai-commit.features.commitFormat.enableMergeCommit",
   "FEATURES_COMMITFORMAT_ENABLEEMOJI": "dish-ai-commit.features.commitFormat.enableEmoji",
+  "FEATURES_COMMITFORMAT_ENABLESTREAMING": "dish-ai-commit.features.commitFormat.enableStreaming",
+  "FEATURES_COMMITFORMAT_CANDIDATECOUNT": "dish-ai-commit.features.commitFormat.candidateCount",
+  "FEATURES_COMMITFORMAT_LINTMODE": "dish-ai-commit.features.commitFormat.lintMode",
+  "FEATURES_COMMITFORMAT_INFERSCOPE": "dish-ai-commit.features.commitFormat.inferScope",
   "FEATURES_WEEKLYREPORT": "dish-ai-commit.features.weeklyReport",
   "FEATURES_WEEKLYREPORT_SYSTEMPROMPT": "dish-ai-commit.features.weeklyReport.systemPrompt",
+  "FEATURES_WEEKLYREPORT_REPOSITORIES": "dish-ai-commit.features.weeklyReport.repositories",
+  "FEATURES_WEEKLYREPORT_AUTHORS": "dish-ai-commit.features.weeklyReport.authors",
+  "FEATURES_WEEKLYREPORT_EXCLUDEPATTERNS": "dish-ai-commit.features.weeklyReport.excludePatterns",
+  "FEATURES_WEEKLYREPORT_HOURSPERDAY": "dish-ai-commit.features.weeklyReport.hoursPerDay",
+  "FEATURES_WEEKLYREPORT_MINUNIT": "dish-ai-commit.features.weeklyReport.minUnit",
   "FEATURES_CODEREVIEW": "dish-ai-commit.features.codeReview",
-  "FEATURES_CODEREVIEW_SYSTEMPROMPT": "dish-ai-commit.features.codeReview.systemPrompt"
+  "FEATURES_CODEREVIEW_SYSTEMPROMPT": "dish-ai-commit.features.codeReview.systemPrompt",
+  "FEATURES_CODEREVIEW_MODE": "dish-ai-commit.features.codeReview.mode",
+  "FEATURES_CODEREVIEW_GATEMODE": "dish-ai-commit.features.codeReview.gateMode",
+  "FEATURES_CODEREVIEW_GATESEVERITY": "dish-ai-commit.features.codeReview.gateSeverity",
+  "FEATURES_CODEREVIEW_GATEIGNORE": "dish-ai-commit.features.codeReview.gateIgnore",
+  "FEATURES_ISSUETRACKER": "dish-ai-commit.features.issueTracker",
+  "FEATURES_ISSUETRACKER_PATTERN": "dish-ai-commit.features.issueTracker.pattern",
+  "FEATURES_ISSUETRACKER_POSITION": "dish-ai-commit.features.issueTracker.position",
+  "FEATURES_ISSUETRACKER_PROVIDER": "dish-ai-commit.features.issueTracker.provider",
+  "FEATURES_ISSUETRACKER_BASEURL": "dish-ai-commit.features.issueTracker.baseUrl",
+  "FEATURES_ISSUETRACKER_TOKEN": "dish-ai-commit.features.issueTracker.token"
 } as const;
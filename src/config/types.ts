@@ -6,6 +6,7 @@ import {
   type ConfigValueTypeString,
   type ConfigValueTypeBoolean,
   type ConfigValueTypeNumber,
+  type ConfigValueTypeArray,
 } from "./ConfigSchema";
 
 /**
@@ -39,6 +40,8 @@ type ExtractConfigValueType<T> = T extends ConfigValueTypeString
   ? boolean
   : T extends ConfigValueTypeNumber
   ? number
+  : T extends ConfigValueTypeArray
+  ? string[]
   : never;
 
 /**
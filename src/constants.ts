@@ -30,6 +30,39 @@ export const COMMANDS = {
   CODE_REVIEW: {
     /** 执行代码审查的命令 */
     REVIEW: packageJson.contributes.commands[3].command,
+    /** 显示代码审查历史的命令 */
+    HISTORY: packageJson.contributes.commands[11].command,
+    /** 重新审查变化文件的命令 */
+    RERUN: packageJson.contributes.commands[12].command,
+  },
+  /** SVN变更列表相关命令 */
+  SVN_CHANGELIST: {
+    /** 为变更列表生成commit信息的命令 */
+    GENERATE: packageJson.contributes.commands[4].command,
+    /** 为每个变更列表生成commit信息的命令 */
+    GENERATE_ALL: packageJson.contributes.commands[5].command,
+    /** 生成commit信息并提交变更列表的命令 */
+    COMMIT: packageJson.contributes.commands[6].command,
+  },
+  /** 历史提交相关命令 */
+  COMMIT_HISTORY: {
+    /** 重新生成历史提交信息的命令 */
+    REWRITE: packageJson.contributes.commands[7].command,
+  },
+  /** 拆分提交相关命令 */
+  COMMIT_SPLIT: {
+    /** 将变更拆分为多个提交的命令 */
+    SPLIT: packageJson.contributes.commands[8].command,
+  },
+  /** 拉取请求相关命令 */
+  PULL_REQUEST: {
+    /** 生成拉取请求描述的命令 */
+    GENERATE: packageJson.contributes.commands[9].command,
+  },
+  /** 更新日志相关命令 */
+  CHANGELOG: {
+    /** 生成更新日志的命令 */
+    GENERATE: packageJson.contributes.commands[10].command,
   },
 } as const;
 
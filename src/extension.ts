@@ -3,6 +3,11 @@
 import * as vscode from "vscode";
 import { ConfigurationManager } from "./config/ConfigurationManager";
 import { registerCommands } from "./commands";
+import { CodeReviewDiagnostics } from "./services/CodeReviewDiagnostics";
+import { CodeReviewGate } from "./services/CodeReviewGate";
+import { ReviewHistoryService } from "./services/ReviewHistoryService";
+import { ReportTemplateService } from "./services/ReportTemplateService";
+import { ReportHistoryService } from "./services/ReportHistoryService";
 import { initializeLocalization } from "./utils/i18n";
 import { notify, withProgress } from "./utils/notification/NotificationManager";
 
@@ -25,6 +30,19 @@ export function activate(context: vscode.ExtensionContext) {
     console.log("注册命令");
     // 注册所有命令到VS Code
     registerCommands(context);
+
+    // 注册代码审查的诊断信息和快速修复
+    CodeReviewDiagnostics.register(context);
+
+    // 初始化代码审查历史
+    ReviewHistoryService.initialize(context);
+
+    // 初始化报告模板和已保存的报告
+    ReportTemplateService.initialize(context);
+    ReportHistoryService.initialize(context);
+
+    // 注册提交前代码审查
+    CodeReviewGate.register(context);
   } catch (e) {
     console.error("Error activating extension:", e);
     // 向用户显示本地化的错误提示
@@ -88,3 +88,53 @@ Examples:
 
 Initialization: 请提供代码变更及技术栈信息，我将进行全维度质量审查。
 `;
+
+/**
+ * 代码审查结果的输出格式说明,追加在审查提示(包括自定义提示)之后
+ * 要求模型按 CodeReviewResult 的结构输出JSON,以便校验后发布为编辑器诊断信息
+ */
+export const CODE_REVIEW_OUTPUT_FORMAT = `
+## Output Format
+
+This section REPLACES any other output format above. Respond with ONLY a valid JSON object in this schema, with NO code fences and NOTHING else:
+
+{
+  "summary": string,          // Overall review summary
+  "issues": [
+    {
+      "severity": "NOTE" | "WARNING" | "ERROR",
+      "filePath": string,     // Path of the file as shown in the diff, without the a/ or b/ prefix
+      "startLine": number,    // First line of the issue in the NEW version of the file (1-based)
+      "endLine"?: number,     // Last line of the issue in the NEW version of the file
+      "description": string,  // What is wrong and why
+      "suggestion": string,   // How to fix it
+      "replacement"?: string, // Code replacing lines startLine to endLine entirely, keeping their indentation; only when the fix is local to these lines
+      "documentation"?: string, // Optional documentation link
+      "code"?: string         // Optional snippet of the problematic code
+    }
+  ]
+}
+
+- Compute line numbers from the "@@ -a,b +c,d @@" hunk headers: the first line after the header is line c of the new file; count context and "+" lines, skip "-" lines
+- Only report issues on lines present in the new version of the file
+- Use an empty "issues" array when there is nothing to report`;
+
+/**
+ * 生成整个变更集审查的用户消息
+ * 变更集的所有差异一起发送,以便发现跨文件的问题,相关源码仅作为参考上下文
+ * @param {string} diff - 本批次所有文件的差异
+ * @param {string} context - 变更所在函数和引用符号的源码,可为空
+ * @returns {string} 用户消息文本
+ */
+export function getChangesetReviewInput(diff: string, context: string): string {
+  const sections = [
+    "Review the following change set as a whole. Look for issues across files as well, such as call sites that no longer match a changed signature, type or contract.",
+    `## Changes\n\n${diff}`,
+  ];
+  if (context) {
+    sections.push(
+      `## Related Source\n\nUnchanged source for reference, with line numbers: the functions enclosing the changes and the declarations of imported symbols they use. Only report issues in it when they are caused by the changes.\n\n${context}`
+    );
+  }
+  return sections.join("\n\n");
+}
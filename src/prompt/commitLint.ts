@@ -0,0 +1,25 @@
+/**
+ * 生成提交规范校验失败后的反馈提示,追加到提交信息系统提示之后
+ * @param previousMessage - 上一次生成的提交信息
+ * @param violations - 格式化后的校验问题列表
+ * @returns 反馈提示文本
+ */
+export function getCommitLintFeedbackPrompt(
+  previousMessage: string,
+  violations: string
+): string {
+  return `
+
+## Validation Feedback
+
+Your previous output did not pass the repository's commit message rules:
+
+\`\`\`
+${previousMessage}
+\`\`\`
+
+Violations:
+${violations}
+
+Generate the commit message again for the same diff. Fix ALL the violations above while following every other rule of this guide. Output ONLY the corrected commit message.`;
+}
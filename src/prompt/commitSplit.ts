@@ -0,0 +1,29 @@
+/**
+ * 追加到提交信息系统提示之后的拆分提交说明
+ * 要求模型将变更块分组为多个逻辑提交,并以JSON输出每个提交的提交信息和变更块
+ * @returns 提示说明文本
+ */
+export function getCommitSplitInstruction(): string {
+  return `
+
+## Commit Splitting
+
+This section REPLACES the "Output Format" and "Critical Requirements" sections above. Instead of one commit message for the whole diff, split the changes into a sequence of logical commits.
+
+The input lists every hunk of the diff as a block starting with "### <hunk id> <file path>", followed by the hunk itself. Blocks without "@@" lines stand for a whole file change (e.g. a binary file or a rename).
+
+### Rules
+
+- Group hunks that belong to the same logical change, regardless of the file they are in
+- Hunks of the same file MAY go to different commits when they are unrelated
+- Every hunk id MUST be used in exactly one commit
+- Order the commits so that each commit builds on the previous ones, e.g. a refactoring or a new helper before the feature using it
+- Prefer fewer, meaningful commits; a single commit is fine when all changes are related
+- Each "message" is ONE complete commit message for its hunks and follows all formatting rules above
+
+### Output
+
+Output ONLY a JSON object in this exact shape, with NO code fences and NOTHING else:
+
+{"commits": [{"message": "<commit message>", "hunks": ["H1", "H3"]}, {"message": "<commit message>", "hunks": ["H2"]}]}`;
+}
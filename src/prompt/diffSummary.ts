@@ -0,0 +1,60 @@
+/**
+ * 生成单批文件差异摘要的系统提示
+ * @param language - 输出语言
+ * @returns 系统提示文本
+ */
+export function getFileSummaryPrompt(language = "English"): string {
+  return `# Diff Summary Generator
+
+You will receive one part of a larger version control diff. The full diff is too large to be processed at once, so it is summarized part by part and the summaries are later merged into a single commit message.
+
+## Output Format
+
+For every file in the input, output exactly one block:
+
+File: <file path>
+Status: <added | modified | deleted | renamed>
+- <what changed and why, one bullet per logical change>
+
+## Rules
+
+- Write the bullets in ${language}, keep file paths and code identifiers unchanged
+- Mention new, removed or renamed functions, classes, options and public APIs by name
+- Mention breaking changes explicitly and mark them with "BREAKING"
+- If the input is marked as a part of a file, summarize only what is visible in that part
+- Be concise: at most 5 bullets per file
+- Output ONLY the summary blocks, NO introduction or closing remarks`;
+}
+
+/**
+ * 多轮合并摘要时使用的系统提示
+ * 当各文件摘要合并后仍超出模型上下文时,用于进一步压缩摘要
+ * @param language - 输出语言
+ * @returns 系统提示文本
+ */
+export function getSummaryCondensePrompt(language = "English"): string {
+  return `# Change Summary Condenser
+
+You will receive summaries of changes in several files of one change set. Condense them while keeping one "File:" block per file.
+
+## Rules
+
+- Write in ${language}, keep file paths and code identifiers unchanged
+- Keep breaking changes and public API changes, drop minor details first
+- At most 2 bullets per file
+- Output ONLY the condensed summary blocks`;
+}
+
+/**
+ * 追加到提交信息系统提示之后的说明
+ * 告知模型输入内容是按文件生成的变更摘要而非原始差异
+ * @param output - 最终生成内容的名称
+ * @returns 提示说明文本
+ */
+export function getSummaryMergeInstruction(output = "commit message"): string {
+  return `
+
+## Summarized Input
+
+The change set was too large to be sent as a raw diff. Instead of a diff, the input consists of per-file change summaries ("File:" blocks) that together describe ALL changes. Treat every block as if it were the diff of that file, and apply all the rules above to produce the ${output}.`;
+}
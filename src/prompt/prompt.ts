@@ -1,8 +1,10 @@
 import { ExtensionConfiguration } from "../config/types";
+import { ProjectConvention } from "../config/ProjectConvention";
 
 interface SystemPromptParams {
   config: ExtensionConfiguration; // 配置项
   vcsType: "git" | "svn"; // 运行时参数
+  convention?: ProjectConvention; // 仓库中的提交约定
 }
 
 function getMergeCommitsSection(
@@ -65,9 +67,99 @@ function getSVNExamples(enableMergeCommit: boolean, enableEmoji: boolean) {
     : getSeparateSVNExample(enableEmoji);
 }
 
+function getTypeReferenceSection(
+  enableEmoji: boolean,
+  convention?: ProjectConvention
+) {
+  if (convention?.types?.length) {
+    const rows = convention.types.map((item) =>
+      [
+        item.type,
+        ...(enableEmoji ? [item.emoji ?? ""] : []),
+        item.description ?? "",
+        item.scopes?.join(", ") ?? "",
+      ].join(" | ")
+    );
+    const header = enableEmoji
+      ? "| Type | Emoji | Description | Example Scopes |\n| ---- | ----- | ----------- | -------------- |"
+      : "| Type | Description | Example Scopes |\n| ---- | ----------- | -------------- |";
+    return `${header}
+${rows.map((row) => `| ${row} |`).join("\n")}
+
+Only the types listed above are allowed.`;
+  }
+
+  return enableEmoji
+    ? `| Type     | Emoji | Description          | Example Scopes      |
+| -------- | ----- | -------------------- | ------------------- |
+| feat     | ✨    | New feature          | user, payment       |
+| fix      | 🐛    | Bug fix              | auth, data          |
+| docs     | 📝    | Documentation        | README, API         |
+| style    | 💄    | Code style           | formatting          |
+| refactor | ♻️    | Code refactoring     | utils, helpers      |
+| perf     | ⚡️   | Performance          | query, cache        |
+| test     | ✅    | Testing              | unit, e2e           |
+| build    | 📦    | Build system         | webpack, npm        |
+| ci       | 👷    | CI config            | Travis, Jenkins     |
+| chore    | 🔧    | Other changes        | scripts, config     |
+| i18n     | 🌐    | Internationalization | locale, translation |`
+    : `| Type     | Description          | Example Scopes      |
+| -------- | -------------------- | ------------------- |
+| feat     | New feature          | user, payment       |
+| fix      | Bug fix              | auth, data          |
+| docs     | Documentation        | README, API         |
+| style    | Code style           | formatting          |
+| refactor | Code refactoring     | utils, helpers      |
+| perf     | Performance          | query, cache        |
+| test     | Testing              | unit, e2e           |
+| build    | Build system         | webpack, npm        |
+| ci       | CI config            | Travis, Jenkins     |
+| chore    | Other changes        | scripts, config     |
+| i18n     | Internationalization | locale, translation |`;
+}
+
+function getProjectRulesSection(convention?: ProjectConvention) {
+  const sections: string[] = [];
+
+  if (convention?.scopes?.length) {
+    sections.push(`### Scope
+
+- Scope must be one of: ${convention.scopes.join(", ")}
+- Omit the scope if none of them fits the changes`);
+  }
+
+  const ticket = convention?.ticket;
+  if (ticket) {
+    // Without a declared position the keys are placed by the issueTracker.position setting
+    const placement =
+      ticket.position === "prefix"
+        ? " and go at the start of the subject, e.g.: feat(auth): PROJ-123 add login"
+        : ticket.position === "footer"
+          ? ' and go in a footer line after a blank line, e.g.: "Refs: PROJ-123"'
+          : "";
+    sections.push(`### Ticket Reference
+
+- Ticket keys${ticket.pattern ? ` match \`${ticket.pattern}\`` : ""}${placement}
+- Take ticket keys from the additional context or the diff, never invent them${
+      ticket.required
+        ? "\n- Every commit must reference a ticket when one is available"
+        : ""
+    }`);
+  }
+
+  return sections.length ? `\n${sections.join("\n\n")}\n` : "";
+}
+
+function getProjectExamples(examples: string[]) {
+  return `### Example (Project)
+
+${examples.map((example) => `\`\`\`\n${example.trim()}\n\`\`\``).join("\n\n")}`;
+}
+
 export function generateCommitMessageSystemPrompt({
   config,
   vcsType,
+  convention,
 }: SystemPromptParams) {
   const {
     base: { language },
@@ -76,6 +168,9 @@ export function generateCommitMessageSystemPrompt({
     },
   } = config;
 
+  const subjectMaxLength = convention?.subjectMaxLength ?? 50;
+  const bodyMaxLineLength = convention?.bodyMaxLineLength ?? 72;
+
   const VCSUpper = vcsType.toUpperCase();
   return `# ${VCSUpper} Commit Message Guide
 
@@ -118,35 +213,7 @@ By analyzing both the file status and the changes within the file (e.g., diff),
 
 ## Type Reference
 
-${
-  enableEmoji
-    ? `| Type     | Emoji | Description          | Example Scopes      |
-| -------- | ----- | -------------------- | ------------------- |
-| feat     | ✨    | New feature          | user, payment       |
-| fix      | 🐛    | Bug fix              | auth, data          |
-| docs     | 📝    | Documentation        | README, API         |
-| style    | 💄    | Code style           | formatting          |
-| refactor | ♻️    | Code refactoring     | utils, helpers      |
-| perf     | ⚡️   | Performance          | query, cache        |
-| test     | ✅    | Testing              | unit, e2e           |
-| build    | 📦    | Build system         | webpack, npm        |
-| ci       | 👷    | CI config            | Travis, Jenkins     |
-| chore    | 🔧    | Other changes        | scripts, config     |
-| i18n     | 🌐    | Internationalization | locale, translation |`
-    : `| Type     | Description          | Example Scopes      |
-| -------- | -------------------- | ------------------- |
-| feat     | New feature          | user, payment       |
-| fix      | Bug fix              | auth, data          |
-| docs     | Documentation        | README, API         |
-| style    | Code style           | formatting          |
-| refactor | Code refactoring     | utils, helpers      |
-| perf     | Performance          | query, cache        |
-| test     | Testing              | unit, e2e           |
-| build    | Build system         | webpack, npm        |
-| ci       | CI config            | Travis, Jenkins     |
-| chore    | Other changes        | scripts, config     |
-| i18n     | Internationalization | locale, translation |`
-}
+${getTypeReferenceSection(enableEmoji, convention)}
 
 ## Writing Rules
 
@@ -157,18 +224,18 @@ ${
 - Imperative mood
 - No capitalization
 - No period at end
-- Max 50 characters
+- Max ${subjectMaxLength} characters
 - Must be in ${language}
 
 ### Body
 
 - Breaking Changes must include detailed impact description
 - Bullet points with "-"
-- Max 72 chars per line
+- Max ${bodyMaxLineLength} chars per line
 - Explain what and why
 - Must be in ${language}
 - Use【】for categorizing different types of changes
-
+${getProjectRulesSection(convention)}
 ## Critical Requirements
 
 1. Output ONLY the commit message
@@ -207,7 +274,11 @@ Breaking Changes Guidelines:
 Note: The following examples are in English for demonstration purposes only. 
 Your actual output MUST be in ${language} as specified above.
 
-${getVCSExamples(vcsType, enableMergeCommit, enableEmoji)}`;
+${
+  convention?.examples?.length
+    ? getProjectExamples(convention.examples)
+    : getVCSExamples(vcsType, enableMergeCommit, enableEmoji)
+}`;
 }
 
 // Helper functions for examples generation (implementations omitted for brevity)
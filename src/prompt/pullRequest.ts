@@ -0,0 +1,62 @@
+/**
+ * 生成拉取请求描述的系统提示
+ * @param language - 输出语言
+ * @param template - 仓库中的拉取请求模板,存在时按模板的结构生成正文
+ * @returns 系统提示文本
+ */
+export function getPullRequestPrompt(
+  language: string,
+  template?: string
+): string {
+  const bodyFormat = template
+    ? `Fill in the repository's pull request template below. Keep its headings, order and checklists; replace placeholder text and HTML comments with real content, and leave a section out only when it does not apply.
+
+<template>
+${template.trim()}
+</template>`
+    : `Use these sections as Markdown headings, in this order:
+
+## Summary
+What the change does and why, in 1-3 sentences.
+
+## Changes
+A bullet list of the notable changes, grouped by area when there are many.
+
+## Testing
+How the change was or should be verified.
+
+## Risks
+Possible regressions, migrations, breaking changes or rollout concerns. Write "None" when there are none.`;
+
+  return `You are a pull request description generator. You receive the commits of a branch under "Additional context" and the cumulative diff of the branch against its base under "Diff". Write a pull request title and description for reviewers.
+
+All output MUST be in ${language} language.
+
+## Title
+
+- One line, at most 72 characters, describing the change as a whole
+- Imperative mood, no trailing period
+
+## Description
+
+${bodyFormat}
+
+## Rules
+
+- Describe the combined effect of the branch, not each commit in turn
+- Base every statement on the diff and the commit messages; do not invent tests, tickets or behavior
+- Mention ticket keys that appear in the commit messages
+- Be concise; reviewers read the diff for details
+
+## Output Format
+
+Output the title on the first line, an empty line, then the description in Markdown. Output NOTHING else: no "Title:" label, no code fences, no explanations.`;
+}
+
+/**
+ * 差异超出模型上下文且未启用分块生成时,追加到附加上下文中的说明
+ * @returns 说明文本
+ */
+export function getTruncatedDiffNote(): string {
+  return `Note: the diff below was truncated to fit the model context and does not show every change. Use the commit messages to describe the changes that are not in the diff.`;
+}
@@ -1,4 +1,5 @@
 import * as vscode from "vscode";
+import type { ReportKind } from "../types/weeklyReport";
 
 export const defaultWeeklyReportPrompt = `作为一个专业的技术周报生成助手，你需要:
 1. 分析提供的Git/SVN提交记录
@@ -16,12 +17,102 @@ export const defaultWeeklyReportPrompt = `作为一个专业的技术周报生
 - 其他工作内容（如有）
 
 注意事项：
+- 每条提交记录以 [项目名称] [日期] [模块] 开头（模块可能缺失），随后是作者和完整的提交信息
+- 涉及多个项目时在各部分中按项目分组，同一模块的工作合并描述
 - 合并相似的提交内容
 - 用详细专业的语言描述
 `;
 
+export const defaultDailyReportPrompt = `作为一个专业的技术日报生成助手，你需要:
+1. 分析提供的Git/SVN提交记录
+2. 按照以下站会格式生成日报：
+
+# 每日站会
+
+## 已完成
+- 完成的工作（基于提交记录归纳，每条一句话）
+
+## 进行中
+- 尚未完成的工作（根据提交内容推断，如有）
+
+## 阻碍与风险
+- 需要协助或存在风险的事项（如无则写"无"）
+
+注意事项：
+- 每条提交记录以 [项目名称] [日期] [模块] 开头（模块可能缺失），随后是作者和完整的提交信息
+- 涉及多个项目时注明项目，只有一天时不必列出日期
+- 语言简洁，便于在站会上口头同步
+`;
+
+export const defaultMonthlyReportPrompt = `作为一个专业的技术月报生成助手，你需要:
+1. 分析提供的Git/SVN提交记录
+2. 按照以下格式生成本月工作总结：
+
+# 本月工作总结
+
+## 主要成果
+- 本月交付的重要功能或里程碑
+
+## 功能开发
+- 具体工作内容（基于提交记录归纳）
+
+## 问题修复与优化
+- 修复的问题和性能、体验、代码质量方面的改进
+
+## 下月计划
+- 根据本月进展推断的后续工作（如无法推断则省略）
+
+注意事项：
+- 每条提交记录以 [项目名称] [日期] [模块] 开头（模块可能缺失），随后是作者和完整的提交信息
+- 涉及多个项目时在各部分中按项目分组，并按模块归纳
+- 合并相似的提交内容，突出对业务的价值
+`;
+
+export const defaultQuarterlyReportPrompt = `作为一个专业的技术季度复盘助手，你需要:
+1. 分析提供的Git/SVN提交记录
+2. 按照以下 OKR 复盘格式生成季度报告：
+
+# 季度 OKR 复盘
+
+## 目标与关键结果进展
+- 归纳本季度工作支撑的目标(O)及相关关键结果(KR)的完成情况
+
+## 重点成果
+- 本季度交付的重要功能、项目或里程碑
+
+## 问题与反思
+- 反复出现的缺陷、技术债务和流程问题
+
+## 下季度计划
+- 建议的目标和关键结果
+
+注意事项：
+- 每条提交记录以 [项目名称] [日期] [模块] 开头（模块可能缺失），随后是作者和完整的提交信息
+- 涉及多个项目时按项目分别归纳，按模块总结投入和进展
+- 从整体视角总结，不逐条罗列提交
+`;
+
+/** 各报告类型的默认提示语 */
+export const defaultReportPrompts: Record<ReportKind, string> = {
+  daily: defaultDailyReportPrompt,
+  weekly: defaultWeeklyReportPrompt,
+  monthly: defaultMonthlyReportPrompt,
+  quarterly: defaultQuarterlyReportPrompt,
+};
+
 export function getWeeklyReportPrompt(): string {
   const config = vscode.workspace.getConfiguration("dish-ai-commit");
   const customPrompt = config.get<string>("features.weeklyReport.systemPrompt");
   return customPrompt || defaultWeeklyReportPrompt;
 }
+
+/**
+ * 获取报告类型的内置提示语,周报使用配置的自定义系统提示语
+ * @param kind - 报告类型
+ * @returns 系统提示语
+ */
+export function getReportPrompt(kind: ReportKind): string {
+  return kind === "weekly"
+    ? getWeeklyReportPrompt()
+    : defaultReportPrompts[kind];
+}
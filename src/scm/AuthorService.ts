@@ -1,10 +1,7 @@
 import * as vscode from "vscode";
-import { promisify } from "util";
-import { exec } from "child_process";
 import { SvnUtils } from "./SvnUtils";
 import { getMessage } from "../utils/i18n";
-
-const execAsync = promisify(exec);
+import { ProcessExecutor } from "../utils/process";
 
 /**
  * 作者服务类
@@ -34,7 +31,11 @@ export class AuthorService {
    * @returns Git配置中的用户名
    */
   private async getGitAuthor(): Promise<string> {
-    const { stdout } = await execAsync("git config user.name");
+    const { stdout } = await ProcessExecutor.run(
+      "git",
+      ["config", "user.name"],
+      { cwd: this.workspacePath }
+    );
     return stdout.trim();
   }
 
@@ -1,21 +1,19 @@
-import { exec } from "child_process";
-import { promisify } from "util";
-import { ISCMProvider } from "./SCMProvider";
-import { getMessage } from "../utils";
-
-const execAsync = promisify(exec);
+import { ISCMProvider, type CommitHistoryEntry } from "./SCMProvider";
+import { SvnUtils } from "./SvnUtils";
+import { CommitGuardRegistry } from "./CommitGuard";
+import { getMessage, formatMessage, ProcessExecutor } from "../utils";
 
 export class CliSvnProvider implements ISCMProvider {
   type: "svn" = "svn";
-  private workspaceRoot: string;
+  readonly rootPath: string;
 
-  constructor(workspaceRoot: string) {
-    this.workspaceRoot = workspaceRoot;
+  constructor(rootPath: string) {
+    this.rootPath = rootPath;
   }
 
   async isAvailable(): Promise<boolean> {
     try {
-      await execAsync("svn --version");
+      await ProcessExecutor.run("svn", ["--version"]);
       return true;
     } catch {
       return false;
@@ -24,10 +22,12 @@ export class CliSvnProvider implements ISCMProvider {
 
   async getDiff(files?: string[]): Promise<string | undefined> {
     try {
-      const filePaths = files?.join(" ") || ".";
-      const { stdout } = await execAsync(`svn diff ${filePaths}`, {
-        cwd: this.workspaceRoot,
-      });
+      const filePaths = files?.length ? files : ["."];
+      const { stdout } = await ProcessExecutor.run(
+        "svn",
+        ["diff", "--", ...filePaths],
+        { cwd: this.rootPath }
+      );
       return stdout;
     } catch (error) {
       console.error("Failed to get SVN diff:", error);
@@ -36,10 +36,14 @@ export class CliSvnProvider implements ISCMProvider {
   }
 
   async commit(message: string, files?: string[]): Promise<void> {
-    const filePaths = files?.join(" ") || ".";
-    await execAsync(`svn commit -m "${message}" ${filePaths}`, {
-      cwd: this.workspaceRoot,
-    });
+    await CommitGuardRegistry.check(this, message, files);
+    const filePaths = files?.length ? files : ["."];
+    // 提交可能需要等待网络和服务器钩子,不限制执行时间
+    await ProcessExecutor.run(
+      "svn",
+      ["commit", "-m", message, "--", ...filePaths],
+      { cwd: this.rootPath, timeout: 0 }
+    );
   }
 
   // 由于是命令行方式,这两个方法可能用不到,但需要实现接口
@@ -50,4 +54,90 @@ export class CliSvnProvider implements ISCMProvider {
   async getCommitInput(): Promise<string> {
     return "";
   }
+
+  async getChangelists(): Promise<Map<string, string[]>> {
+    const { stdout } = await ProcessExecutor.run("svn", ["status"], {
+      cwd: this.rootPath,
+    });
+    return SvnUtils.parseChangelists(stdout, this.rootPath);
+  }
+
+  async getChangelistName(files?: string[]): Promise<string | undefined> {
+    try {
+      return SvnUtils.findChangelist(
+        await this.getChangelists(),
+        this.rootPath,
+        files
+      );
+    } catch (error) {
+      console.error("Failed to get SVN changelists:", error);
+      return undefined;
+    }
+  }
+
+  async getCommitHistory(range: string): Promise<CommitHistoryEntry[]> {
+    const { stdout } = await ProcessExecutor.run(
+      "svn",
+      ["log", "-r", SvnUtils.parseRevisionRange(range), "--xml"],
+      { cwd: this.rootPath }
+    );
+    return SvnUtils.parseLogEntries(stdout);
+  }
+
+  async getRevision(): Promise<string | undefined> {
+    try {
+      const { stdout } = await ProcessExecutor.run(
+        "svn",
+        ["info", "--show-item", "revision"],
+        { cwd: this.rootPath }
+      );
+      return stdout.trim() || undefined;
+    } catch (error) {
+      console.error("Failed to get SVN revision:", error);
+      return undefined;
+    }
+  }
+
+  async getCommitDiff(id: string): Promise<string> {
+    const { stdout } = await ProcessExecutor.run("svn", ["diff", "-c", id], {
+      cwd: this.rootPath,
+    });
+    return stdout;
+  }
+
+  async rewriteCommitMessages(entries: CommitHistoryEntry[]): Promise<void> {
+    const failures: string[] = [];
+    let lastError: unknown;
+    for (const entry of entries) {
+      try {
+        await ProcessExecutor.run(
+          "svn",
+          // 以 "--" 结束选项,以 "-" 开头的提交信息不会被当作选项
+          [
+            "propset",
+            "--revprop",
+            "-r",
+            entry.id,
+            "--",
+            "svn:log",
+            entry.message,
+          ],
+          { cwd: this.rootPath }
+        );
+      } catch (error) {
+        console.error(`Failed to set svn:log of r${entry.id}:`, error);
+        failures.push(`r${entry.id}`);
+        lastError = error;
+      }
+    }
+
+    if (failures.length > 0) {
+      throw new Error(
+        formatMessage("history.svn.revprop.failed", [
+          failures.join(", "),
+          lastError instanceof Error ? lastError.message : String(lastError),
+        ])
+      );
+    }
+  }
 }
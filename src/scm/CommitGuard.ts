@@ -0,0 +1,71 @@
+import * as vscode from "vscode";
+import type { ISCMProvider } from "./SCMProvider";
+import { getMessage } from "../utils/i18n";
+
+/**
+ * 提交前检查
+ * 在通过 ISCMProvider.commit 提交前检查即将提交的变更
+ */
+export interface CommitGuard {
+  /**
+   * 检查即将提交的变更
+   * @param {ISCMProvider} scmProvider - 执行提交的SCM提供程序
+   * @param {string} message - 提交信息
+   * @param {string[]} [files] - 提交的文件,未指定时提交所有变更
+   * @returns {Promise<boolean>} 是否允许提交
+   */
+  check(
+    scmProvider: ISCMProvider,
+    message: string,
+    files?: string[]
+  ): Promise<boolean>;
+}
+
+/**
+ * 提交被提交前检查取消时抛出的错误
+ */
+export class CommitBlockedError extends Error {
+  constructor(message = getMessage("commit.gate.blocked")) {
+    super(message);
+    this.name = "CommitBlockedError";
+  }
+}
+
+/**
+ * 提交前检查注册表
+ * Git 和 SVN 提供程序在提交前依次执行所有已注册的检查
+ */
+export class CommitGuardRegistry {
+  private static guards: CommitGuard[] = [];
+
+  /**
+   * 注册提交前检查
+   * @param {CommitGuard} guard - 提交前检查
+   * @returns {vscode.Disposable} 释放时取消注册
+   */
+  static register(guard: CommitGuard): vscode.Disposable {
+    this.guards.push(guard);
+    return new vscode.Disposable(() => {
+      this.guards = this.guards.filter((item) => item !== guard);
+    });
+  }
+
+  /**
+   * 依次执行所有提交前检查
+   * @param {ISCMProvider} scmProvider - 执行提交的SCM提供程序
+   * @param {string} message - 提交信息
+   * @param {string[]} [files] - 提交的文件,未指定时提交所有变更
+   * @throws {CommitBlockedError} 任一检查不允许提交时抛出
+   */
+  static async check(
+    scmProvider: ISCMProvider,
+    message: string,
+    files?: string[]
+  ): Promise<void> {
+    for (const guard of this.guards) {
+      if (!(await guard.check(scmProvider, message, files))) {
+        throw new CommitBlockedError();
+      }
+    }
+  }
+}
@@ -1,7 +1,15 @@
-import { exec } from "child_process";
-import { promisify } from "util";
+import { ProcessExecutor } from "../utils/process";
+import { SvnUtils } from "./SvnUtils";
+import { formatMessage } from "../utils/i18n";
+import type {
+  CommitFileChange,
+  CommitHistoryEntry,
+  CommitRecord,
+} from "./SCMProvider";
 
-const execAsync = promisify(exec);
+/** git log 输出中的字段分隔符和记录分隔符 */
+const FIELD_SEPARATOR = "\x1f";
+const RECORD_SEPARATOR = "\x1e";
 
 /**
  * 表示一个时间段的接口
@@ -13,6 +21,16 @@ interface Period {
   endDate: string;
 }
 
+/**
+ * 提交记录的筛选条件
+ */
+export interface CommitFilter {
+  /** 作者名及其别名,匹配其中任意一个的提交 */
+  authors: string[];
+  /** 排除的提交信息模式,如合并提交 */
+  excludePatterns?: RegExp[];
+}
+
 /**
  * 提交日志策略接口
  * 定义了获取代码提交记录的统一接口
@@ -22,14 +40,27 @@ export interface CommitLogStrategy {
    * 获取指定时间段内指定作者的提交记录
    * @param workspacePath 工作区路径
    * @param period 时间段
-   * @param author 作者名
-   * @returns 提交记录数组
+   * @param filter 作者及排除的提交
+   * @returns 包含完整提交信息和变更文件的提交记录数组
    */
   getCommits(
     workspacePath: string,
     period: Period,
-    author: string
-  ): Promise<string[]>;
+    filter: CommitFilter
+  ): Promise<CommitRecord[]>;
+
+  /**
+   * 获取两个标签或修订版本之间的提交记录
+   * @param workspacePath 工作区路径
+   * @param from 起始标签或修订版本
+   * @param to 结束标签或修订版本
+   * @returns 提交记录,按从旧到新排列
+   */
+  getCommitsInRange(
+    workspacePath: string,
+    from: string,
+    to: string
+  ): Promise<CommitHistoryEntry[]>;
 }
 
 /**
@@ -40,20 +71,140 @@ export class GitCommitStrategy implements CommitLogStrategy {
    * 获取Git仓库的提交记录
    * @param workspacePath Git仓库路径
    * @param period 查询的时间段
-   * @param author 提交作者
-   * @returns 格式化后的提交记录数组
+   * @param filter 作者及排除的提交,作者按 git log --author 匹配名称或邮箱
+   * @returns 提交记录数组,包含完整提交信息和每个变更文件的增删行数
    */
   async getCommits(
     workspacePath: string,
     period: Period,
-    author: string
-  ): Promise<string[]> {
-    // 构建git log命令,格式化输出提交信息
-    const command = `git log --since="${period.startDate}" --until="${period.endDate}" --pretty=format:"%h - %an, %ar : %s" --author="${author}"`;
+    filter: CommitFilter
+  ): Promise<CommitRecord[]> {
+    // 没有 --author 时 git log 返回所有人的提交
+    if (filter.authors.length === 0) {
+      return [];
+    }
 
-    console.log("command", command);
-    const { stdout } = await execAsync(command, { cwd: workspacePath });
-    return stdout.split("\n").filter((line) => line.trim());
+    // 每条记录以记录分隔符开头,提交信息后的字段分隔符之后是 --numstat 输出
+    const { stdout } = await ProcessExecutor.run(
+      "git",
+      [
+        "log",
+        `--since=${period.startDate}`,
+        `--until=${period.endDate}`,
+        // 多个 --author 匹配其中任意一个
+        ...filter.authors.map((author) => `--author=${author}`),
+        "--numstat",
+        `--format=${RECORD_SEPARATOR}%H${FIELD_SEPARATOR}%an${FIELD_SEPARATOR}%aI${FIELD_SEPARATOR}%B${FIELD_SEPARATOR}`,
+      ],
+      { cwd: workspacePath }
+    );
+
+    return stdout
+      .split(RECORD_SEPARATOR)
+      .filter((record) => record.trim())
+      .map((record) => {
+        const [id, author, date, message, numstat = ""] =
+          record.split(FIELD_SEPARATOR);
+        return {
+          id,
+          author,
+          date,
+          message: message.trim(),
+          files: this.parseNumstat(numstat),
+        };
+      })
+      .filter(
+        (record) =>
+          !filter.excludePatterns?.some((pattern) =>
+            pattern.test(record.message)
+          )
+      );
+  }
+
+  /**
+   * 解析 git log --numstat 输出的变更文件
+   * @param numstat --numstat 输出,每行为新增行数、删除行数和文件路径
+   * @returns 变更的文件,重命名的文件使用新路径
+   */
+  private parseNumstat(numstat: string): CommitFileChange[] {
+    const files: CommitFileChange[] = [];
+    for (const line of numstat.split("\n")) {
+      // 二进制文件的增删行数为 "-"
+      const stat = line.match(/^(\d+|-)\t(\d+|-)\t(.+)$/);
+      if (stat) {
+        files.push({
+          // 重命名显示为 "src/{old => new}/a.ts" 或 "old => new"
+          path: stat[3]
+            .replace(/\{[^{}]* => ([^{}]*)\}/g, "$1")
+            .replace(/^.* => /, "")
+            .replace(/\/{2,}/g, "/"),
+          insertions: Number(stat[1]) || 0,
+          deletions: Number(stat[2]) || 0,
+        });
+      }
+    }
+    return files;
+  }
+
+  /**
+   * 获取Git仓库中两个引用之间的提交记录,不包含合并提交
+   * @param workspacePath Git仓库路径
+   * @param from 起始引用(不包含),为空时从第一个提交开始
+   * @param to 结束引用(包含)
+   * @returns 提交记录,按从旧到新排列
+   * @throws {Error} 当引用以 "-" 开头或执行log命令失败时抛出错误
+   */
+  async getCommitsInRange(
+    workspacePath: string,
+    from: string,
+    to: string
+  ): Promise<CommitHistoryEntry[]> {
+    // 以 "-" 开头的引用会被 git 当作选项解析,如 "--output=<file>"
+    const invalid = [from, to].find((ref) => ref.trim().startsWith("-"));
+    if (invalid !== undefined) {
+      throw new Error(formatMessage("git.revision.invalid", [invalid]));
+    }
+
+    const { stdout } = await ProcessExecutor.run(
+      "git",
+      [
+        "log",
+        "--reverse",
+        "--no-merges",
+        `--format=%H${FIELD_SEPARATOR}%an${FIELD_SEPARATOR}%aI${FIELD_SEPARATOR}%B${RECORD_SEPARATOR}`,
+        from ? `${from}..${to}` : to,
+        "--",
+      ],
+      { cwd: workspacePath }
+    );
+
+    return stdout
+      .split(RECORD_SEPARATOR)
+      .filter((record) => record.trim())
+      .map((record) => {
+        const [id, author, date, message] = record
+          .replace(/^\n/, "")
+          .split(FIELD_SEPARATOR);
+        return { id, author, date, message: message.trim() };
+      });
+  }
+
+  /**
+   * 获取当前分支上最近的标签
+   * @param workspacePath Git仓库路径
+   * @returns 标签名称,没有标签时返回undefined
+   */
+  async getLatestTag(workspacePath: string): Promise<string | undefined> {
+    try {
+      const { stdout } = await ProcessExecutor.run(
+        "git",
+        ["describe", "--tags", "--abbrev=0"],
+        { cwd: workspacePath }
+      );
+      return stdout.trim() || undefined;
+    } catch {
+      return undefined;
+    }
   }
 }
 
@@ -65,40 +216,44 @@ export class SvnCommitStrategy implements CommitLogStrategy {
    * 获取SVN仓库的提交记录
    * @param workspacePath SVN仓库路径
    * @param period 查询的时间段
-   * @param author 提交作者
-   * @returns 解析后的提交记录数组
+   * @param filter 作者及排除的提交,作者与日志中的作者完全匹配(不区分大小写)
+   * @returns 包含完整提交信息和变更路径的提交记录数组
    */
   async getCommits(
     workspacePath: string,
     period: Period,
-    author: string
-  ): Promise<string[]> {
-    // 构建svn log命令,使用XML格式输出
-    const command = `svn log -r "{${period.startDate}}:{${period.endDate}}" --search="${author}" --xml`;
-
-    const { stdout } = await execAsync(command, { cwd: workspacePath });
-    return this.parseXmlLogs(stdout);
+    filter: CommitFilter
+  ): Promise<CommitRecord[]> {
+    return SvnUtils.getLogRecords(
+      workspacePath,
+      { start: period.startDate, end: period.endDate },
+      filter.authors,
+      filter.excludePatterns
+    );
   }
 
   /**
-   * 解析SVN的XML格式日志输出
-   * @param xmlOutput XML格式的SVN日志输出
-   * @returns 提取的提交消息数组
+   * 获取SVN仓库中两个修订版本之间的提交记录
+   * @param workspacePath SVN仓库路径
+   * @param from 起始修订版本(包含)
+   * @param to 结束修订版本(包含),为空时到HEAD为止
+   * @returns 提交记录,按从旧到新排列
    */
-  private parseXmlLogs(xmlOutput: string): string[] {
-    const commits: string[] = [];
-    // 匹配<logentry>标签内的<msg>内容
-    const logEntriesRegex =
-      /<logentry[^>]*>[\s\S]*?<msg>([\s\S]*?)<\/msg>[\s\S]*?<\/logentry>/g;
-    let match;
-
-    // 循环提取所有匹配的提交消息
-    while ((match = logEntriesRegex.exec(xmlOutput)) !== null) {
-      if (match[1]?.trim()) {
-        commits.push(match[1].trim());
-      }
-    }
-
-    return commits;
+  async getCommitsInRange(
+    workspacePath: string,
+    from: string,
+    to: string
+  ): Promise<CommitHistoryEntry[]> {
+    const { stdout } = await ProcessExecutor.run(
+      "svn",
+      [
+        "log",
+        "-r",
+        SvnUtils.parseRevisionRange(to ? `${from}:${to}` : from),
+        "--xml",
+      ],
+      { cwd: workspacePath }
+    );
+    return SvnUtils.parseLogEntries(stdout);
   }
 }
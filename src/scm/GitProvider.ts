@@ -1,11 +1,33 @@
 import * as vscode from "vscode";
-import { ISCMProvider } from "./SCMProvider";
-import { promisify } from "util";
-import * as childProcess from "child_process";
+import {
+  ISCMProvider,
+  SCMFactory,
+  type BranchChanges,
+  type CommitHistoryEntry,
+} from "./SCMProvider";
+import * as path from "path";
 import { DiffSimplifier } from "../utils/diff/DiffSimplifier";
+import { CommitGuardRegistry } from "./CommitGuard";
 import { getMessage, formatMessage } from "../utils/i18n";
+import { ProcessExecutionError, ProcessExecutor } from "../utils/process";
 
-const exec = promisify(childProcess.exec);
+/**
+ * 差异来源
+ * - staged: 仅暂存区的变更
+ * - workingTree: 工作区中所有已跟踪文件相对HEAD的变更
+ * - stagedAndUntracked: 暂存区的变更及未跟踪文件的内容
+ */
+type DiffSource = "staged" | "workingTree" | "stagedAndUntracked";
+
+/** git log 输出中的字段分隔符和记录分隔符 */
+const FIELD_SEPARATOR = "\x1f";
+const RECORD_SEPARATOR = "\x1e";
+
+/** git log 的输出格式:哈希、父提交、作者、提交时间和提交信息 */
+const LOG_FORMAT = `--format=%H${FIELD_SEPARATOR}%P${FIELD_SEPARATOR}%an${FIELD_SEPARATOR}%aI${FIELD_SEPARATOR}%B${RECORD_SEPARATOR}`;
+
+/** 无法确定远程默认分支时依次尝试的目标分支 */
+const BASE_BRANCH_CANDIDATES = ["main", "master", "develop"];
 
 /**
  * Git API接口定义
@@ -19,17 +41,34 @@ interface GitAPI {
    * @param version - API版本号
    */
   getAPI(version: number): GitAPI;
+
+  /**
+   * 获取包含指定路径的仓库
+   * @param uri - 文件或目录URI
+   */
+  getRepository(uri: vscode.Uri): GitRepository | null;
 }
 
 /**
  * Git仓库接口定义
  */
 interface GitRepository {
+  /** 仓库根目录 */
+  rootUri: vscode.Uri;
+
   /** 提交信息输入框 */
   inputBox: {
     value: string;
   };
 
+  /** 仓库状态 */
+  state: {
+    /** 当前检出的引用,分离头指针时没有名称 */
+    HEAD?: {
+      name?: string;
+    };
+  };
+
   /**
    * 执行提交操作
    * @param message - 提交信息
@@ -49,8 +88,8 @@ export class GitProvider implements ISCMProvider {
   /** SCM类型标识符 */
   type = "git" as const;
 
-  /** 工作区根目录路径 */
-  private workspaceRoot: string;
+  /** 仓库根目录路径 */
+  readonly rootPath: string;
 
   /** Git API实例 */
   private readonly api: GitAPI;
@@ -58,25 +97,48 @@ export class GitProvider implements ISCMProvider {
   /**
    * 创建Git提供者实例
    * @param gitExtension - VS Code Git扩展实例
-   * @throws {Error} 当未找到工作区时抛出错误
+   * @param rootPath - 仓库根目录路径
    */
-  constructor(private readonly gitExtension: any) {
+  constructor(private readonly gitExtension: any, rootPath: string) {
     this.api = gitExtension.getAPI(1);
-    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-    if (!workspaceRoot) {
-      throw new Error(getMessage("workspace.not.found"));
+    this.rootPath = rootPath;
+  }
+
+  /**
+   * 查找当前提供者对应的Git仓库
+   * @returns {GitRepository | undefined} Git扩展中对应的仓库实例
+   * @private
+   */
+  private findRepository(): GitRepository | undefined {
+    const api: GitAPI = this.gitExtension.getAPI(1);
+    return (
+      api.getRepository?.(vscode.Uri.file(this.rootPath)) ??
+      api.repositories.find((repository) =>
+        SCMFactory.isPathInside(this.rootPath, repository.rootUri.fsPath)
+      )
+    );
+  }
+
+  /**
+   * 获取当前提供者对应的Git仓库
+   * @returns {GitRepository} Git扩展中对应的仓库实例
+   * @throws {Error} 当未找到仓库时抛出错误
+   * @private
+   */
+  private getRepository(): GitRepository {
+    const repository = this.findRepository();
+    if (!repository) {
+      throw new Error(getMessage("git.repository.not.found"));
     }
-    this.workspaceRoot = workspaceRoot;
+    return repository;
   }
 
   /**
    * 检查Git是否可用
-   * @returns {Promise<boolean>} 如果Git可用返回true,否则返回false
+   * @returns {Promise<boolean>} 如果Git扩展已打开该仓库返回true,否则返回false
    */
   async isAvailable(): Promise<boolean> {
-    const api = this.gitExtension.getAPI(1);
-    const repositories = api.repositories;
-    return repositories.length > 0;
+    return !!this.findRepository();
   }
 
   /**
@@ -87,12 +149,7 @@ export class GitProvider implements ISCMProvider {
    */
   private async getFileStatus(file: string): Promise<string> {
     try {
-      const { stdout: status } = await exec(
-        `git status --porcelain "${file}"`,
-        {
-          cwd: this.workspaceRoot,
-        }
-      );
+      const status = await this.execGit(["status", "--porcelain", "--", file]);
 
       if (!status) {
         return "Unknown";
@@ -114,8 +171,123 @@ export class GitProvider implements ISCMProvider {
     }
   }
 
+  /**
+   * 根据配置确定差异来源
+   * auto模式下,选中文件(或整个仓库)存在暂存的变更时使用暂存区,否则使用工作区
+   * @param {string[]} [files] - 可选的文件路径数组
+   * @returns {Promise<DiffSource>} 差异来源
+   * @private
+   */
+  private async resolveDiffSource(files?: string[]): Promise<DiffSource> {
+    const config = vscode.workspace.getConfiguration("dish-ai-commit");
+    const source = config.get<string>(
+      "features.codeAnalysis.diffSource",
+      "auto"
+    );
+    if (source !== "auto") {
+      return source as DiffSource;
+    }
+
+    const stdout = await this.execGit([
+      "diff",
+      "--cached",
+      "--name-only",
+      ...this.formatPathspec(files),
+    ]);
+    return stdout.trim() ? "staged" : "workingTree";
+  }
+
+  /**
+   * 将文件列表转换为命令参数中的路径
+   * @param {string[]} [files] - 可选的文件路径数组
+   * @returns {string[]} 以"--"开头的路径参数,未指定文件时返回空数组
+   * @private
+   */
+  private formatPathspec(files?: string[]): string[] {
+    return files?.length ? ["--", ...files] : [];
+  }
+
+  /**
+   * 获取未跟踪文件的完整内容作为新增文件的差异
+   * @param {string} file - 文件路径
+   * @returns {Promise<string>} 差异文本
+   * @private
+   */
+  private async getUntrackedDiff(file: string): Promise<string> {
+    try {
+      return await this.execGit([
+        "diff",
+        "--no-index",
+        ...this.formatPathspec([
+          "/dev/null",
+          path.relative(this.rootPath, path.resolve(this.rootPath, file)),
+        ]),
+      ]);
+    } catch (error) {
+      // 存在差异时 git diff --no-index 以退出码1结束
+      if (error instanceof ProcessExecutionError && error.exitCode === 1) {
+        return error.stdout;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 获取仓库中所有未跟踪的文件(遵循 .gitignore)
+   * @returns {Promise<string[]>} 相对于仓库根目录的文件路径
+   * @private
+   */
+  private async getUntrackedFiles(): Promise<string[]> {
+    const stdout = await this.execGit([
+      "ls-files",
+      "--others",
+      "--exclude-standard",
+    ]);
+    return stdout.split("\n").filter((file) => file.trim());
+  }
+
+  /**
+   * 获取差异来源中的原始差异
+   * @param {DiffSource} source - 差异来源
+   * @param {string[]} [files] - 可选的文件路径数组,未指定时获取所有更改
+   * @returns {Promise<string>} 差异文本
+   * @private
+   */
+  private async getSourceDiff(
+    source: DiffSource,
+    files?: string[]
+  ): Promise<string> {
+    let diff = await this.execGit([
+      "diff",
+      source === "workingTree" ? "HEAD" : "--cached",
+      ...this.formatPathspec(files),
+    ]);
+    if (source === "stagedAndUntracked") {
+      const selected = files?.map((file) => path.resolve(this.rootPath, file));
+      for (const file of await this.getUntrackedFiles()) {
+        if (!selected || selected.includes(path.resolve(this.rootPath, file))) {
+          diff += await this.getUntrackedDiff(file);
+        }
+      }
+    }
+    return diff;
+  }
+
+  /**
+   * 获取原始差异
+   * 与 getDiff 使用相同的差异来源,但不简化差异、不添加文件状态标记,
+   * 拆分后的变更块可以重新组合为 git apply 能应用的补丁
+   * @param {string[]} [files] - 可选的文件路径数组,未指定时获取所有更改
+   * @returns {Promise<string>} 差异文本,没有更改时为空字符串
+   * @throws {Error} 当执行diff命令失败时抛出错误
+   */
+  async getRawDiff(files?: string[]): Promise<string> {
+    return this.getSourceDiff(await this.resolveDiffSource(files), files);
+  }
+
   /**
    * 获取文件差异信息
+   * 差异来源由 features.codeAnalysis.diffSource 配置决定
    * @param {string[]} [files] - 可选的文件路径数组
    * @returns {Promise<string | undefined>} 返回差异文本
    * @throws {Error} 当执行diff命令失败时抛出错误
@@ -123,12 +295,13 @@ export class GitProvider implements ISCMProvider {
   async getDiff(files?: string[]): Promise<string | undefined> {
     try {
       let diffOutput = "";
+      const source = await this.resolveDiffSource(files);
+      const diffArgs = source === "workingTree" ? "HEAD" : "--cached";
 
       if (files && files.length > 0) {
         // 处理指定文件的差异
         for (const file of files) {
           const fileStatus = await this.getFileStatus(file);
-          const escapedFile = file.replace(/"/g, '\\"');
 
           // 对于删除的文件不获取diff内容
           if (fileStatus === "Deleted File") {
@@ -136,11 +309,18 @@ export class GitProvider implements ISCMProvider {
             continue;
           }
 
-          // 执行单个文件的diff命令
-          const { stdout } = await exec(`git diff HEAD -- "${escapedFile}"`, {
-            cwd: this.workspaceRoot,
-            maxBuffer: 1024 * 1024 * 10,
-          });
+          let stdout = "";
+          if (fileStatus !== "New File") {
+            // 执行单个文件的diff命令
+            stdout = await this.execGit([
+              "diff",
+              diffArgs,
+              ...this.formatPathspec([file]),
+            ]);
+          } else if (source === "stagedAndUntracked") {
+            // 未跟踪的文件仅在包含未跟踪文件时获取完整内容
+            stdout = await this.getUntrackedDiff(file);
+          }
 
           // 添加文件状态和差异信息
           if (stdout.trim()) {
@@ -149,11 +329,7 @@ export class GitProvider implements ISCMProvider {
         }
       } else {
         // 获取所有更改的差异
-        const { stdout } = await exec("git diff HEAD", {
-          cwd: this.workspaceRoot,
-          maxBuffer: 1024 * 1024 * 10,
-        });
-        diffOutput = stdout;
+        diffOutput = await this.getSourceDiff(source);
       }
 
       if (!diffOutput.trim()) {
@@ -196,15 +372,11 @@ export class GitProvider implements ISCMProvider {
    * @param {string} message - 提交信息
    * @param {string[]} [files] - 要提交的文件路径数组
    * @throws {Error} 当提交失败或未找到仓库时抛出错误
+   * @throws {CommitBlockedError} 当提交前检查不允许提交时抛出错误
    */
   async commit(message: string, files?: string[]): Promise<void> {
-    const api = this.gitExtension.getAPI(1);
-    const repository = api.repositories[0];
-
-    if (!repository) {
-      throw new Error(getMessage("git.repository.not.found"));
-    }
-
+    const repository = this.getRepository();
+    await CommitGuardRegistry.check(this, message, files);
     await repository.commit(message, { all: files ? false : true, files });
   }
 
@@ -214,13 +386,7 @@ export class GitProvider implements ISCMProvider {
    * @throws {Error} 当未找到仓库时抛出错误
    */
   async setCommitInput(message: string): Promise<void> {
-    const api = this.gitExtension.getAPI(1);
-    const repository = api.repositories[0];
-
-    if (!repository) {
-      throw new Error(getMessage("git.repository.not.found"));
-    }
-
+    const repository = this.getRepository();
     repository.inputBox.value = message;
   }
 
@@ -230,13 +396,325 @@ export class GitProvider implements ISCMProvider {
    * @throws {Error} 当未找到仓库时抛出错误
    */
   async getCommitInput(): Promise<string> {
-    const api = this.gitExtension.getAPI(1);
-    const repository = api.repositories[0];
+    const repository = this.getRepository();
+    return repository.inputBox.value;
+  }
 
-    if (!repository) {
-      throw new Error(getMessage("git.repository.not.found"));
+  /**
+   * 获取当前分支名称
+   * @returns {Promise<string | undefined>} 分支名称,分离头指针时返回undefined
+   * @throws {Error} 当未找到仓库时抛出错误
+   */
+  async getBranchName(): Promise<string | undefined> {
+    const repository = this.getRepository();
+    return repository.state.HEAD?.name;
+  }
+
+  /**
+   * 获取提交范围内的历史提交
+   * 支持 "A..B" 形式的范围、单个引用(到HEAD为止)以及数字(最近N个提交)
+   * @param {string} range - 提交范围
+   * @returns {Promise<CommitHistoryEntry[]>} 历史提交,按从旧到新排列
+   * @throws {Error} 当范围无效、包含合并提交或执行log命令失败时抛出错误
+   */
+  async getCommitHistory(range: string): Promise<CommitHistoryEntry[]> {
+    this.assertRevision(range);
+    // 先限制数量再反转顺序,数量超过历史长度时返回全部提交
+    const revisions = /^\d+$/.test(range)
+      ? ["-n", range, "HEAD"]
+      : [range.includes("..") ? range : `${range}..HEAD`];
+    const output = await this.execGit([
+      "log",
+      "--reverse",
+      LOG_FORMAT,
+      ...revisions,
+      "--",
+    ]);
+
+    return this.parseLog(output).map(({ parents, ...entry }) => {
+      // 只支持重写线性历史
+      if (parents.length > 1) {
+        throw new Error(
+          formatMessage("history.git.merge.unsupported", [entry.id])
+        );
+      }
+      return entry;
+    });
+  }
+
+  /**
+   * 获取历史提交引入的差异
+   * @param {string} id - 提交哈希
+   * @returns {Promise<string>} 差异文本
+   */
+  async getCommitDiff(id: string): Promise<string> {
+    return this.execGit(["show", "--format=", "--no-color", id, "--"]);
+  }
+
+  /**
+   * 修改历史提交的提交信息
+   * 以 commit-tree 从最早的提交开始按原有的树和作者重建到HEAD为止的提交,
+   * 效果等同于只修改提交信息的 rebase,不会改动工作区和暂存区
+   * @param {CommitHistoryEntry[]} entries - 需要修改的提交及新的提交信息,按从旧到新排列
+   * @throws {Error} 当提交不在当前分支、历史中包含合并提交或HEAD已变化时抛出错误
+   */
+  async rewriteCommitMessages(entries: CommitHistoryEntry[]): Promise<void> {
+    if (entries.length === 0) {
+      return;
     }
+    const messages = new Map(entries.map((entry) => [entry.id, entry.message]));
+    const head = (await this.execGit(["rev-parse", "HEAD"])).trim();
 
-    return repository.inputBox.value;
+    // 最早的提交及其之后直到HEAD的所有提交,排除其父提交可以兼容根提交
+    const chain = (
+      await this.execGit([
+        "rev-list",
+        "--reverse",
+        "--parents",
+        "HEAD",
+        "--not",
+        `${entries[0].id}^@`,
+        "--",
+      ])
+    )
+      .split("\n")
+      .filter(Boolean)
+      .map((line) => line.split(" "));
+
+    const missing = entries.find(
+      (entry) => !chain.some(([id]) => id === entry.id)
+    );
+    if (missing) {
+      throw new Error(formatMessage("history.git.not.in.branch", [missing.id]));
+    }
+
+    let parent = chain[0][1];
+    for (const [id, ...parents] of chain) {
+      if (parents.length > 1) {
+        throw new Error(formatMessage("history.git.merge.unsupported", [id]));
+      }
+
+      const { tree, author, message } = this.parseCommitObject(
+        await this.execGit(["cat-file", "commit", id])
+      );
+      const [, name, email, date] =
+        author.match(/^(.*) <(.*)> (\d+ [+-]\d{4})$/) ?? [];
+      parent = (
+        await this.execGit(
+          ["commit-tree", tree, ...(parent ? ["-p", parent] : []), "-F", "-"],
+          {
+            input: messages.has(id) ? `${messages.get(id)!.trim()}\n` : message,
+            env: {
+              GIT_AUTHOR_NAME: name,
+              GIT_AUTHOR_EMAIL: email,
+              GIT_AUTHOR_DATE: date,
+            },
+          }
+        )
+      ).trim();
+    }
+
+    // 仅在HEAD未被其他操作修改时更新
+    await this.execGit([
+      "update-ref",
+      "-m",
+      "dish-ai-commit: rewrite commit messages",
+      "HEAD",
+      parent,
+      head,
+    ]);
+  }
+
+  /**
+   * 将补丁应用到暂存区,不修改工作区
+   * @param {string} patch - 以 git diff 格式表示的补丁
+   * @throws {Error} 当补丁无法应用时抛出错误
+   */
+  async stagePatch(patch: string): Promise<void> {
+    await this.execGit(["apply", "--cached", "--whitespace=nowarn", "-"], {
+      input: patch,
+    });
+  }
+
+  /**
+   * 暂存整个文件,包括删除的文件
+   * @param {string[]} files - 文件路径
+   * @throws {Error} 当执行add命令失败时抛出错误
+   */
+  async stageFiles(files: string[]): Promise<void> {
+    await this.execGit(["add", "-A", "--", ...files]);
+  }
+
+  /**
+   * 取消暂存所有变更,不修改工作区
+   * @throws {Error} 当执行reset命令失败时抛出错误
+   */
+  async unstageAll(): Promise<void> {
+    await this.execGit(["reset", "-q"]);
+  }
+
+  /**
+   * 获取拉取请求默认的目标分支
+   * 优先使用 origin 的默认分支,否则依次尝试常见的主干分支名
+   * @returns {Promise<string | undefined>} 分支名称,均不存在时返回undefined
+   */
+  async getDefaultBaseBranch(): Promise<string | undefined> {
+    const remoteHead = await this.execGit([
+      "symbolic-ref",
+      "--quiet",
+      "--short",
+      "refs/remotes/origin/HEAD",
+    ]).catch(() => "");
+    if (remoteHead.trim()) {
+      return remoteHead.trim();
+    }
+
+    for (const branch of BASE_BRANCH_CANDIDATES) {
+      const exists = await this.execGit([
+        "rev-parse",
+        "--verify",
+        "--quiet",
+        `refs/heads/${branch}`,
+      ]).then(
+        () => true,
+        () => false
+      );
+      if (exists) {
+        return branch;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * 获取当前分支相对目标分支的提交和累计差异
+   * 差异从两个分支的合并基础开始计算,不包含目标分支上的后续变更
+   * @param {string} base - 目标分支或其他引用
+   * @returns {Promise<BranchChanges>} 提交(不含合并提交)和累计差异
+   * @throws {Error} 当目标分支无效、不存在或累计差异超过输出大小限制时抛出错误
+   */
+  async getBranchChanges(base: string): Promise<BranchChanges> {
+    this.assertRevision(base);
+    const [log, diff] = await Promise.all([
+      this.execGit([
+        "log",
+        "--reverse",
+        "--no-merges",
+        LOG_FORMAT,
+        `${base}..HEAD`,
+        "--",
+      ]),
+      this.execGit(["diff", "--no-color", `${base}...HEAD`, "--"]).catch(
+        (error) => {
+          if (
+            error instanceof ProcessExecutionError &&
+            error.reason === "outputLimit"
+          ) {
+            throw new Error(
+              formatMessage("pullRequest.diff.too.large", [base])
+            );
+          }
+          throw error;
+        }
+      ),
+    ]);
+
+    return {
+      commits: this.parseLog(log).map(({ parents, ...entry }) => entry),
+      diff,
+    };
+  }
+
+  /**
+   * 获取 HEAD 提交的短哈希
+   * @returns {Promise<string | undefined>} 短哈希,仓库还没有提交时返回undefined
+   */
+  async getRevision(): Promise<string | undefined> {
+    const revision = await this.execGit(["rev-parse", "--short", "HEAD"]).catch(
+      () => ""
+    );
+    return revision.trim() || undefined;
+  }
+
+  /**
+   * 校验用户输入的修订版本、分支或范围
+   * 以 "-" 开头的值会被 git 当作选项解析,如 "--output=<file>"
+   * @param {string} revision - 修订版本、分支或范围
+   * @throws {Error} 当值以 "-" 开头时抛出错误
+   * @private
+   */
+  private assertRevision(revision: string): void {
+    if (revision.trim().startsWith("-")) {
+      throw new Error(formatMessage("git.revision.invalid", [revision]));
+    }
+  }
+
+  /**
+   * 解析以 LOG_FORMAT 格式输出的 git log
+   * @param {string} output - git log 输出
+   * @returns 提交及其父提交列表
+   * @private
+   */
+  private parseLog(
+    output: string
+  ): (CommitHistoryEntry & { parents: string[] })[] {
+    return output
+      .split(RECORD_SEPARATOR)
+      .filter((record) => record.trim())
+      .map((record) => {
+        const [id, parents, author, date, message] = record
+          .replace(/^\n/, "")
+          .split(FIELD_SEPARATOR);
+        return {
+          id,
+          parents: parents.split(" ").filter(Boolean),
+          author,
+          date,
+          message: message.trim(),
+        };
+      });
+  }
+
+  /**
+   * 解析 git cat-file commit 输出的提交对象
+   * @param {string} content - 提交对象内容
+   * @returns 树对象、作者行和原始提交信息
+   * @private
+   */
+  private parseCommitObject(content: string): {
+    tree: string;
+    author: string;
+    message: string;
+  } {
+    const separator = content.indexOf("\n\n");
+    const headers = content.substring(0, separator).split("\n");
+    const header = (name: string) =>
+      headers
+        .find((line) => line.startsWith(`${name} `))
+        ?.substring(name.length + 1) ?? "";
+    return {
+      tree: header("tree"),
+      author: header("author"),
+      message: separator >= 0 ? content.substring(separator + 2) : "",
+    };
+  }
+
+  /**
+   * 在仓库根目录执行Git命令,参数不经过shell解析
+   * @param {string[]} args - 命令参数
+   * @param options - 标准输入内容和额外的环境变量
+   * @returns {Promise<string>} 标准输出
+   * @throws {ProcessExecutionError} 当命令执行失败时抛出错误,错误信息为标准错误的内容
+   * @private
+   */
+  private async execGit(
+    args: string[],
+    options: { input?: string; env?: Record<string, string | undefined> } = {}
+  ): Promise<string> {
+    const { stdout } = await ProcessExecutor.run("git", args, {
+      cwd: this.rootPath,
+      ...options,
+    });
+    return stdout;
   }
 }
@@ -1,10 +1,11 @@
 import * as vscode from "vscode";
 import * as fs from "fs";
 import * as path from "path";
-import { exec } from "child_process";
 import { GitProvider } from "./GitProvider";
 import { SvnProvider } from "./SvnProvider";
 import { CliSvnProvider } from "./CliSvnProvider";
+import { getMessage } from "../utils/i18n";
+import { ProcessExecutor } from "../utils/process";
 
 /**
  * 源代码管理提供者接口
@@ -14,13 +15,16 @@ export interface ISCMProvider {
   /** SCM类型:"git" 或 "svn" */
   type: "git" | "svn";
 
+  /** 仓库根目录路径 */
+  readonly rootPath: string;
+
   /** 检查SCM系统是否可用 */
   isAvailable(): Promise<boolean>;
 
   /** 获取文件差异 */
   getDiff(files?: string[]): Promise<string | undefined>;
 
-  /** 提交更改 */
+  /** 提交更改,提交前执行已注册的提交前检查 */
   commit(message: string, files?: string[]): Promise<void>;
 
   /** 设置提交信息 */
@@ -28,24 +32,159 @@ export interface ISCMProvider {
 
   /** 获取当前提交信息 */
   getCommitInput(): Promise<string>;
+
+  /** 获取当前分支名称(Git) */
+  getBranchName?(): Promise<string | undefined>;
+
+  /** 获取文件所属的变更列表名称(SVN) */
+  getChangelistName?(files?: string[]): Promise<string | undefined>;
+
+  /** 获取工作副本中的变更列表及其文件的绝对路径(SVN) */
+  getChangelists?(): Promise<Map<string, string[]>>;
+
+  /** 获取Git提交范围或SVN修订版本范围内的历史提交,按从旧到新排列 */
+  getCommitHistory?(range: string): Promise<CommitHistoryEntry[]>;
+
+  /** 获取历史提交引入的差异 */
+  getCommitDiff?(id: string): Promise<string>;
+
+  /** 修改历史提交的提交信息,提交需按从旧到新排列 */
+  rewriteCommitMessages?(entries: CommitHistoryEntry[]): Promise<void>;
+
+  /**
+   * 获取原始差异,不简化、不添加文件状态标记,没有变更时返回空字符串
+   * 用于生成补丁和自动审查等不需要与用户交互的场景
+   */
+  getRawDiff?(files?: string[]): Promise<string>;
+
+  /** 将补丁应用到暂存区,用于部分暂存文件(Git) */
+  stagePatch?(patch: string): Promise<void>;
+
+  /** 暂存整个文件,包括删除的文件(Git) */
+  stageFiles?(files: string[]): Promise<void>;
+
+  /** 取消暂存所有变更,不修改工作区(Git) */
+  unstageAll?(): Promise<void>;
+
+  /** 获取拉取请求默认的目标分支,如远程仓库的默认分支(Git) */
+  getDefaultBaseBranch?(): Promise<string | undefined>;
+
+  /** 获取当前分支相对目标分支的提交和累计差异(Git) */
+  getBranchChanges?(base: string): Promise<BranchChanges>;
+
+  /** 获取当前的修订版本,如 HEAD 提交或工作副本的修订版本 */
+  getRevision?(): Promise<string | undefined>;
+}
+
+/**
+ * 历史提交信息
+ */
+export interface CommitHistoryEntry {
+  /** Git提交哈希或SVN修订版本号 */
+  id: string;
+  /** 提交信息 */
+  message: string;
+  /** 作者 */
+  author?: string;
+  /** 提交时间(ISO 8601) */
+  date?: string;
+}
+
+/**
+ * 提交中变更的文件
+ */
+export interface CommitFileChange {
+  /** 文件路径,Git为相对仓库根目录的路径,SVN为仓库中的路径 */
+  path: string;
+  /** 变更类型,SVN为 A、M、D 或 R,Git日志不包含变更类型 */
+  action?: string;
+  /** 新增行数,二进制文件和SVN日志中为0 */
+  insertions: number;
+  /** 删除行数,二进制文件和SVN日志中为0 */
+  deletions: number;
+}
+
+/**
+ * 包含完整提交信息和变更文件的提交记录
+ */
+export interface CommitRecord extends CommitHistoryEntry {
+  /** 作者 */
+  author: string;
+  /** 提交时间(ISO 8601) */
+  date: string;
+  /** 变更的文件 */
+  files: CommitFileChange[];
+}
+
+/**
+ * 当前分支相对目标分支的变更
+ */
+export interface BranchChanges {
+  /** 当前分支上目标分支没有的提交,按从旧到新排列 */
+  commits: CommitHistoryEntry[];
+  /** 自两个分支的合并基础以来的累计差异 */
+  diff: string;
+}
+
+/**
+ * 检测到的仓库信息
+ */
+export interface SCMRepositoryInfo {
+  /** SCM类型 */
+  type: "git" | "svn";
+  /** 仓库根目录 */
+  rootPath: string;
 }
 
 /**
  * SCM工厂类
  * 用于创建和管理源代码管理提供者实例
+ * 支持多根工作区以及同一工作区内的多个Git/SVN仓库
  */
 export class SCMFactory {
-  /** 当前激活的SCM提供者实例 */
+  /** 最近一次使用的SCM提供者实例 */
   private static currentProvider: ISCMProvider | undefined;
 
+  /**
+   * 按仓库根目录缓存的SCM提供者实例
+   * - key: 规范化后的仓库根目录
+   * - value: 提供者实例
+   */
+  private static providers: Map<string, ISCMProvider> = new Map();
+
+  /**
+   * 规范化路径,用于路径比较和缓存键
+   * @param fsPath 文件系统路径
+   * @returns 规范化后的路径
+   */
+  private static normalizePath(fsPath: string): string {
+    const normalized = path.resolve(fsPath);
+    return process.platform === "win32" ? normalized.toLowerCase() : normalized;
+  }
+
+  /**
+   * 判断路径是否位于指定目录内(包含目录本身)
+   * @param target 目标路径
+   * @param root 目录路径
+   * @returns 是否位于目录内
+   */
+  static isPathInside(target: string, root: string): boolean {
+    const relative = path.relative(
+      this.normalizePath(root),
+      this.normalizePath(target)
+    );
+    return (
+      relative === "" ||
+      (!relative.startsWith("..") && !path.isAbsolute(relative))
+    );
+  }
+
   /**
    * 通过项目目录检测SCM类型
    * @param workspaceRoot 工作区根目录
    * @returns {"git" | "svn" | undefined} SCM类型
    */
-  private static detectSCMFromDir(
-    workspaceRoot: string
-  ): "git" | "svn" | undefined {
+  static detectSCMFromDir(workspaceRoot: string): "git" | "svn" | undefined {
     try {
       const gitPath = path.join(workspaceRoot, ".git");
       const svnPath = path.join(workspaceRoot, ".svn");
@@ -63,76 +202,217 @@ export class SCMFactory {
     }
   }
 
+  /**
+   * 从指定路径向上查找所属仓库
+   * Git取最近的包含.git的目录(兼容子模块和worktree),
+   * SVN取最高层的包含.svn的目录(兼容旧版本每个目录都有.svn的工作副本)
+   * @param startPath 文件或目录路径
+   * @returns 仓库信息,未找到时返回undefined
+   */
+  static findRepository(startPath: string): SCMRepositoryInfo | undefined {
+    let currentPath = path.resolve(startPath);
+    try {
+      if (!fs.statSync(currentPath).isDirectory()) {
+        currentPath = path.dirname(currentPath);
+      }
+    } catch {
+      // 文件可能已被删除,从父目录开始查找
+      currentPath = path.dirname(currentPath);
+    }
+
+    while (true) {
+      const scmType = this.detectSCMFromDir(currentPath);
+      if (scmType === "git") {
+        return { type: "git", rootPath: currentPath };
+      }
+      if (scmType === "svn") {
+        let svnRoot = currentPath;
+        let parentPath = path.dirname(svnRoot);
+        while (
+          parentPath !== svnRoot &&
+          this.detectSCMFromDir(parentPath) === "svn"
+        ) {
+          svnRoot = parentPath;
+          parentPath = path.dirname(svnRoot);
+        }
+        return { type: "svn", rootPath: svnRoot };
+      }
+
+      const parentPath = path.dirname(currentPath);
+      if (parentPath === currentPath) {
+        return undefined;
+      }
+      currentPath = parentPath;
+    }
+  }
+
+  /**
+   * 列出当前工作区内所有可识别的仓库
+   * 包括每个工作区文件夹所属的仓库以及Git/SVN插件已打开的仓库
+   * @returns 去重后的仓库信息列表
+   */
+  static listRepositories(): SCMRepositoryInfo[] {
+    const repositories = new Map<string, SCMRepositoryInfo>();
+    const addRepository = (repository: SCMRepositoryInfo | undefined) => {
+      if (repository) {
+        const key = this.normalizePath(repository.rootPath);
+        if (!repositories.has(key)) {
+          repositories.set(key, repository);
+        }
+      }
+    };
+
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+      addRepository(this.findRepository(folder.uri.fsPath));
+    }
+
+    try {
+      const gitApi = vscode.extensions
+        .getExtension("vscode.git")
+        ?.exports?.getAPI(1);
+      for (const repository of gitApi?.repositories ?? []) {
+        addRepository({ type: "git", rootPath: repository.rootUri.fsPath });
+      }
+    } catch (error) {
+      console.error("Failed to list Git repositories:", error);
+    }
+
+    try {
+      const svnApi = vscode.extensions
+        .getExtension("littleCareless.svn-scm-ai")
+        ?.exports?.getAPI?.();
+      for (const repository of svnApi?.repositories ?? []) {
+        if (typeof repository?.root === "string") {
+          addRepository({ type: "svn", rootPath: repository.root });
+        }
+      }
+    } catch (error) {
+      console.error("Failed to list SVN repositories:", error);
+    }
+
+    return [...repositories.values()];
+  }
+
   /**
    * 检测系统是否安装了指定的SCM命令
    * @param cmd 要检测的命令
    * @returns {Promise<boolean>} 命令是否可用
    */
   private static async checkSCMCommand(cmd: string): Promise<boolean> {
-    return new Promise((resolve) => {
-      exec(`${cmd} --version`, (error) => {
-        resolve(!error);
-      });
-    });
+    try {
+      await ProcessExecutor.run(cmd, ["--version"]);
+      return true;
+    } catch {
+      return false;
+    }
   }
 
   /**
-   * 检测并创建可用的SCM提供者
-   * @returns {Promise<ISCMProvider | undefined>} 返回可用的SCM提供者实例,如果没有可用的提供者则返回undefined
+   * 在没有明确目标路径时确定要使用的仓库
+   * 优先使用当前编辑器所在仓库;存在多个仓库时让用户选择
+   * @returns 仓库信息,用户取消或未找到时返回undefined
    */
-  static async detectSCM(): Promise<ISCMProvider | undefined> {
-    try {
-      if (this.currentProvider) {
-        return this.currentProvider;
+  private static async resolveDefaultRepository(): Promise<
+    SCMRepositoryInfo | undefined
+  > {
+    const activeDocument = vscode.window.activeTextEditor?.document;
+    if (activeDocument?.uri.scheme === "file") {
+      const repository = this.findRepository(activeDocument.uri.fsPath);
+      if (repository) {
+        return repository;
       }
+    }
 
-      // 获取工作区根目录
-      const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-      if (!workspaceRoot) {
-        return undefined;
-      }
+    const repositories = this.listRepositories();
+    if (repositories.length <= 1) {
+      return repositories[0];
+    }
 
-      // 首先通过目录检测
-      const scmType = this.detectSCMFromDir(workspaceRoot);
+    const selected = await vscode.window.showQuickPick(
+      repositories.map((repository) => ({
+        label: path.basename(repository.rootPath),
+        description: repository.type.toUpperCase(),
+        detail: repository.rootPath,
+        repository,
+      })),
+      {
+        placeHolder: getMessage("scm.repository.picker.placeholder"),
+        ignoreFocusOut: true,
+      }
+    );
+    return selected?.repository;
+  }
 
+  /**
+   * 为指定仓库创建SCM提供者
+   * @param repository 仓库信息
+   * @returns 可用的SCM提供者实例,不可用时返回undefined
+   */
+  private static async createProvider(
+    repository: SCMRepositoryInfo
+  ): Promise<ISCMProvider | undefined> {
+    // 如果检测到Git
+    if (repository.type === "git") {
       const gitExtension = vscode.extensions.getExtension("vscode.git");
-      const svnExtension = vscode.extensions.getExtension(
-        "littleCareless.svn-scm-ai"
-      );
+      const git = gitExtension?.exports
+        ? new GitProvider(gitExtension.exports, repository.rootPath)
+        : undefined;
+      if (git && (await git.isAvailable())) {
+        return git;
+      }
+      return undefined;
+    }
 
-      // 如果检测到Git
-      if (scmType === "git") {
-        const git = gitExtension?.exports
-          ? new GitProvider(gitExtension.exports)
-          : undefined;
-        if (git && (await git.isAvailable())) {
-          this.currentProvider = git;
-          return git;
-        }
+    // 如果检测到SVN,先尝试使用SVN插件
+    const svnExtension = vscode.extensions.getExtension(
+      "littleCareless.svn-scm-ai"
+    );
+    const svn = svnExtension?.exports
+      ? new SvnProvider(svnExtension.exports, repository.rootPath)
+      : undefined;
+    if (svn && (await svn.isAvailable())) {
+      return svn;
+    }
+
+    // 如果没有插件但系统有SVN命令,使用命令行方式
+    if (await this.checkSCMCommand("svn")) {
+      const cliSvn = new CliSvnProvider(repository.rootPath);
+      if (await cliSvn.isAvailable()) {
+        return cliSvn;
       }
+    }
 
-      // 如果检测到SVN
-      if (scmType === "svn") {
-        // 先尝试使用SVN插件
-        const svn = svnExtension?.exports
-          ? new SvnProvider(svnExtension.exports)
-          : undefined;
-        if (svn && (await svn.isAvailable())) {
-          this.currentProvider = svn;
-          return svn;
-        }
+    return undefined;
+  }
+
+  /**
+   * 检测并创建可用的SCM提供者
+   * @param targetPath 用于定位仓库的文件或目录路径,未指定时使用当前编辑器或由用户选择
+   * @returns {Promise<ISCMProvider | undefined>} 返回可用的SCM提供者实例,如果没有可用的提供者则返回undefined
+   */
+  static async detectSCM(
+    targetPath?: string
+  ): Promise<ISCMProvider | undefined> {
+    try {
+      const repository = targetPath
+        ? this.findRepository(targetPath)
+        : await this.resolveDefaultRepository();
+      if (!repository) {
+        return undefined;
+      }
 
-        // 如果没有插件但系统有SVN命令,使用命令行方式
-        if (await this.checkSCMCommand("svn")) {
-          const cliSvn = new CliSvnProvider(workspaceRoot);
-          if (await cliSvn.isAvailable()) {
-            this.currentProvider = cliSvn;
-            return cliSvn;
-          }
+      const cacheKey = this.normalizePath(repository.rootPath);
+      let provider = this.providers.get(cacheKey);
+      if (!provider) {
+        provider = await this.createProvider(repository);
+        if (!provider) {
+          return undefined;
         }
+        this.providers.set(cacheKey, provider);
       }
 
-      return undefined;
+      this.currentProvider = provider;
+      return provider;
     } catch (error) {
       console.error(
         "SCM detection failed:",
@@ -1,11 +1,14 @@
 import * as vscode from "vscode";
-import { ISCMProvider } from "./SCMProvider";
-import { promisify } from "util";
-import * as childProcess from "child_process";
+import {
+  ISCMProvider,
+  SCMFactory,
+  type CommitHistoryEntry,
+} from "./SCMProvider";
 import { DiffSimplifier } from "../utils/diff/DiffSimplifier";
+import { SvnUtils } from "./SvnUtils";
+import { CommitBlockedError, CommitGuardRegistry } from "./CommitGuard";
 import { getMessage, formatMessage } from "../utils/i18n";
-
-const exec = promisify(childProcess.exec);
+import { ProcessExecutor } from "../utils/process";
 
 // 添加日志工具类
 const enum LogLevel {
@@ -77,7 +80,7 @@ const getSvnPath = async (): Promise<string> => {
     }
 
     // 3. 自动检测
-    const { stdout } = await exec("which svn");
+    const { stdout } = await ProcessExecutor.run("which", ["svn"]);
     const detectedPath = stdout.trim();
     if (detectedPath) {
       Logger.log(LogLevel.Info, "Detected SVN path:", detectedPath);
@@ -105,8 +108,8 @@ export class SvnProvider implements ISCMProvider {
   /** SVN API实例 */
   private api: any;
 
-  /** 工作区根目录路径 */
-  private workspaceRoot: string;
+  /** 仓库根目录路径 */
+  readonly rootPath: string;
 
   /** SVN仓库集合 */
   private repositories: any;
@@ -120,15 +123,11 @@ export class SvnProvider implements ISCMProvider {
   /**
    * 创建SVN提供者实例
    * @param svnExtension - VS Code SVN扩展实例
-   * @throws {Error} 当未找到工作区时抛出错误
+   * @param rootPath - 工作副本根目录路径
    */
-  constructor(private readonly svnExtension: any) {
+  constructor(private readonly svnExtension: any, rootPath: string) {
     this.api = svnExtension;
-    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-    if (!workspaceRoot) {
-      throw new Error(getMessage("workspace.not.found"));
-    }
-    this.workspaceRoot = workspaceRoot;
+    this.rootPath = rootPath;
 
     // 初始化时设置 SVN 路径
     getSvnPath().then((path) => {
@@ -175,7 +174,7 @@ export class SvnProvider implements ISCMProvider {
       this.initialized = true;
 
       // 验证SVN可执行
-      const { stdout } = await exec(`"${this.svnPath}" --version`);
+      const { stdout } = await ProcessExecutor.run(this.svnPath, ["--version"]);
       Logger.log(LogLevel.Info, "SVN version:", stdout.split("\n")[0]);
     } catch (error) {
       const message = error instanceof Error ? error.message : "Unknown error";
@@ -186,7 +185,7 @@ export class SvnProvider implements ISCMProvider {
 
   private async detectSvnPath(): Promise<string | null> {
     try {
-      const { stdout } = await exec("which svn");
+      const { stdout } = await ProcessExecutor.run("which", ["svn"]);
       const path = stdout.trim();
       Logger.log(LogLevel.Info, "Detected SVN path:", path);
       return path;
@@ -223,13 +222,9 @@ export class SvnProvider implements ISCMProvider {
       }
 
       const api = this.svnExtension.getAPI();
-      const repositories = api.repositories;
-      if (repositories.length > 0) {
-        this.api = api;
-        this.repositories = repositories;
-        return true;
-      }
-      return false;
+      this.api = api;
+      this.repositories = api.repositories;
+      return !!this.findRepository();
     } catch (error) {
       console.error(
         "SVN availability check failed:",
@@ -239,6 +234,38 @@ export class SvnProvider implements ISCMProvider {
     }
   }
 
+  /**
+   * 查找当前提供者对应的SVN插件仓库
+   * 优先选择根目录最接近工作副本根目录的仓库
+   * @returns SVN插件中对应的仓库实例
+   * @private
+   */
+  private findRepository(): any {
+    const repositories: any[] = this.api?.repositories ?? [];
+    return repositories
+      .filter(
+        (repository) =>
+          typeof repository?.root === "string" &&
+          (SCMFactory.isPathInside(this.rootPath, repository.root) ||
+            SCMFactory.isPathInside(repository.root, this.rootPath))
+      )
+      .sort((a, b) => b.root.length - a.root.length)[0];
+  }
+
+  /**
+   * 获取当前提供者对应的SVN插件仓库
+   * @returns SVN插件中对应的仓库实例
+   * @throws {Error} 当未找到仓库时抛出错误
+   * @private
+   */
+  private getRepository(): any {
+    const repository = this.findRepository();
+    if (!repository) {
+      throw new Error(getMessage("svn.repository.not.found"));
+    }
+    return repository;
+  }
+
   /**
    * 获取文件状态
    * @param {string} file - 文件路径
@@ -251,10 +278,11 @@ export class SvnProvider implements ISCMProvider {
         throw new Error(getMessage("svn.not.initialized"));
       }
 
-      const { stdout: status } = await exec(
-        `"${this.svnPath}" status "${file}"`,
+      const { stdout: status } = await ProcessExecutor.run(
+        this.svnPath,
+        ["status", "--", file],
         {
-          cwd: this.workspaceRoot,
+          cwd: this.rootPath,
           env: this.getEnvironmentConfig(),
         }
       );
@@ -294,19 +322,17 @@ export class SvnProvider implements ISCMProvider {
         for (const file of files) {
           Logger.log(LogLevel.Info, "Processing file:", file);
           const fileStatus = await this.getFileStatus(file);
-          const escapedFile = file.replace(/"/g, '\\"');
 
           // 对于删除的文件不获取diff内容
           if (fileStatus === "Deleted File") {
             diffOutput += `\n=== ${fileStatus}: ${file} ===\n`;
             continue;
           }
-          console.log("escapedFile", escapedFile);
-          const { stdout } = await exec(
-            `"${this.svnPath}" diff "${escapedFile}"`,
+          const { stdout } = await ProcessExecutor.run(
+            this.svnPath,
+            ["diff", "--", file],
             {
-              cwd: this.workspaceRoot,
-              maxBuffer: 1024 * 1024 * 10,
+              cwd: this.rootPath,
               env: this.getEnvironmentConfig(),
             }
           );
@@ -316,9 +342,8 @@ export class SvnProvider implements ISCMProvider {
           }
         }
       } else {
-        const { stdout } = await exec(`"${this.svnPath}" diff`, {
-          cwd: this.workspaceRoot,
-          maxBuffer: 1024 * 1024 * 10,
+        const { stdout } = await ProcessExecutor.run(this.svnPath, ["diff"], {
+          cwd: this.rootPath,
           env: this.getEnvironmentConfig(),
         });
         diffOutput = stdout;
@@ -355,24 +380,44 @@ export class SvnProvider implements ISCMProvider {
     }
   }
 
+  /**
+   * 获取原始差异,不简化差异且不添加文件状态标记
+   * @param {string[]} [files] - 可选的文件路径数组,未指定时获取所有更改
+   * @returns {Promise<string>} 差异文本,没有更改时为空字符串
+   * @throws {Error} 当SVN未初始化或执行diff命令失败时抛出错误
+   */
+  async getRawDiff(files?: string[]): Promise<string> {
+    if (!this.initialized) {
+      throw new Error(getMessage("svn.not.initialized"));
+    }
+    const { stdout } = await ProcessExecutor.run(
+      this.svnPath,
+      ["diff", ...(files?.length ? ["--", ...files] : [])],
+      { cwd: this.rootPath, env: this.getEnvironmentConfig() }
+    );
+    return stdout;
+  }
+
   /**
    * 提交更改
    * @param {string} message - 提交信息
    * @param {string[]} [files] - 要提交的文件路径数组
    * @throws {Error} 当提交失败或未选择文件时抛出错误
+   * @throws {CommitBlockedError} 当提交前检查不允许提交时抛出错误
    */
   async commit(message: string, files?: string[]): Promise<void> {
-    const repository = this.api?.repositories?.[0];
-    if (!repository) {
-      throw new Error(getMessage("git.repository.not.found"));
-    }
+    const repository = this.getRepository();
 
     try {
       if (!files?.length) {
         throw new Error(getMessage("svn.no.files.selected"));
       }
+      await CommitGuardRegistry.check(this, message, files);
       await repository.commitFiles(files, message);
     } catch (error) {
+      if (error instanceof CommitBlockedError) {
+        throw error;
+      }
       console.error(
         "SVN commit failed:",
         error instanceof Error ? error.message : error
@@ -387,10 +432,7 @@ export class SvnProvider implements ISCMProvider {
    * @throws {Error} 当未找到仓库时抛出错误
    */
   async setCommitInput(message: string): Promise<void> {
-    const repository = this.api?.repositories?.[0];
-    if (!repository) {
-      throw new Error(getMessage("git.repository.not.found"));
-    }
+    const repository = this.getRepository();
 
     repository.inputBox.value = message;
   }
@@ -401,11 +443,138 @@ export class SvnProvider implements ISCMProvider {
    * @throws {Error} 当未找到仓库时抛出错误
    */
   async getCommitInput(): Promise<string> {
-    const repository = this.api?.repositories?.[0];
-    if (!repository) {
-      throw new Error(getMessage("git.repository.not.found"));
-    }
+    const repository = this.getRepository();
 
     return repository.inputBox.value;
   }
+
+  /**
+   * 获取工作副本中的变更列表
+   * @returns {Promise<Map<string, string[]>>} 变更列表名称到文件绝对路径的映射
+   * @throws {Error} 当执行status命令失败时抛出错误
+   */
+  async getChangelists(): Promise<Map<string, string[]>> {
+    const { stdout } = await ProcessExecutor.run(this.svnPath, ["status"], {
+      cwd: this.rootPath,
+      env: this.getEnvironmentConfig(),
+    });
+    return SvnUtils.parseChangelists(stdout, this.rootPath);
+  }
+
+  /**
+   * 获取文件所属的变更列表名称
+   * @param {string[]} [files] - 文件路径数组,未提供时仅在只有一个变更列表时返回
+   * @returns {Promise<string | undefined>} 变更列表名称
+   */
+  async getChangelistName(files?: string[]): Promise<string | undefined> {
+    try {
+      return SvnUtils.findChangelist(
+        await this.getChangelists(),
+        this.rootPath,
+        files
+      );
+    } catch (error) {
+      Logger.log(LogLevel.Error, "Failed to get SVN changelists:", error);
+      return undefined;
+    }
+  }
+
+  /**
+   * 获取修订版本范围内的历史提交
+   * @param {string} range - 修订版本范围,如 "100:120"
+   * @returns {Promise<CommitHistoryEntry[]>} 历史提交,按从旧到新排列
+   * @throws {Error} 当范围无效或执行log命令失败时抛出错误
+   */
+  async getCommitHistory(range: string): Promise<CommitHistoryEntry[]> {
+    const { stdout } = await ProcessExecutor.run(
+      this.svnPath,
+      ["log", "-r", SvnUtils.parseRevisionRange(range), "--xml"],
+      {
+        cwd: this.rootPath,
+        env: this.getEnvironmentConfig(),
+      }
+    );
+    return SvnUtils.parseLogEntries(stdout);
+  }
+
+  /**
+   * 获取工作副本的修订版本
+   * @returns {Promise<string | undefined>} 修订版本号,无法获取时返回undefined
+   */
+  async getRevision(): Promise<string | undefined> {
+    try {
+      const { stdout } = await ProcessExecutor.run(
+        this.svnPath,
+        ["info", "--show-item", "revision"],
+        { cwd: this.rootPath, env: this.getEnvironmentConfig() }
+      );
+      return stdout.trim() || undefined;
+    } catch (error) {
+      Logger.log(LogLevel.Error, "Failed to get SVN revision:", error);
+      return undefined;
+    }
+  }
+
+  /**
+   * 获取修订版本引入的差异
+   * @param {string} id - 修订版本号
+   * @returns {Promise<string>} 差异文本
+   */
+  async getCommitDiff(id: string): Promise<string> {
+    const { stdout } = await ProcessExecutor.run(
+      this.svnPath,
+      ["diff", "-c", id],
+      {
+        cwd: this.rootPath,
+        env: this.getEnvironmentConfig(),
+      }
+    );
+    return stdout;
+  }
+
+  /**
+   * 修改修订版本的日志信息(svn:log 版本属性)
+   * 需要服务器的 pre-revprop-change 钩子允许修改,单个版本失败时继续处理其余版本
+   * @param {CommitHistoryEntry[]} entries - 需要修改的修订版本及新的日志信息
+   * @throws {Error} 当存在修改失败的修订版本时抛出错误
+   */
+  async rewriteCommitMessages(entries: CommitHistoryEntry[]): Promise<void> {
+    const failures: string[] = [];
+    let lastError: unknown;
+    for (const entry of entries) {
+      try {
+        await ProcessExecutor.run(
+          this.svnPath,
+          // 以 "--" 结束选项,以 "-" 开头的提交信息不会被当作选项
+          [
+            "propset",
+            "--revprop",
+            "-r",
+            entry.id,
+            "--",
+            "svn:log",
+            entry.message,
+          ],
+          { cwd: this.rootPath, env: this.getEnvironmentConfig() }
+        );
+      } catch (error) {
+        Logger.log(
+          LogLevel.Error,
+          `Failed to set svn:log of r${entry.id}:`,
+          error
+        );
+        failures.push(`r${entry.id}`);
+        lastError = error;
+      }
+    }
+
+    if (failures.length > 0) {
+      throw new Error(
+        formatMessage("history.svn.revprop.failed", [
+          failures.join(", "),
+          lastError instanceof Error ? lastError.message : String(lastError),
+        ])
+      );
+    }
+  }
 }
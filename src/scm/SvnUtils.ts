@@ -1,11 +1,34 @@
-import { exec } from "child_process";
-import { promisify } from "util";
 import * as fs from "fs";
 import * as path from "path";
 import * as vscode from "vscode";
 import { getMessage, formatMessage } from "../utils/i18n";
+import { ProcessExecutor } from "../utils/process";
+import type { CommitHistoryEntry, CommitRecord } from "./SCMProvider";
 
-const execAsync = promisify(exec);
+/** svn log --xml 输出中提交记录的结束标签 */
+const LOG_ENTRY_END = "</logentry>";
+
+/**
+ * 还原XML文本中转义的字符
+ * @param text - XML文本
+ * @returns 还原后的文本
+ */
+const decodeXml = (text = "") =>
+  text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+
+/**
+ * 获取XML片段中第一个指定元素的内容
+ * @param xml - XML片段
+ * @param name - 元素名称
+ * @returns 元素内容,元素不存在时返回undefined
+ */
+const getXmlElement = (xml: string, name: string) =>
+  xml.match(new RegExp(`<${name}>([\\s\\S]*?)</${name}>`))?.[1];
 
 // 添加日志工具类
 const enum LogLevel {
@@ -72,7 +95,7 @@ export class SvnUtils {
       this.svnPath = await this.getSvnPath();
 
       // 验证SVN是否可执行
-      const { stdout } = await execAsync(`"${this.svnPath}" --version`);
+      const { stdout } = await ProcessExecutor.run(this.svnPath, ["--version"]);
       Logger.log(LogLevel.Info, "SVN version:", stdout.split("\n")[0]);
 
       this.initialized = true;
@@ -140,7 +163,7 @@ export class SvnUtils {
       }
 
       // 3. 自动检测
-      const { stdout } = await execAsync("which svn");
+      const { stdout } = await ProcessExecutor.run("which", ["svn"]);
       const detectedPath = stdout.trim();
       if (detectedPath) {
         Logger.log(LogLevel.Info, "Detected SVN path:", detectedPath);
@@ -183,7 +206,7 @@ export class SvnUtils {
   ): Promise<string | undefined> {
     try {
       await this.initialize();
-      const { stdout } = await execAsync(`"${this.svnPath}" info`, {
+      const { stdout } = await ProcessExecutor.run(this.svnPath, ["info"], {
         cwd: workspacePath,
         env: this.getEnvironmentConfig(),
       });
@@ -207,14 +230,16 @@ export class SvnUtils {
   ): Promise<string | undefined> {
     try {
       await this.initialize();
-      const { stdout: authOutput } = await execAsync(`"${this.svnPath}" auth`, {
-        cwd: workspacePath,
-        env: this.getEnvironmentConfig(),
-      });
-      const { stdout: urlOutput } = await execAsync(`"${this.svnPath}" info`, {
-        cwd: workspacePath,
-        env: this.getEnvironmentConfig(),
-      });
+      const { stdout: authOutput } = await ProcessExecutor.run(
+        this.svnPath,
+        ["auth"],
+        { cwd: workspacePath, env: this.getEnvironmentConfig() }
+      );
+      const { stdout: urlOutput } = await ProcessExecutor.run(
+        this.svnPath,
+        ["info"],
+        { cwd: workspacePath, env: this.getEnvironmentConfig() }
+      );
       console.log("authOutput", authOutput);
       console.log("urlOutput", urlOutput);
       const parsedAuthor = this.parseAuthOutput(authOutput, urlOutput);
@@ -417,7 +442,7 @@ export class SvnUtils {
   private static async validateAuth(workspacePath: string): Promise<void> {
     try {
       await this.initialize();
-      await execAsync(`"${this.svnPath}" info`, {
+      await ProcessExecutor.run(this.svnPath, ["info"], {
         cwd: workspacePath,
         env: this.getEnvironmentConfig(),
       });
@@ -452,7 +477,7 @@ export class SvnUtils {
 
     if (choice === getMessage("svn.auth.button")) {
       // 执行svn命令触发认证对话框
-      await execAsync(`"${this.svnPath}" info`, {
+      await ProcessExecutor.run(this.svnPath, ["info"], {
         cwd: workspacePath,
         env: this.getEnvironmentConfig(),
       });
@@ -462,54 +487,178 @@ export class SvnUtils {
   }
 
   /**
-   * 执行SVN命令的通用方法
-   * @param command - SVN命令
+   * 获取日期范围内指定作者的提交记录
+   * 以流的方式解析 svn log -v --xml 的输出,只保留作者匹配的提交,
+   * 日志很大时也无需缓存完整输出
    * @param workspacePath - 工作区路径
-   * @param retryCount - 重试次数
-   * @returns 命令输出
+   * @param dateRange - 日期范围
+   * @param authors - 作者名及其别名,与 <author> 元素比较,不区分大小写
+   * @param excludePatterns - 排除的提交信息模式,如合并提交
+   * @returns 提交记录,按修订版本从旧到新排列
    */
-  private static async executeSvnCommand(
-    command: string,
+  public static async getLogRecords(
     workspacePath: string,
-    retryCount: number = 1
-  ): Promise<string> {
-    try {
-      await this.validateAuth(workspacePath);
-      const { stdout } = await execAsync(command, {
-        cwd: workspacePath,
-        env: this.getEnvironmentConfig(),
-      });
-      return stdout;
-    } catch (error) {
-      if (retryCount > 0 && error instanceof Error) {
-        // 如果是认证错误且还有重试次数，则重试
-        if (
-          error.message.includes("E170001") ||
-          error.message.includes("E170013")
-        ) {
-          await this.validateAuth(workspacePath);
-          return this.executeSvnCommand(command, workspacePath, retryCount - 1);
+    dateRange: { start: string; end: string },
+    authors: string[],
+    excludePatterns: RegExp[] = []
+  ): Promise<CommitRecord[]> {
+    await this.validateAuth(workspacePath);
+    const names = new Set(authors.map((author) => author.trim().toLowerCase()));
+
+    const records: CommitRecord[] = [];
+    let buffer = "";
+
+    await ProcessExecutor.stream(
+      this.svnPath,
+      ["log", "-r", `{${dateRange.start}}:{${dateRange.end}}`, "--xml", "-v"],
+      (chunk) => {
+        buffer += chunk;
+        // 只解析完整的 <logentry>,剩余部分等待后续输出
+        let end: number;
+        while ((end = buffer.indexOf(LOG_ENTRY_END)) !== -1) {
+          const record = this.parseLogRecord(
+            buffer.slice(0, end + LOG_ENTRY_END.length)
+          );
+          buffer = buffer.slice(end + LOG_ENTRY_END.length);
+          if (
+            record &&
+            names.has(record.author.trim().toLowerCase()) &&
+            !excludePatterns.some((pattern) => pattern.test(record.message))
+          ) {
+            records.push(record);
+          }
         }
+      },
+      // 日期范围较大时需要从服务器读取大量日志,不限制执行时间
+      { cwd: workspacePath, env: this.getEnvironmentConfig(), timeout: 0 }
+    );
+
+    return records.sort((a, b) => Number(a.id) - Number(b.id));
+  }
+
+  /**
+   * 将用户输入的修订版本范围转换为 svn log -r 参数
+   * 支持 "100:120"、"r100:r120" 以及单个版本号(到HEAD为止)
+   * @param range - 修订版本范围
+   * @returns svn log -r 参数
+   * @throws {Error} 当范围格式无效时抛出错误
+   */
+  public static parseRevisionRange(range: string): string {
+    const match = range.trim().match(/^r?(\d+|HEAD)(?::r?(\d+|HEAD))?$/i);
+    if (!match) {
+      throw new Error(formatMessage("history.svn.invalid.range", [range]));
+    }
+    return `${match[1]}:${match[2] ?? "HEAD"}`.toUpperCase();
+  }
+
+  /**
+   * 解析 svn log --xml 输出中的历史提交
+   * @param xmlOutput - XML格式的日志输出
+   * @returns 历史提交,按修订版本从旧到新排列
+   */
+  public static parseLogEntries(xmlOutput: string): CommitHistoryEntry[] {
+    return [
+      ...xmlOutput.matchAll(
+        /<logentry\s+revision="(\d+)"[^>]*>([\s\S]*?)<\/logentry>/g
+      ),
+    ]
+      .map(([, revision, entry]) => {
+        const author = getXmlElement(entry, "author");
+        return {
+          id: revision,
+          message: decodeXml(getXmlElement(entry, "msg")).trim(),
+          author: author && decodeXml(author),
+          date: getXmlElement(entry, "date"),
+        };
+      })
+      .sort((a, b) => Number(a.id) - Number(b.id));
+  }
+
+  /**
+   * 解析 svn log -v --xml 输出中的一个提交记录
+   * SVN日志不包含增删行数,变更文件的行数统计为0
+   * @param xml - 以 </logentry> 结尾的XML片段
+   * @returns 提交记录,片段中没有 <logentry> 时返回undefined
+   * @private
+   */
+  private static parseLogRecord(xml: string): CommitRecord | undefined {
+    const match = xml.match(
+      /<logentry\s+revision="(\d+)"[^>]*>([\s\S]*?)<\/logentry>/
+    );
+    if (!match) {
+      return undefined;
+    }
+
+    const [, revision, entry] = match;
+    return {
+      id: revision,
+      message: decodeXml(getXmlElement(entry, "msg")).trim(),
+      author: decodeXml(getXmlElement(entry, "author")),
+      date: getXmlElement(entry, "date") ?? "",
+      files: [...entry.matchAll(/<path\b([^>]*)>([^<]*)<\/path>/g)].map(
+        ([, attributes, filePath]) => ({
+          path: decodeXml(filePath),
+          action: attributes.match(/action="(\w)"/)?.[1],
+          insertions: 0,
+          deletions: 0,
+        })
+      ),
+    };
+  }
+
+  /**
+   * 解析 svn status 输出中的变更列表
+   * @param statusOutput - 在工作副本根目录执行 svn status 的输出
+   * @param rootPath - 工作副本根目录
+   * @returns 变更列表名称到文件绝对路径的映射
+   */
+  public static parseChangelists(
+    statusOutput: string,
+    rootPath: string
+  ): Map<string, string[]> {
+    const changelists = new Map<string, string[]>();
+    let current: string[] | undefined;
+
+    for (const line of statusOutput.split(/\r?\n/)) {
+      const header = line.match(/^--- Changelist '(.+)':$/);
+      if (header) {
+        current = changelists.get(header[1]) ?? [];
+        changelists.set(header[1], current);
+        continue;
+      }
+      // 状态行由7列状态标记、空格和路径组成
+      const entry = line.match(/^[ ACDIMRX?!~L+SKOTB*]{7} (.+)$/);
+      if (current && entry) {
+        current.push(path.resolve(rootPath, entry[1].trim()));
       }
-      throw error;
     }
+
+    return changelists;
   }
 
   /**
-   * 获取SVN日志
-   * @param workspacePath - 工作区路径
-   * @param dateRange - 日期范围
-   * @param author - 作者
-   * @returns XML格式的日志内容
+   * 查找文件所属的变更列表
+   * 未指定文件时,仅在工作副本只有一个变更列表时返回该列表
+   * @param changelists - 变更列表名称到文件绝对路径的映射
+   * @param rootPath - 工作副本根目录
+   * @param files - 文件路径(相对或绝对)
+   * @returns 变更列表名称
    */
-  public static async getSvnLog(
-    workspacePath: string,
-    dateRange: { start: string; end: string },
-    author?: string
-  ): Promise<string> {
-    const searchParam = author ? ` --search="${author}"` : "";
-    const command = `"${this.svnPath}" log -r "{${dateRange.start}}:{${dateRange.end}}"${searchParam} --xml`;
+  public static findChangelist(
+    changelists: Map<string, string[]>,
+    rootPath: string,
+    files?: string[]
+  ): string | undefined {
+    if (!files?.length) {
+      return changelists.size === 1 ? [...changelists.keys()][0] : undefined;
+    }
 
-    return this.executeSvnCommand(command, workspacePath, 2);
+    const targets = files.map((file) => path.resolve(rootPath, file));
+    for (const [name, entries] of changelists) {
+      if (entries.some((entry) => targets.includes(entry))) {
+        return name;
+      }
+    }
+    return undefined;
   }
 }
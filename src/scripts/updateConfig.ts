@@ -70,6 +70,11 @@ async function updateAllConfigs() {
             }
           }
 
+          // 处理数组类型的元素类型
+          if (value.type === "array") {
+            configProperty.items = value.items;
+          }
+
           // 添加配置作用域
           if ("scope" in value) {
             configProperty.scope = value.scope;
@@ -0,0 +1,201 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { CommitHistoryEntry } from "../scm/SCMProvider";
+import {
+  CommitLogStrategy,
+  GitCommitStrategy,
+  SvnCommitStrategy,
+} from "../scm/CommitLogStrategy";
+import { CommitMessageParser } from "../utils/commitlint/CommitMessageParser";
+
+/**
+ * 按约定式提交类型划分的变更日志分组标题,按输出顺序排列
+ * 标题与 conventional-changelog 生成的标题一致
+ */
+const TYPE_GROUPS: [string, string][] = [
+  ["feat", "✨ Features"],
+  ["fix", "🐛 Bug Fixes"],
+  ["perf", "⚡ Performance Improvements"],
+  ["refactor", "♻ Code Refactoring"],
+  ["revert", "⏪ Reverts"],
+  ["docs", "📝 Documentation"],
+  ["style", "💄 Styles"],
+  ["test", "✅ Tests"],
+  ["build", "📦 Build System"],
+  ["ci", "👷 Continuous Integration"],
+  ["chore", "🎫 Chores"],
+];
+
+/** 破坏性变更分组的标题,排在最前面 */
+const BREAKING_GROUP = "⚠ BREAKING CHANGES";
+
+/** 没有已知类型的提交所在分组的标题 */
+const OTHER_GROUP = "📌 Other Changes";
+
+/**
+ * 支持的输出语言在文件名中使用的代码
+ */
+const LANGUAGE_CODES: Record<string, string> = {
+  "Simplified Chinese": "zh-CN",
+  "Traditional Chinese": "zh-TW",
+  Japanese: "ja",
+  Korean: "ko",
+  Czech: "cs",
+  German: "de",
+  French: "fr",
+  Italian: "it",
+  Dutch: "nl",
+  Portuguese: "pt",
+  Vietnamese: "vi",
+  English: "en",
+  Spanish: "es",
+  Swedish: "sv",
+  Russian: "ru",
+  Bahasa: "id",
+  Polish: "pl",
+  Turkish: "tr",
+  Thai: "th",
+};
+
+/** 匹配变更日志章节的版本标题 */
+const VERSION_HEADING_PATTERN = /^#{1,2} \[?v?\d+\.\d+/m;
+
+/**
+ * 变更日志分组中的提交
+ */
+export interface ChangelogGroup {
+  /** 分组标题 */
+  title: string;
+  /** 按时间顺序排列的提交 */
+  commits: CommitHistoryEntry[];
+}
+
+/**
+ * 根据版本的提交生成变更日志章节
+ */
+export class ChangelogService {
+  /**
+   * 为源代码管理类型创建提交日志策略
+   * @param type - 源代码管理类型
+   * @returns 提交日志策略
+   */
+  static createCommitStrategy(type: "git" | "svn"): CommitLogStrategy {
+    return type === "git" ? new GitCommitStrategy() : new SvnCommitStrategy();
+  }
+
+  /**
+   * 按约定式提交类型对提交分组
+   * 破坏性变更既列在单独的分组中,也列在其类型的分组中
+   * @param commits - 按时间顺序排列的提交
+   * @returns 按变更日志顺序排列的非空分组
+   */
+  static groupCommits(commits: CommitHistoryEntry[]): ChangelogGroup[] {
+    const groups = new Map<string, CommitHistoryEntry[]>();
+    const add = (title: string, commit: CommitHistoryEntry) =>
+      groups.set(title, [...(groups.get(title) ?? []), commit]);
+
+    for (const commit of commits.filter((item) => item.message.trim())) {
+      const { type, breaking } = CommitMessageParser.parse(commit.message);
+      if (breaking) {
+        add(BREAKING_GROUP, commit);
+      }
+      const group = TYPE_GROUPS.find(([name]) => name === type?.toLowerCase());
+      add(group?.[1] ?? OTHER_GROUP, commit);
+    }
+
+    return [
+      BREAKING_GROUP,
+      ...TYPE_GROUPS.map(([, title]) => title),
+      OTHER_GROUP,
+    ]
+      .filter((title) => groups.has(title))
+      .map((title) => ({ title, commits: groups.get(title)! }));
+  }
+
+  /**
+   * 将分组格式化为模型输入
+   * @param groups - 变更日志分组
+   * @returns 每个分组一段,以 "### <group>" 开头,每个提交一个列表项
+   */
+  static formatGroups(groups: ChangelogGroup[]): string {
+    return groups
+      .map((group) =>
+        [
+          `### ${group.title}`,
+          ...group.commits.map(
+            (commit) =>
+              `- ${commit.id.substring(0, 7)} ${commit.message.replace(
+                /\n/g,
+                "\n  "
+              )}`
+          ),
+        ].join("\n")
+      )
+      .join("\n\n");
+  }
+
+  /**
+   * 生成带版本号的变更日志章节
+   * 与 conventional-changelog 一致,次版本和主版本使用一级标题,修订版本使用二级标题
+   * @param version - 版本号
+   * @param date - 发布日期(YYYY-MM-DD)
+   * @param content - 生成的分组内容
+   * @returns 章节内容
+   */
+  static formatSection(version: string, date: string, content: string): string {
+    const heading = /^\d+\.\d+\.0$/.test(version) ? "#" : "##";
+    return `${heading} ${version} (${date})\n\n${content.trim()}\n`;
+  }
+
+  /**
+   * 确定每种语言的变更日志文件
+   * 第一个不存在 CHANGELOG.<code>.md 的语言写入 CHANGELOG.md,其他语言写入 CHANGELOG.<code>.md
+   * @param rootPath - 仓库根目录
+   * @param languages - 输出语言,主要语言在前
+   * @returns 按语言索引的变更日志文件路径
+   */
+  static getChangelogPaths(
+    rootPath: string,
+    languages: string[]
+  ): Map<string, string> {
+    const localizedPath = (language: string) =>
+      path.join(
+        rootPath,
+        `CHANGELOG.${LANGUAGE_CODES[language] ?? language}.md`
+      );
+    const primary = languages.find(
+      (language) => !fs.existsSync(localizedPath(language))
+    );
+
+    return new Map(
+      languages.map((language) => [
+        language,
+        language === primary
+          ? path.join(rootPath, "CHANGELOG.md")
+          : localizedPath(language),
+      ])
+    );
+  }
+
+  /**
+   * 将章节插入到变更日志最新版本的章节之前,标题和简介保留在顶部;文件不存在时创建文件
+   * @param filePath - 变更日志文件
+   * @param section - 带版本号的章节
+   */
+  static prependSection(filePath: string, section: string): void {
+    const content = fs.existsSync(filePath)
+      ? fs.readFileSync(filePath, "utf8")
+      : "# Changelog\n\n";
+    const match = VERSION_HEADING_PATTERN.exec(content);
+    const index = match ? match.index : content.length;
+    const before = content.substring(0, index).replace(/\s*$/, "\n\n");
+
+    fs.writeFileSync(
+      filePath,
+      `${before}${section.trim()}\n\n${content.substring(index)}`.replace(
+        /\s*$/,
+        "\n"
+      )
+    );
+  }
+}
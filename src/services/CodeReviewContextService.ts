@@ -0,0 +1,552 @@
+import * as fs from "fs";
+import * as path from "path";
+import { DiffSplitter } from "../utils/diff/DiffSplitter";
+
+/** 单个代码片段(函数、类等)允许的最大行数,超出时不作为上下文 */
+const MAX_BLOCK_LINES = 80;
+
+/** 单个文件收集的上下文最大长度 */
+const MAX_CONTEXT_LENGTH = 8000;
+
+/** 每个文件在审查输入中的额外格式开销估计 */
+const FILE_OVERHEAD = 200;
+
+/** 解析相对导入路径时尝试的文件后缀 */
+const MODULE_SUFFIXES = [
+  "",
+  ".ts",
+  ".tsx",
+  ".js",
+  ".jsx",
+  ".mjs",
+  ".cjs",
+  "/index.ts",
+  "/index.tsx",
+  "/index.js",
+];
+
+/** 匹配函数、方法、类等声明的起始行 */
+const DECLARATION_PATTERN =
+  /^\s*(?!(?:if|for|while|switch|catch|return|else|do|try|with)\b)(?:export\s+)?(?:default\s+)?(?:abstract\s+)?(?:async\s+)?(?:function\b|class\b|interface\b|enum\b|def\b|func\b|fn\b|(?:(?:public|private|protected|static|override|readonly|async|get|set)\s+)*[\w$]+\s*(?:<[^>]*>)?\s*\(.*\)\s*(?::\s*[^=]+)?\{\s*$|(?:const|let|var)\s+[\w$]+\s*(?::[^=]+)?=\s*(?:async\s+)?(?:function\b|\(.*\)\s*(?::[^=]+)?=>|[\w$]+\s*=>))/;
+
+/** 匹配相对路径的ES模块导入语句 */
+const IMPORT_PATTERN =
+  /import\s+(?:type\s+)?(?:([\w$]+)\s*,?\s*)?(?:\{([^}]*)\})?\s*from\s*["'](\.{1,2}\/[^"']*)["']/g;
+
+/**
+ * 审查上下文中的源码片段
+ */
+export interface ReviewSnippet {
+  /** 仓库相对路径 */
+  relativePath: string;
+  /** 起始行号(从1开始) */
+  startLine: number;
+  /** 结束行号 */
+  endLine: number;
+  /** 片段内容 */
+  content: string;
+}
+
+/**
+ * 变更集中的单个文件
+ */
+export interface ReviewFile {
+  /** 文件绝对路径 */
+  filePath: string;
+  /** 仓库相对路径,与差异中的路径一致 */
+  relativePath: string;
+  /** 文件差异 */
+  diff: string;
+  /** 变更所在的函数和引用的导入符号的源码 */
+  snippets: ReviewSnippet[];
+}
+
+/**
+ * 代码审查上下文服务
+ * 将整个变更集拆分为按文件的差异,收集变更所在的函数和引用的导入符号作为上下文,
+ * 并在超出模型输入预算时将文件分批
+ */
+export class CodeReviewContextService {
+  /**
+   * 将变更集差异拆分为按文件的审查文件,并收集每个文件的上下文
+   * @param {string} rootPath - 仓库根目录
+   * @param {string} diff - 变更集的完整差异
+   * @param {"git" | "svn"} scm - 源代码管理类型
+   * @param {(relativePath: string) => boolean} [include] - 筛选需要审查的文件,未指定时审查所有文件
+   * @returns {ReviewFile[]} 审查文件列表
+   */
+  static collect(
+    rootPath: string,
+    diff: string,
+    scm: "git" | "svn",
+    include?: (relativePath: string) => boolean
+  ): ReviewFile[] {
+    const files = this.split(rootPath, diff, scm).filter(
+      (file) => !include || include(file.relativePath)
+    );
+    return files.map((file) => ({
+      ...file,
+      snippets: this.collectSnippets(rootPath, file.filePath, file.diff),
+    }));
+  }
+
+  /**
+   * 将变更集差异拆分为按文件的审查文件,不收集上下文
+   * @param {string} rootPath - 仓库根目录
+   * @param {string} diff - 变更集的完整差异
+   * @param {"git" | "svn"} scm - 源代码管理类型
+   * @returns {ReviewFile[]} 审查文件列表
+   */
+  static split(
+    rootPath: string,
+    diff: string,
+    scm: "git" | "svn"
+  ): ReviewFile[] {
+    const chunks =
+      scm === "svn"
+        ? DiffSplitter.splitSvnDiff(diff).map((chunk) => ({
+            ...chunk,
+            content: `Index: ${chunk.content}`,
+          }))
+        : DiffSplitter.splitGitDiff(diff).map((chunk) => ({
+            ...chunk,
+            content: `diff --git ${chunk.content}`,
+          }));
+
+    return chunks.map((chunk) => {
+      // 重命名的文件使用新路径,已删除的文件保留原路径
+      const target = /^\+\+\+ (?:b\/)?([^\t\n]+)/m.exec(chunk.content)?.[1];
+      const relativePath =
+        target && target !== "/dev/null" ? target.trim() : chunk.filename;
+      return {
+        filePath: path.join(rootPath, relativePath),
+        relativePath,
+        diff: chunk.content,
+        snippets: [],
+      };
+    });
+  }
+
+  /**
+   * 按输入预算将文件分批,保持文件顺序
+   * 单个文件连同上下文超出预算时,该文件单独成批并丢弃上下文
+   * @param {ReviewFile[]} files - 审查文件列表
+   * @param {number} budget - 单次请求允许的输入长度
+   * @returns {ReviewFile[][]} 分批后的文件
+   */
+  static createBatches(files: ReviewFile[], budget: number): ReviewFile[][] {
+    const batches: ReviewFile[][] = [];
+    let current: ReviewFile[] = [];
+    let size = 0;
+
+    for (const file of files) {
+      const fileSize = this.getSize(file);
+      if (fileSize > budget) {
+        batches.push([{ ...file, snippets: [] }]);
+        continue;
+      }
+      if (current.length > 0 && size + fileSize > budget) {
+        batches.push(current);
+        current = [];
+        size = 0;
+      }
+      current.push(file);
+      size += fileSize;
+    }
+    if (current.length > 0) {
+      batches.push(current);
+    }
+    return batches;
+  }
+
+  /**
+   * 估算文件在审查输入中占用的长度
+   * @param {ReviewFile} file - 审查文件
+   * @returns {number} 估算长度
+   */
+  static getSize(file: ReviewFile): number {
+    return (
+      FILE_OVERHEAD +
+      file.diff.length +
+      file.snippets.reduce(
+        (sum, snippet) => sum + snippet.content.length + FILE_OVERHEAD,
+        0
+      )
+    );
+  }
+
+  /**
+   * 将一批文件的上下文格式化为带行号的代码块,相同的片段只输出一次
+   * @param {ReviewFile[]} files - 一批审查文件
+   * @returns {string} 格式化后的上下文,没有上下文时返回空字符串
+   */
+  static formatContext(files: ReviewFile[]): string {
+    const seen = new Set<string>();
+    return files
+      .flatMap((file) => file.snippets)
+      .filter((snippet) => {
+        const key = `${snippet.relativePath}:${snippet.startLine}-${snippet.endLine}`;
+        return !seen.has(key) && !!seen.add(key);
+      })
+      .map((snippet) => {
+        const lines = snippet.content
+          .split("\n")
+          .map((line, index) => `${snippet.startLine + index}| ${line}`);
+        return [
+          `File: ${snippet.relativePath} (lines ${snippet.startLine}-${snippet.endLine})`,
+          "```",
+          ...lines,
+          "```",
+        ].join("\n");
+      })
+      .join("\n\n");
+  }
+
+  /**
+   * 将模型返回的问题文件路径匹配到变更集中的文件
+   * 依次尝试完全匹配、路径后缀匹配和唯一的文件名匹配
+   * @param {string} issuePath - 模型返回的文件路径
+   * @param {ReviewFile[]} files - 审查文件列表
+   * @returns {ReviewFile | undefined} 匹配的文件,无法确定时返回undefined
+   */
+  static resolveFile(
+    issuePath: string,
+    files: ReviewFile[]
+  ): ReviewFile | undefined {
+    const normalize = (value: string) =>
+      value.replace(/\\/g, "/").replace(/^\.\//, "");
+    const target = normalize(issuePath);
+
+    const exact = files.find((file) => normalize(file.relativePath) === target);
+    if (exact) {
+      return exact;
+    }
+
+    const suffix = files.filter((file) => {
+      const relative = normalize(file.relativePath);
+      return relative.endsWith(`/${target}`) || target.endsWith(`/${relative}`);
+    });
+    if (suffix.length === 1) {
+      return suffix[0];
+    }
+
+    const byName = files.filter(
+      (file) => path.basename(file.relativePath) === path.basename(target)
+    );
+    return byName.length === 1 ? byName[0] : undefined;
+  }
+
+  /**
+   * 收集文件的上下文片段:变更行所在的函数,以及新增代码中用到的导入符号的声明
+   * @param {string} rootPath - 仓库根目录
+   * @param {string} filePath - 文件绝对路径
+   * @param {string} diff - 文件差异
+   * @returns {ReviewSnippet[]} 上下文片段
+   * @private
+   */
+  private static collectSnippets(
+    rootPath: string,
+    filePath: string,
+    diff: string
+  ): ReviewSnippet[] {
+    const lines = this.readLines(filePath);
+    if (!lines) {
+      return [];
+    }
+
+    const { changedLines, addedText } = this.parseChanges(diff);
+    const relativePath = path.relative(rootPath, filePath).replace(/\\/g, "/");
+    const snippets: ReviewSnippet[] = [];
+    let length = 0;
+    const add = (snippet: ReviewSnippet) => {
+      if (length + snippet.content.length > MAX_CONTEXT_LENGTH) {
+        return;
+      }
+      snippets.push(snippet);
+      length += snippet.content.length;
+    };
+
+    // 变更行所在的函数,多个变更位于同一函数时只收集一次
+    const ranges: [number, number][] = [];
+    for (const line of changedLines) {
+      if (ranges.some(([start, end]) => line >= start && line <= end)) {
+        continue;
+      }
+      const range = this.findEnclosingBlock(lines, line - 1);
+      if (range) {
+        ranges.push([range[0] + 1, range[1] + 1]);
+      }
+    }
+    for (const [start, end] of ranges) {
+      add({
+        relativePath,
+        startLine: start,
+        endLine: end,
+        content: lines.slice(start - 1, end).join("\n"),
+      });
+    }
+
+    // 新增代码中用到的相对导入符号的声明
+    for (const [name, specifier] of this.parseImports(lines.join("\n"))) {
+      if (!new RegExp(`\\b${name.replace(/\$/g, "\\$")}\\b`).test(addedText)) {
+        continue;
+      }
+      const modulePath = this.resolveModule(filePath, specifier);
+      const moduleLines = modulePath && this.readLines(modulePath);
+      if (!modulePath || !moduleLines) {
+        continue;
+      }
+      const range = this.findDeclaration(moduleLines, name);
+      if (range) {
+        add({
+          relativePath: path.relative(rootPath, modulePath).replace(/\\/g, "/"),
+          startLine: range[0] + 1,
+          endLine: range[1] + 1,
+          content: moduleLines.slice(range[0], range[1] + 1).join("\n"),
+        });
+      }
+    }
+
+    return snippets;
+  }
+
+  /**
+   * 读取文件内容并按行拆分
+   * @param {string} filePath - 文件路径
+   * @returns {string[] | undefined} 文件行,文件不存在或无法读取时返回undefined
+   * @private
+   */
+  private static readLines(filePath: string): string[] | undefined {
+    try {
+      if (!fs.statSync(filePath).isFile()) {
+        return undefined;
+      }
+      return fs.readFileSync(filePath, "utf8").split(/\r?\n/);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * 解析差异中的变更
+   * @param {string} diff - 文件差异
+   * @returns 新文件中新增行的行号,以及新增行的文本
+   * @private
+   */
+  private static parseChanges(diff: string): {
+    changedLines: number[];
+    addedText: string;
+  } {
+    const changedLines: number[] = [];
+    const added: string[] = [];
+    let line = 0;
+
+    for (const text of diff.split("\n")) {
+      const header = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/.exec(text);
+      if (header) {
+        line = Number(header[1]);
+        continue;
+      }
+      if (line === 0 || text.startsWith("\\")) {
+        continue;
+      }
+      if (text.startsWith("+")) {
+        changedLines.push(line++);
+        added.push(text.substring(1));
+      } else if (!text.startsWith("-")) {
+        line++;
+      }
+    }
+
+    return { changedLines, addedText: added.join("\n") };
+  }
+
+  /**
+   * 解析相对路径导入的符号
+   * @param {string} content - 文件内容
+   * @returns {[string, string][]} 符号名与模块路径
+   * @private
+   */
+  private static parseImports(content: string): [string, string][] {
+    const imports: [string, string][] = [];
+    for (const match of content.matchAll(IMPORT_PATTERN)) {
+      const [, defaultName, named, specifier] = match;
+      if (defaultName) {
+        imports.push([defaultName, specifier]);
+      }
+      for (const item of named?.split(",") ?? []) {
+        // "type A" 与 "A as B" 都使用模块中声明的名称
+        const name = item
+          .trim()
+          .replace(/^type\s+/, "")
+          .split(/\s+as\s+/)[0];
+        if (/^[\w$]+$/.test(name)) {
+          imports.push([name, specifier]);
+        }
+      }
+    }
+    return imports;
+  }
+
+  /**
+   * 解析相对导入对应的文件
+   * @param {string} fromFile - 导入所在的文件
+   * @param {string} specifier - 模块路径
+   * @returns {string | undefined} 模块文件路径,找不到时返回undefined
+   * @private
+   */
+  private static resolveModule(
+    fromFile: string,
+    specifier: string
+  ): string | undefined {
+    const base = path.resolve(path.dirname(fromFile), specifier);
+    // 编译为 .js 的导入路径可能指向同名的 .ts 源文件
+    const bases = [base, base.replace(/\.js$/, "")];
+    for (const candidate of bases.flatMap((item) =>
+      MODULE_SUFFIXES.map((suffix) => item + suffix)
+    )) {
+      if (fs.existsSync(candidate) && fs.statSync(candidate).isFile()) {
+        return candidate;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * 查找模块中符号的声明
+   * @param {string[]} lines - 模块文件行
+   * @param {string} name - 符号名
+   * @returns {[number, number] | undefined} 声明的起止行索引(从0开始)
+   * @private
+   */
+  private static findDeclaration(
+    lines: string[],
+    name: string
+  ): [number, number] | undefined {
+    const pattern = new RegExp(
+      `^\\s*(?:export\\s+)?(?:default\\s+)?(?:declare\\s+)?(?:abstract\\s+)?(?:async\\s+)?(?:function\\*?|class|interface|type|enum|const|let|var)\\s+${name.replace(
+        /\$/g,
+        "\\$"
+      )}\\b`
+    );
+    const start = lines.findIndex((line) => pattern.test(line));
+    if (start < 0) {
+      return undefined;
+    }
+    const end = this.findBlockEnd(lines, start);
+    return end === undefined ? undefined : [start, end];
+  }
+
+  /**
+   * 查找包含指定行的最内层函数或类
+   * @param {string[]} lines - 文件行
+   * @param {number} index - 行索引(从0开始)
+   * @returns {[number, number] | undefined} 起止行索引,找不到或过长时返回undefined
+   * @private
+   */
+  private static findEnclosingBlock(
+    lines: string[],
+    index: number
+  ): [number, number] | undefined {
+    const indent = this.getIndent(lines[index] ?? "");
+    const limit = Math.max(0, index - MAX_BLOCK_LINES);
+
+    for (
+      let start = Math.min(index, lines.length - 1);
+      start >= limit;
+      start--
+    ) {
+      const line = lines[start];
+      if (
+        !DECLARATION_PATTERN.test(line) ||
+        (start < index && this.getIndent(line) >= indent && line.trim())
+      ) {
+        continue;
+      }
+      const end = this.findBlockEnd(lines, start);
+      if (end !== undefined && end >= index) {
+        return [start, end];
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * 查找从指定行开始的代码块的结束行
+   * 使用花括号的语言按括号配对,其他语言(如 Python)按缩进判断
+   * @param {string[]} lines - 文件行
+   * @param {number} start - 起始行索引
+   * @returns {number | undefined} 结束行索引,超出最大行数时返回undefined
+   * @private
+   */
+  private static findBlockEnd(
+    lines: string[],
+    start: number
+  ): number | undefined {
+    const limit = Math.min(lines.length, start + MAX_BLOCK_LINES);
+    let depth = 0;
+    let opened = false;
+
+    for (let index = start; index < limit; index++) {
+      for (const char of lines[index]) {
+        if (char === "{") {
+          depth++;
+          opened = true;
+        } else if (char === "}") {
+          depth--;
+        }
+      }
+      if (opened && depth <= 0) {
+        return index;
+      }
+      if (!opened && /;\s*$/.test(lines[index])) {
+        return index;
+      }
+      if (!opened && /:\s*$/.test(lines[index])) {
+        return this.findIndentedBlockEnd(lines, index, limit);
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * 按缩进查找代码块的结束行
+   * @param {string[]} lines - 文件行
+   * @param {number} start - 代码块头部行索引
+   * @param {number} limit - 最大行索引(不含)
+   * @returns {number | undefined} 结束行索引,超出最大行数时返回undefined
+   * @private
+   */
+  private static findIndentedBlockEnd(
+    lines: string[],
+    start: number,
+    limit: number
+  ): number | undefined {
+    const indent = this.getIndent(lines[start]);
+    let end = start;
+    for (let index = start + 1; index < lines.length; index++) {
+      if (!lines[index].trim()) {
+        continue;
+      }
+      if (this.getIndent(lines[index]) <= indent) {
+        return end;
+      }
+      if (index >= limit) {
+        return undefined;
+      }
+      end = index;
+    }
+    return end;
+  }
+
+  /**
+   * 获取行的缩进宽度,制表符按4个空格计算
+   * @param {string} line - 文本行
+   * @returns {number} 缩进宽度
+   * @private
+   */
+  private static getIndent(line: string): number {
+    const whitespace = /^\s*/.exec(line)![0];
+    return whitespace.replace(/\t/g, "    ").length;
+  }
+}
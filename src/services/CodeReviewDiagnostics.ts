@@ -0,0 +1,292 @@
+import * as vscode from "vscode";
+import type { CodeReviewIssue } from "../ai/types";
+import { formatMessage } from "../utils/i18n";
+import { notify } from "../utils/notification";
+
+/** 诊断信息的来源名称 */
+const DIAGNOSTIC_SOURCE = "Dish AI Review";
+
+/** 应用修复后移除对应诊断信息的内部命令,不在命令面板中显示 */
+const DISMISS_COMMAND = "dish-ai-commit.codeReview.dismissIssue";
+
+/** 复制审查建议的内部命令,不在命令面板中显示 */
+const COPY_COMMAND = "dish-ai-commit.codeReview.copySuggestion";
+
+/** 快速修复标题中建议内容的最大长度 */
+const MAX_ACTION_TITLE_LENGTH = 60;
+
+/** 问题严重程度对应的诊断级别 */
+const SEVERITY_MAP: Record<
+  CodeReviewIssue["severity"],
+  vscode.DiagnosticSeverity
+> = {
+  ERROR: vscode.DiagnosticSeverity.Error,
+  WARNING: vscode.DiagnosticSeverity.Warning,
+  NOTE: vscode.DiagnosticSeverity.Information,
+};
+
+/**
+ * 已发布的审查问题及其诊断信息
+ */
+interface PublishedIssue {
+  diagnostic: vscode.Diagnostic;
+  issue: CodeReviewIssue;
+}
+
+/**
+ * 代码审查诊断信息管理器
+ * 将审查问题发布到"问题"面板和编辑器中,并为每个问题提供应用修复或复制建议的快速修复
+ */
+export class CodeReviewDiagnostics {
+  private static collection: vscode.DiagnosticCollection | undefined;
+
+  /**
+   * 按文件URI保存已发布的问题,用于在快速修复中找回对应的审查问题
+   * - key: 文件URI字符串
+   * - value: 该文件的问题列表
+   */
+  private static issues = new Map<string, PublishedIssue[]>();
+
+  /**
+   * 注册诊断集合、快速修复提供程序和内部命令
+   * @param {vscode.ExtensionContext} context - VS Code扩展上下文
+   */
+  static register(context: vscode.ExtensionContext): void {
+    this.collection = vscode.languages.createDiagnosticCollection(
+      "dish-ai-commit.codeReview"
+    );
+
+    context.subscriptions.push(
+      this.collection,
+      vscode.languages.registerCodeActionsProvider(
+        { scheme: "file" },
+        {
+          provideCodeActions: (document, range) =>
+            this.getActions(document, range),
+        },
+        { providedCodeActionKinds: [vscode.CodeActionKind.QuickFix] }
+      ),
+      vscode.commands.registerCommand(
+        DISMISS_COMMAND,
+        (uri: vscode.Uri, diagnostic: vscode.Diagnostic) =>
+          this.dismiss(uri, diagnostic)
+      ),
+      vscode.commands.registerCommand(COPY_COMMAND, (suggestion: string) =>
+        this.copySuggestion(suggestion)
+      ),
+      { dispose: () => this.issues.clear() }
+    );
+  }
+
+  /**
+   * 发布审查问题,替换这些文件之前的审查结果
+   * 行号超出文件范围的问题会限制在文件的最后一行
+   * @param {Map<string, CodeReviewIssue[]>} issuesByFile - 文件绝对路径到问题列表的映射
+   */
+  static async publish(
+    issuesByFile: Map<string, CodeReviewIssue[]>
+  ): Promise<void> {
+    for (const [filePath, issues] of issuesByFile) {
+      const uri = vscode.Uri.file(filePath);
+      let document: vscode.TextDocument;
+      try {
+        document = await vscode.workspace.openTextDocument(uri);
+      } catch (error) {
+        // 文件已删除时无法定位问题
+        console.warn(`Failed to open ${filePath}:`, error);
+        continue;
+      }
+
+      const published = issues.map((issue) => ({
+        issue,
+        diagnostic: this.createDiagnostic(document, issue),
+      }));
+      this.issues.set(uri.toString(), published);
+      this.collection?.set(
+        uri,
+        published.map(({ diagnostic }) => diagnostic)
+      );
+    }
+  }
+
+  /**
+   * 清除所有审查诊断信息
+   */
+  static clear(): void {
+    this.issues.clear();
+    this.collection?.clear();
+  }
+
+  /**
+   * 根据审查问题创建诊断信息,范围覆盖问题的所有行
+   * @param {vscode.TextDocument} document - 问题所在文档
+   * @param {CodeReviewIssue} issue - 审查问题
+   * @returns {vscode.Diagnostic} 诊断信息
+   * @private
+   */
+  private static createDiagnostic(
+    document: vscode.TextDocument,
+    issue: CodeReviewIssue
+  ): vscode.Diagnostic {
+    const lastLine = document.lineCount - 1;
+    const startLine = Math.min(issue.startLine - 1, lastLine);
+    const endLine = Math.min(
+      Math.max((issue.endLine ?? issue.startLine) - 1, startLine),
+      lastLine
+    );
+    const range = new vscode.Range(
+      startLine,
+      document.lineAt(startLine).firstNonWhitespaceCharacterIndex,
+      endLine,
+      document.lineAt(endLine).range.end.character
+    );
+
+    const diagnostic = new vscode.Diagnostic(
+      range,
+      issue.suggestion
+        ? `${issue.description}\n${issue.suggestion}`
+        : issue.description,
+      SEVERITY_MAP[issue.severity]
+    );
+    diagnostic.source = DIAGNOSTIC_SOURCE;
+    if (issue.documentation) {
+      try {
+        diagnostic.code = {
+          value: "docs",
+          target: vscode.Uri.parse(issue.documentation, true),
+        };
+      } catch {
+        // 忽略无效的文档链接
+      }
+    }
+    return diagnostic;
+  }
+
+  /**
+   * 为选中范围内的每个问题创建快速修复
+   * 提供了修复代码的问题直接应用修复,其余问题的建议无法自动应用,复制到剪贴板供用户参考
+   * @param {vscode.TextDocument} document - 当前文档
+   * @param {vscode.Range} range - 选中范围
+   * @returns {vscode.CodeAction[]} 快速修复列表
+   * @private
+   */
+  private static getActions(
+    document: vscode.TextDocument,
+    range: vscode.Range
+  ): vscode.CodeAction[] {
+    const published = this.issues.get(document.uri.toString()) ?? [];
+    return published
+      .filter(
+        ({ diagnostic }) => diagnostic.range.intersection(range) !== undefined
+      )
+      .map(({ diagnostic, issue }) =>
+        issue.replacement !== undefined
+          ? this.createApplyAction(document, diagnostic, issue)
+          : this.createCopyAction(diagnostic, issue)
+      );
+  }
+
+  /**
+   * 创建应用修复代码的快速修复,应用后移除对应的诊断信息
+   * @param {vscode.TextDocument} document - 当前文档
+   * @param {vscode.Diagnostic} diagnostic - 问题的诊断信息
+   * @param {CodeReviewIssue} issue - 提供了修复代码的审查问题
+   * @returns {vscode.CodeAction} 快速修复
+   * @private
+   */
+  private static createApplyAction(
+    document: vscode.TextDocument,
+    diagnostic: vscode.Diagnostic,
+    issue: CodeReviewIssue
+  ): vscode.CodeAction {
+    const action = new vscode.CodeAction(
+      formatMessage("codeReview.action.apply", [this.getActionTitle(issue)]),
+      vscode.CodeActionKind.QuickFix
+    );
+    // 替换问题涉及的整行,保留行尾换行
+    const lines = new vscode.Range(
+      diagnostic.range.start.line,
+      0,
+      diagnostic.range.end.line,
+      document.lineAt(diagnostic.range.end.line).range.end.character
+    );
+    action.edit = new vscode.WorkspaceEdit();
+    action.edit.replace(
+      document.uri,
+      lines,
+      issue.replacement!.replace(/\r?\n$/, "")
+    );
+    action.diagnostics = [diagnostic];
+    action.isPreferred = true;
+    action.command = {
+      command: DISMISS_COMMAND,
+      title: "",
+      arguments: [document.uri, diagnostic],
+    };
+    return action;
+  }
+
+  /**
+   * 创建复制建议的快速修复,问题仍保留在"问题"面板中
+   * @param {vscode.Diagnostic} diagnostic - 问题的诊断信息
+   * @param {CodeReviewIssue} issue - 没有修复代码的审查问题
+   * @returns {vscode.CodeAction} 快速修复
+   * @private
+   */
+  private static createCopyAction(
+    diagnostic: vscode.Diagnostic,
+    issue: CodeReviewIssue
+  ): vscode.CodeAction {
+    const action = new vscode.CodeAction(
+      formatMessage("codeReview.action.copy", [this.getActionTitle(issue)]),
+      vscode.CodeActionKind.QuickFix
+    );
+    action.diagnostics = [diagnostic];
+    action.command = {
+      command: COPY_COMMAND,
+      title: "",
+      arguments: [(issue.suggestion || issue.description).trim()],
+    };
+    return action;
+  }
+
+  /**
+   * 获取快速修复标题中的建议内容,过长时截断
+   * @param {CodeReviewIssue} issue - 审查问题
+   * @returns {string} 建议内容
+   * @private
+   */
+  private static getActionTitle(issue: CodeReviewIssue): string {
+    const suggestion = (issue.suggestion || issue.description).trim();
+    return suggestion.length > MAX_ACTION_TITLE_LENGTH
+      ? `${suggestion.substring(0, MAX_ACTION_TITLE_LENGTH)}…`
+      : suggestion;
+  }
+
+  /**
+   * 将建议复制到剪贴板
+   * @param {string} suggestion - 建议内容
+   * @private
+   */
+  private static async copySuggestion(suggestion: string): Promise<void> {
+    await vscode.env.clipboard.writeText(suggestion);
+    notify.info("codeReview.suggestion.copied");
+  }
+
+  /**
+   * 移除已应用修复的问题
+   * @param {vscode.Uri} uri - 文件URI
+   * @param {vscode.Diagnostic} diagnostic - 已修复问题的诊断信息
+   * @private
+   */
+  private static dismiss(uri: vscode.Uri, diagnostic: vscode.Diagnostic): void {
+    const published = (this.issues.get(uri.toString()) ?? []).filter(
+      (item) => item.diagnostic !== diagnostic
+    );
+    this.issues.set(uri.toString(), published);
+    this.collection?.set(
+      uri,
+      published.map((item) => item.diagnostic)
+    );
+  }
+}
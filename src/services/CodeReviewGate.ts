@@ -0,0 +1,200 @@
+import * as vscode from "vscode";
+import type { AIRequestParams, CodeReviewIssue } from "../ai/types";
+import { ConfigurationManager } from "../config/ConfigurationManager";
+import type { CommitGuard } from "../scm/CommitGuard";
+import { CommitGuardRegistry } from "../scm/CommitGuard";
+import type { ISCMProvider } from "../scm/SCMProvider";
+import { validateAndGetModel } from "../utils/ai/modelValidation";
+import { globToRegExp } from "../utils/diff/ScopeResolver";
+import { formatMessage, getMessage } from "../utils/i18n";
+import {
+  CodeReviewContextService,
+  type ReviewFile,
+} from "./CodeReviewContextService";
+import { CodeReviewDiagnostics } from "./CodeReviewDiagnostics";
+import { CodeReviewService } from "./CodeReviewService";
+
+/** 问题严重程度从低到高的顺序 */
+const SEVERITY_ORDER: CodeReviewIssue["severity"][] = [
+  "NOTE",
+  "WARNING",
+  "ERROR",
+];
+
+/**
+ * 提交前代码审查
+ * 通过扩展提交时自动审查即将提交的变更,发现达到阈值的问题时按配置确认或取消提交,
+ * 发现的问题同时发布为编辑器诊断信息
+ * @implements {CommitGuard}
+ */
+export class CodeReviewGate implements CommitGuard {
+  /**
+   * 注册提交前代码审查
+   * @param {vscode.ExtensionContext} context - VS Code扩展上下文
+   */
+  static register(context: vscode.ExtensionContext): void {
+    context.subscriptions.push(
+      CommitGuardRegistry.register(new CodeReviewGate())
+    );
+  }
+
+  /**
+   * 审查即将提交的变更
+   * 没有变更时直接提交;获取差异或审查失败时询问是否继续提交,不会因为模型不可用而无法提交
+   * @param {ISCMProvider} scmProvider - 执行提交的SCM提供程序
+   * @param {string} message - 提交信息
+   * @param {string[]} [files] - 提交的文件,未指定时审查所有变更
+   * @returns {Promise<boolean>} 是否允许提交
+   */
+  async check(
+    scmProvider: ISCMProvider,
+    message: string,
+    files?: string[]
+  ): Promise<boolean> {
+    const configuration = ConfigurationManager.getInstance().getConfiguration();
+    const { gateMode, gateSeverity, gateIgnore } =
+      configuration.features.codeReview;
+    if (gateMode === "off") {
+      return true;
+    }
+
+    const ignored = (gateIgnore ?? []).map(globToRegExp);
+    let reviewFiles: ReviewFile[];
+    let issues: CodeReviewIssue[];
+    try {
+      // 优先使用原始差异:不会询问是否简化差异,没有变更时返回空字符串而不是抛出错误
+      const diff = scmProvider.getRawDiff
+        ? await scmProvider.getRawDiff(files)
+        : await scmProvider.getDiff(files);
+      if (!diff?.trim()) {
+        return true;
+      }
+      reviewFiles = CodeReviewContextService.collect(
+        scmProvider.rootPath,
+        diff,
+        scmProvider.type,
+        (relativePath) => !ignored.some((pattern) => pattern.test(relativePath))
+      );
+      if (reviewFiles.length === 0) {
+        return true;
+      }
+
+      issues = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: getMessage("commit.gate.reviewing"),
+        },
+        async (progress) => {
+          const { aiProvider, selectedModel } = await validateAndGetModel(
+            configuration.base.provider,
+            configuration.base.model
+          );
+          const params: AIRequestParams = {
+            ...configuration.base,
+            ...configuration.features.codeAnalysis,
+            diff: "",
+            model: selectedModel,
+            scm: scmProvider.type,
+            additionalContext: "",
+          };
+          const { review } = await CodeReviewService.reviewChangeset(
+            aiProvider,
+            params,
+            reviewFiles,
+            progress
+          );
+          return review.issues;
+        }
+      );
+    } catch (error) {
+      console.error("Pre-commit code review failed:", error);
+      return this.confirm(
+        formatMessage("commit.gate.review.failed", [
+          error instanceof Error ? error.message : String(error),
+        ])
+      );
+    }
+
+    // 只关注提交的文件中达到阈值的问题,不包括作为上下文的其他文件
+    const threshold = SEVERITY_ORDER.indexOf(
+      gateSeverity as CodeReviewIssue["severity"]
+    );
+    const findings = issues.filter(
+      (issue) =>
+        SEVERITY_ORDER.indexOf(issue.severity) >= threshold &&
+        reviewFiles.some((file) => file.relativePath === issue.filePath)
+    );
+    if (findings.length === 0) {
+      return true;
+    }
+
+    await CodeReviewDiagnostics.publish(
+      new Map(
+        reviewFiles.map((file) => [
+          file.filePath,
+          issues.filter((issue) => issue.filePath === file.relativePath),
+        ])
+      )
+    );
+
+    if (gateMode === "block") {
+      const showIssues = getMessage("commit.gate.show.issues");
+      const choice = await vscode.window.showErrorMessage(
+        formatMessage("commit.gate.issues.block", [
+          findings.length,
+          gateSeverity,
+        ]),
+        { modal: true, detail: this.getDetail(findings) },
+        showIssues
+      );
+      if (choice === showIssues) {
+        await vscode.commands.executeCommand("workbench.actions.view.problems");
+      }
+      return false;
+    }
+
+    return this.confirm(
+      formatMessage("commit.gate.issues.warn", [findings.length, gateSeverity]),
+      this.getDetail(findings)
+    );
+  }
+
+  /**
+   * 询问是否继续提交
+   * @param {string} text - 提示内容
+   * @param {string} [detail] - 详细说明
+   * @returns {Promise<boolean>} 选择继续提交时返回true
+   * @private
+   */
+  private async confirm(text: string, detail?: string): Promise<boolean> {
+    const commitAnyway = getMessage("commit.gate.commit.anyway");
+    const showIssues = getMessage("commit.gate.show.issues");
+    const choice = await vscode.window.showWarningMessage(
+      text,
+      { modal: true, detail },
+      commitAnyway,
+      ...(detail ? [showIssues] : [])
+    );
+    if (choice === showIssues) {
+      await vscode.commands.executeCommand("workbench.actions.view.problems");
+    }
+    return choice === commitAnyway;
+  }
+
+  /**
+   * 生成问题列表的说明
+   * @param {CodeReviewIssue[]} issues - 达到阈值的问题
+   * @returns {string} 每行一个问题,包含位置和描述
+   * @private
+   */
+  private getDetail(issues: CodeReviewIssue[]): string {
+    return issues
+      .map(
+        (issue) =>
+          `[${issue.severity}] ${issue.filePath}:${
+            issue.startLine
+          } ${issue.description}`
+      )
+      .join("\n");
+  }
+}
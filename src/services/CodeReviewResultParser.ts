@@ -0,0 +1,76 @@
+import type { CodeReviewIssue, CodeReviewResult } from "../ai/types";
+import { getMessage } from "../utils/i18n";
+
+/** 支持的问题严重程度 */
+const SEVERITIES: CodeReviewIssue["severity"][] = ["NOTE", "WARNING", "ERROR"];
+
+/**
+ * 代码审查结果解析器,将模型输出的JSON校验为 CodeReviewResult
+ */
+export class CodeReviewResultParser {
+  /**
+   * 解析并校验模型输出的审查结果
+   * 缺少必要字段的问题会被忽略,未知的严重程度按 WARNING 处理
+   * @param {string} content - 模型输出,可能包含代码块标记或前后说明文字
+   * @returns {CodeReviewResult} 校验后的审查结果
+   * @throws {Error} 当输出不是包含 issues 数组的JSON对象时抛出
+   */
+  static parse(content: string): CodeReviewResult {
+    const start = content.indexOf("{");
+    const end = content.lastIndexOf("}");
+    let result: any;
+    try {
+      result = JSON.parse(content.substring(start, end + 1));
+    } catch (error) {
+      console.warn("Failed to parse code review result:", error);
+    }
+    if (start < 0 || !result || !Array.isArray(result.issues)) {
+      throw new Error(getMessage("codeReview.invalid.response"));
+    }
+
+    return {
+      summary: typeof result.summary === "string" ? result.summary : "",
+      issues: result.issues
+        .map((issue: any) => this.parseIssue(issue))
+        .filter(Boolean),
+    };
+  }
+
+  /**
+   * 校验单个问题
+   * @param {any} issue - 模型输出的问题对象
+   * @returns {CodeReviewIssue | undefined} 校验后的问题,缺少文件、行号或描述时返回undefined
+   * @private
+   */
+  private static parseIssue(issue: any): CodeReviewIssue | undefined {
+    const startLine = Math.floor(Number(issue?.startLine));
+    const endLine = Math.floor(Number(issue?.endLine));
+    if (
+      typeof issue?.filePath !== "string" ||
+      !issue.filePath.trim() ||
+      typeof issue.description !== "string" ||
+      !issue.description.trim() ||
+      !(startLine >= 1)
+    ) {
+      return undefined;
+    }
+
+    const severity = String(issue.severity).toUpperCase();
+    const optional = (value: unknown) =>
+      typeof value === "string" && value.trim() ? value : undefined;
+    return {
+      severity: SEVERITIES.includes(severity as CodeReviewIssue["severity"])
+        ? (severity as CodeReviewIssue["severity"])
+        : "WARNING",
+      filePath: issue.filePath.trim().replace(/^[ab]\//, ""),
+      startLine,
+      endLine: endLine >= startLine ? endLine : undefined,
+      description: issue.description.trim(),
+      suggestion: typeof issue.suggestion === "string" ? issue.suggestion : "",
+      documentation: optional(issue.documentation),
+      code: optional(issue.code),
+      replacement:
+        typeof issue.replacement === "string" ? issue.replacement : undefined,
+    };
+  }
+}
@@ -0,0 +1,117 @@
+import * as vscode from "vscode";
+import type {
+  AIProvider,
+  AIRequestParams,
+  CodeReviewResult,
+} from "../ai/types";
+import { getCodeReviewPrompt } from "../ai/utils/generateHelper";
+import { getInputBudget } from "../ai/utils/chunkedGenerate";
+import { getChangesetReviewInput } from "../prompt/codeReview";
+import { formatMessage, getMessage } from "../utils/i18n";
+import { notify } from "../utils/notification/NotificationManager";
+import {
+  CodeReviewContextService,
+  type ReviewFile,
+} from "./CodeReviewContextService";
+
+/** 审查进度报告对象 */
+export type ReviewProgress = vscode.Progress<{
+  message?: string;
+  increment?: number;
+}>;
+
+/**
+ * 变更集的审查结果
+ */
+export interface ChangesetReview {
+  /** 合并后的审查结果,问题的文件路径为仓库相对路径 */
+  review: CodeReviewResult;
+  /** 审查成功的文件,审查失败的批次中的文件不包含在内 */
+  files: ReviewFile[];
+}
+
+/**
+ * 代码审查服务
+ * 审查整个变更集,供审查命令和提交前审查共用
+ */
+export class CodeReviewService {
+  /**
+   * 审查整个变更集
+   * 所有文件的差异连同变更所在的函数和引用的导入符号一起发送,以发现跨文件的问题;
+   * 超出模型输入预算时按文件分批并行审查,占用 80% 的进度
+   * @param {AIProvider} aiProvider - AI提供程序实例
+   * @param {AIRequestParams} params - 审查请求参数
+   * @param {ReviewFile[]} files - 收集了上下文的审查文件
+   * @param {ReviewProgress} [progress] - 进度报告对象
+   * @returns {Promise<ChangesetReview>} 合并后的审查结果
+   * @throws {Error} 所有批次都审查失败时抛出,只有一批时抛出该批的错误
+   */
+  static async reviewChangeset(
+    aiProvider: AIProvider,
+    params: AIRequestParams,
+    files: ReviewFile[],
+    progress?: ReviewProgress
+  ): Promise<ChangesetReview> {
+    const batches = CodeReviewContextService.createBatches(
+      files,
+      getInputBudget(params, getCodeReviewPrompt(params))
+    );
+
+    const results = await Promise.all(
+      batches.map(async (batch, index) => {
+        try {
+          if (batches.length > 1) {
+            progress?.report({
+              message: formatMessage("review.batch.progress", [
+                index + 1,
+                batches.length,
+              ]),
+            });
+          }
+          const reviewResult = await aiProvider.generateCodeReview?.({
+            ...params,
+            diff: getChangesetReviewInput(
+              batch.map((file) => file.diff).join("\n\n"),
+              CodeReviewContextService.formatContext(batch)
+            ),
+          });
+          progress?.report({ increment: 80 / batches.length });
+          return reviewResult?.review;
+        } catch (error) {
+          // 只有一批时直接报告错误原因
+          if (batches.length === 1) {
+            throw error;
+          }
+          await notify.warn(
+            formatMessage("review.batch.failed", [index + 1, batches.length])
+          );
+          console.error(`Failed to review batch ${index + 1}:`, error);
+          return undefined;
+        }
+      })
+    );
+
+    const reviews = results.filter(
+      (review): review is CodeReviewResult => review !== undefined
+    );
+    if (reviews.length === 0) {
+      throw new Error(getMessage("review.all.failed"));
+    }
+
+    return {
+      review: {
+        summary: reviews.map((review) => review.summary).join("\n\n"),
+        // 将模型返回的路径统一为变更集中的仓库相对路径
+        issues: reviews
+          .flatMap((review) => review.issues)
+          .map((issue) => ({
+            ...issue,
+            filePath:
+              CodeReviewContextService.resolveFile(issue.filePath, files)
+                ?.relativePath ?? issue.filePath,
+          })),
+      },
+      files: batches.filter((_, index) => results[index] !== undefined).flat(),
+    };
+  }
+}
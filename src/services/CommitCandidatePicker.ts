@@ -0,0 +1,209 @@
+import * as vscode from "vscode";
+import { getMessage } from "../utils/i18n";
+import { notify } from "../utils/notification";
+
+/**
+ * 生成的候选提交信息
+ */
+export interface CommitCandidate {
+  /** 提交信息 */
+  content: string;
+  /** 生成时使用的采样温度 */
+  temperature?: number;
+}
+
+/**
+ * 候选提交信息选择器的选项
+ */
+export interface CommitCandidatePickerOptions {
+  /** 生成候选所用的差异,在预览中显示 */
+  diff: string;
+  /** 差异的源代码管理类型 */
+  scm: "git" | "svn";
+  /** 重新生成指定的候选 */
+  regenerate: (candidate: CommitCandidate) => Promise<CommitCandidate>;
+}
+
+interface CandidateItem extends vscode.QuickPickItem {
+  candidate: CommitCandidate;
+}
+
+interface CandidateButtons {
+  preview: vscode.QuickInputButton;
+  edit: vscode.QuickInputButton;
+  regenerate: vscode.QuickInputButton;
+}
+
+/**
+ * 通过快速选择从多条生成的提交信息中选择一条
+ */
+export class CommitCandidatePicker {
+  /**
+   * 显示候选提交信息,用户可以采用、编辑或重新生成其中一条
+   * @param candidates - 候选提交信息
+   * @param options - 选择器选项
+   * @returns 选择的提交信息,取消时返回undefined
+   */
+  static async pick(
+    candidates: CommitCandidate[],
+    options: CommitCandidatePickerOptions
+  ): Promise<string | undefined> {
+    const buttons = this.createButtons();
+    const quickPick = vscode.window.createQuickPick<CandidateItem>();
+    quickPick.title = getMessage("commit.candidate.picker.title");
+    quickPick.placeholder = getMessage("commit.candidate.picker.placeholder");
+    quickPick.matchOnDetail = true;
+    quickPick.ignoreFocusOut = true;
+    quickPick.items = candidates.map((candidate, index) =>
+      this.createItem(candidate, index, buttons)
+    );
+
+    return new Promise<string | undefined>((resolve) => {
+      let resolved = false;
+      let editing = false;
+      const finish = (message: string | undefined) => {
+        if (!resolved) {
+          resolved = true;
+          resolve(message);
+          quickPick.hide();
+        }
+      };
+
+      quickPick.onDidAccept(() => {
+        finish(quickPick.selectedItems[0]?.candidate.content);
+      });
+
+      quickPick.onDidTriggerItemButton(async ({ button, item }) => {
+        if (button === buttons.preview) {
+          await this.showPreview(item.candidate, options);
+        } else if (button === buttons.edit) {
+          editing = true;
+          const edited = await this.editSubject(item.candidate);
+          editing = false;
+          if (edited !== undefined) {
+            finish(edited);
+          } else {
+            quickPick.show();
+          }
+        } else if (button === buttons.regenerate) {
+          quickPick.busy = true;
+          try {
+            const candidate = await options.regenerate(item.candidate);
+            const index = quickPick.items.indexOf(item);
+            quickPick.items = quickPick.items.map((current, i) =>
+              i === index ? this.createItem(candidate, i, buttons) : current
+            );
+          } catch (error) {
+            if (error instanceof Error) {
+              notify.error("generate.commit.failed", [error.message]);
+            }
+          } finally {
+            quickPick.busy = false;
+          }
+        }
+      });
+
+      quickPick.onDidHide(() => {
+        // 打开编辑输入框时会隐藏选择器,编辑结果由输入框返回
+        if (!resolved && !editing) {
+          finish(undefined);
+        }
+      });
+
+      quickPick.show();
+    }).finally(() => quickPick.dispose());
+  }
+
+  /**
+   * 创建每个候选的操作按钮
+   * @returns 预览、编辑和重新生成按钮
+   * @private
+   */
+  private static createButtons(): CandidateButtons {
+    return {
+      preview: {
+        iconPath: new vscode.ThemeIcon("eye"),
+        tooltip: getMessage("commit.candidate.preview"),
+      },
+      edit: {
+        iconPath: new vscode.ThemeIcon("edit"),
+        tooltip: getMessage("commit.candidate.edit"),
+      },
+      regenerate: {
+        iconPath: new vscode.ThemeIcon("refresh"),
+        tooltip: getMessage("commit.candidate.regenerate"),
+      },
+    };
+  }
+
+  /**
+   * 为候选创建快速选择项
+   * @param candidate - 候选提交信息
+   * @param index - 候选的序号
+   * @param buttons - 操作按钮
+   * @returns 快速选择项
+   * @private
+   */
+  private static createItem(
+    candidate: CommitCandidate,
+    index: number,
+    buttons: CandidateButtons
+  ): CandidateItem {
+    const [subject, ...body] = candidate.content.trim().split("\n");
+    return {
+      label: subject,
+      description:
+        candidate.temperature !== undefined
+          ? `#${index + 1} · temperature ${candidate.temperature}`
+          : `#${index + 1}`,
+      detail: body
+        .map((line) => line.trim())
+        .filter(Boolean)
+        .join(" "),
+      buttons: [buttons.preview, buttons.edit, buttons.regenerate],
+      candidate,
+    };
+  }
+
+  /**
+   * 在侧边打开候选及其对应的差异,布局与 `git commit --verbose` 相同
+   * @param candidate - 候选提交信息
+   * @param options - 选择器选项
+   * @private
+   */
+  private static async showPreview(
+    candidate: CommitCandidate,
+    options: CommitCandidatePickerOptions
+  ): Promise<void> {
+    const document = await vscode.workspace.openTextDocument({
+      content: `${candidate.content.trim()}\n\n# ------------------------ >8 ------------------------\n${options.diff}`,
+      language: options.scm === "git" ? "git-commit" : "diff",
+    });
+    await vscode.window.showTextDocument(document, {
+      viewColumn: vscode.ViewColumn.Beside,
+      preview: true,
+      preserveFocus: true,
+    });
+  }
+
+  /**
+   * 编辑候选的标题行,保留正文
+   * @param candidate - 候选提交信息
+   * @returns 编辑后的提交信息,取消时返回undefined
+   * @private
+   */
+  private static async editSubject(
+    candidate: CommitCandidate
+  ): Promise<string | undefined> {
+    const [subject, ...body] = candidate.content.trim().split("\n");
+    const edited = await vscode.window.showInputBox({
+      title: getMessage("commit.candidate.edit"),
+      value: subject,
+      ignoreFocusOut: true,
+    });
+    if (edited === undefined) {
+      return undefined;
+    }
+    return [edited, ...body].join("\n");
+  }
+}
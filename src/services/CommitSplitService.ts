@@ -0,0 +1,218 @@
+import * as path from "path";
+import type { ISCMProvider } from "../scm/SCMProvider";
+import type { DiffHunk } from "../utils/diff/types";
+import { DiffSplitter } from "../utils/diff/DiffSplitter";
+import { getMessage } from "../utils/i18n";
+
+/**
+ * 拆分变更时建议的提交
+ */
+export interface CommitSplitGroup {
+  /** 提交信息 */
+  message: string;
+  /** 提交包含的变更块,按差异中的顺序排列 */
+  hunks: DiffHunk[];
+  /** 变更的文件,相对于仓库根目录 */
+  files: string[];
+}
+
+/**
+ * 将一组变更拆分为多个逻辑提交
+ * 由模型对差异中的变更块分组;Git将每组变更块作为补丁暂存,
+ * SVN无法只提交文件的一部分,按整个文件提交
+ */
+export class CommitSplitService {
+  /**
+   * 将差异拆分为编号的变更块
+   * @param diff - 全部变更的差异
+   * @param scm - 源代码管理类型
+   * @returns 按差异中的顺序排列的变更块
+   */
+  static splitHunks(diff: string, scm: "git" | "svn"): DiffHunk[] {
+    const chunks =
+      scm === "svn"
+        ? DiffSplitter.splitSvnDiff(diff)
+        : DiffSplitter.splitGitDiff(diff);
+    return DiffSplitter.splitHunks(chunks, scm);
+  }
+
+  /**
+   * 将变更块格式化为模型输入
+   * @param hunks - 全部变更块
+   * @returns 每个变更块一段,以 "### <id> <file>" 开头
+   */
+  static formatHunks(hunks: DiffHunk[]): string {
+    return hunks
+      .map(
+        (hunk) =>
+          `### ${hunk.id} ${hunk.filename}\n${hunk.content || hunk.header}`
+      )
+      .join("\n\n");
+  }
+
+  /**
+   * 解析模型建议的提交
+   * 忽略未知和重复的变更块编号;模型遗漏的变更块加入修改同一文件的提交,否则加入最后一个提交
+   * @param response - 包含JSON拆分方案的模型响应
+   * @param hunks - 全部变更块
+   * @param wholeFiles - 文件是否不能拆分到多个提交中(SVN)
+   * @returns 按创建顺序排列的提交
+   * @throws {Error} 当响应不是有效的拆分方案时抛出错误
+   */
+  static parsePlan(
+    response: string,
+    hunks: DiffHunk[],
+    wholeFiles: boolean
+  ): CommitSplitGroup[] {
+    const plan = this.parseJson(response);
+    const commits: unknown =
+      typeof plan === "object" && plan !== null && "commits" in plan
+        ? plan.commits
+        : undefined;
+    if (!Array.isArray(commits)) {
+      throw new Error(getMessage("commit.split.invalid.response"));
+    }
+
+    const byId = new Map(hunks.map((hunk) => [hunk.id, hunk]));
+    const assigned = new Map<DiffHunk, number>();
+    const groups = (commits as unknown[])
+      .filter(
+        (commit): commit is { message: string; hunks?: unknown } =>
+          typeof commit === "object" &&
+          commit !== null &&
+          "message" in commit &&
+          typeof commit.message === "string" &&
+          commit.message.trim() !== ""
+      )
+      .map((commit, index) => {
+        const ids: unknown[] = Array.isArray(commit.hunks) ? commit.hunks : [];
+        for (const id of ids) {
+          const hunk = byId.get(String(id).trim());
+          if (hunk && !assigned.has(hunk)) {
+            assigned.set(hunk, index);
+          }
+        }
+        return commit.message.trim();
+      });
+    if (groups.length === 0) {
+      throw new Error(getMessage("commit.split.invalid.response"));
+    }
+
+    for (const hunk of hunks) {
+      const fileGroups = hunks
+        .filter((other) => other.filename === hunk.filename)
+        .flatMap((other) => assigned.get(other) ?? []);
+      // 不能拆分的文件放入第一个修改它的提交
+      if (wholeFiles && fileGroups.length > 0) {
+        assigned.set(hunk, Math.min(...fileGroups));
+      } else if (!assigned.has(hunk)) {
+        assigned.set(
+          hunk,
+          fileGroups.length > 0 ? Math.min(...fileGroups) : groups.length - 1
+        );
+      }
+    }
+
+    return groups
+      .map((message, index) => {
+        const groupHunks = hunks.filter((hunk) => assigned.get(hunk) === index);
+        return {
+          message,
+          hunks: groupHunks,
+          files: [...new Set(groupHunks.map((hunk) => hunk.filename))],
+        };
+      })
+      .filter((group) => group.hunks.length > 0);
+  }
+
+  /**
+   * 由变更块生成可以通过 git apply 应用的补丁
+   * 不包含没有变更块的整个文件的变更,见 getWholeFiles
+   * @param hunks - 按差异中的顺序排列的变更块
+   * @returns 补丁内容,只有整个文件的变更时为空字符串
+   */
+  static buildPatch(hunks: DiffHunk[]): string {
+    const files = new Map<string, string[]>();
+    for (const hunk of hunks.filter((item) => item.content)) {
+      files.set(hunk.header, [...(files.get(hunk.header) ?? []), hunk.content]);
+    }
+    return [...files.entries()]
+      .map(([header, contents]) => [header, ...contents].join("\n") + "\n")
+      .join("");
+  }
+
+  /**
+   * 获取按整个文件变更的文件,如二进制文件和仅重命名的文件,
+   * 这些文件没有可应用的变更块,需要按文件暂存
+   * @param hunks - 提交包含的变更块
+   * @returns 相对于仓库根目录的文件路径,包括重命名后的路径
+   */
+  static getWholeFiles(hunks: DiffHunk[]): string[] {
+    return hunks
+      .filter((hunk) => !hunk.content)
+      .flatMap((hunk) => {
+        const target = hunk.header.match(/^rename to (.+)$/m)?.[1];
+        return target ? [hunk.filename, target] : [hunk.filename];
+      });
+  }
+
+  /**
+   * 通过SCM提供程序依次创建提交
+   * 提供程序支持部分暂存时,先取消所有暂存,每个提交只暂存自己的变更块
+   * @param scmProvider - 仓库的SCM提供程序
+   * @param groups - 要创建的提交
+   * @param onCommit - 创建每个提交之前调用
+   * @throws {Error} 当暂存或提交失败时抛出错误,已创建的提交会保留
+   */
+  static async commit(
+    scmProvider: ISCMProvider,
+    groups: CommitSplitGroup[],
+    onCommit?: (group: CommitSplitGroup, index: number) => void
+  ): Promise<void> {
+    const partial =
+      !!scmProvider.stagePatch &&
+      !!scmProvider.stageFiles &&
+      !!scmProvider.unstageAll;
+    if (partial) {
+      await scmProvider.unstageAll!();
+    }
+
+    for (const [index, group] of groups.entries()) {
+      onCommit?.(group, index);
+      if (partial) {
+        const patch = this.buildPatch(group.hunks);
+        const wholeFiles = this.getWholeFiles(group.hunks);
+        if (patch) {
+          await scmProvider.stagePatch!(patch);
+        }
+        if (wholeFiles.length > 0) {
+          await scmProvider.stageFiles!(wholeFiles);
+        }
+      }
+      await scmProvider.commit(
+        group.message,
+        group.files.map((file) => path.join(scmProvider.rootPath, file))
+      );
+    }
+  }
+
+  /**
+   * 提取模型响应中的JSON对象
+   * @param response - 模型响应,可能包含在代码块中
+   * @returns 解析后的值,响应不是JSON时返回undefined
+   * @private
+   */
+  private static parseJson(response: string): unknown {
+    const start = response.indexOf("{");
+    const end = response.lastIndexOf("}");
+    if (start < 0 || end < start) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(response.substring(start, end + 1));
+    } catch (error) {
+      console.warn("Failed to parse commit split plan:", error);
+      return undefined;
+    }
+  }
+}
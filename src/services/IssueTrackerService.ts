@@ -0,0 +1,305 @@
+import type { JiraIssue } from "../types/weeklyReport";
+import type { ISCMProvider } from "../scm/SCMProvider";
+import type { ExtensionConfiguration } from "../config/types";
+import type { ProjectConvention } from "../config/ProjectConvention";
+import { CommitMessageParser } from "../utils/commitlint/CommitMessageParser";
+import { notify } from "../utils/notification/NotificationManager";
+
+/** 任务跟踪配置 */
+export type IssueTrackerConfig =
+  ExtensionConfiguration["features"]["issueTracker"];
+
+/** 任务单编号在提交信息中的插入位置 */
+export type TicketPosition = "prefix" | "footer" | "none";
+
+/**
+ * 与本次提交的变更相关的任务单
+ */
+export interface TicketContext {
+  /** 任务单编号,按找到的顺序排列 */
+  keys: string[];
+  /** 从任务跟踪系统获取的任务,未启用获取时为空 */
+  issues: JiraIssue[];
+  /** 编号的插入位置 */
+  position: TicketPosition;
+}
+
+/** 单次任务跟踪系统请求的超时时间(毫秒) */
+const REQUEST_TIMEOUT = 5000;
+
+/** 每个任务传给模型的描述的最大长度 */
+const MAX_DESCRIPTION_LENGTH = 500;
+
+/**
+ * 将提交信息关联到任务跟踪系统的任务单
+ * 从Git分支、SVN变更列表或提交输入框中提取任务单编号,
+ * 获取任务标题作为提示词上下文,并将编号插入到提交信息中
+ */
+export class IssueTrackerService {
+  /**
+   * 获取与选中变更相关的任务单
+   * 约定文件中声明的任务单模式和位置优先于配置
+   * @param scmProvider - 仓库的SCM提供程序
+   * @param files - 选中的文件,用于查找SVN变更列表
+   * @param commitInput - 当前的提交输入,可能已经包含任务单编号
+   * @param config - 任务跟踪配置
+   * @param convention - 项目提交约定
+   * @param branchTickets - 是否从当前分支名和变更列表名中查找任务单编号,
+   * 为false时只使用提交输入中的编号且不提示缺少任务单,用于重新生成历史提交
+   * @returns 任务单编号、获取到的任务和插入位置
+   */
+  static async resolve(
+    scmProvider: ISCMProvider,
+    files: string[] | undefined,
+    commitInput: string,
+    config: IssueTrackerConfig,
+    convention?: ProjectConvention,
+    branchTickets = true
+  ): Promise<TicketContext> {
+    const pattern = convention?.ticket?.pattern || config.pattern;
+    const position = (convention?.ticket?.position ??
+      config.position) as TicketPosition;
+
+    const sources = branchTickets
+      ? await Promise.all([
+          scmProvider.getBranchName?.().catch(() => undefined),
+          scmProvider.getChangelistName?.(files),
+        ])
+      : [];
+    const keys = this.extractKeys([...sources, commitInput], pattern);
+
+    if (keys.length === 0 && branchTickets && convention?.ticket?.required) {
+      notify.warn("issue.ticket.missing");
+    }
+
+    return {
+      keys,
+      issues: keys.length > 0 ? await this.fetchIssues(keys, config) : [],
+      position,
+    };
+  }
+
+  /**
+   * 从文本中提取不重复的任务单编号
+   * @param texts - 分支名、变更列表名等来源
+   * @param pattern - 匹配任务单编号的正则表达式
+   * @returns 任务单编号,按找到的顺序排列
+   */
+  static extractKeys(texts: (string | undefined)[], pattern: string): string[] {
+    let regex: RegExp;
+    try {
+      regex = new RegExp(pattern, "g");
+    } catch (error) {
+      console.warn(`Invalid ticket pattern "${pattern}":`, error);
+      return [];
+    }
+
+    const keys = texts.flatMap((text) =>
+      text ? [...text.matchAll(regex)].map((match) => match[0]) : []
+    );
+    return [...new Set(keys)];
+  }
+
+  /**
+   * 从配置的任务跟踪系统获取任务
+   * 跳过失败的请求,不会因此阻止生成提交信息
+   * @param keys - 任务单编号
+   * @param config - 任务跟踪配置
+   * @returns 成功获取的任务
+   */
+  static async fetchIssues(
+    keys: string[],
+    config: IssueTrackerConfig
+  ): Promise<JiraIssue[]> {
+    if (config.provider === "none" || !config.baseUrl) {
+      return [];
+    }
+
+    const results = await Promise.allSettled(
+      keys.map((key) => this.fetchIssue(key, config))
+    );
+    const failed = results.find(
+      (result): result is PromiseRejectedResult => result.status === "rejected"
+    );
+    if (failed) {
+      console.warn("Failed to fetch issues:", failed.reason);
+      notify.warn("issue.fetch.failed", [
+        config.provider,
+        failed.reason instanceof Error
+          ? failed.reason.message
+          : String(failed.reason),
+      ]);
+    }
+
+    return results.flatMap((result) =>
+      result.status === "fulfilled" ? [result.value] : []
+    );
+  }
+
+  /**
+   * 将获取到的任务格式化为提示词的附加上下文
+   * @param issues - 获取到的任务
+   * @returns 上下文文本,没有任务时返回空字符串
+   */
+  static formatContext(issues: JiraIssue[]): string {
+    if (issues.length === 0) {
+      return "";
+    }
+
+    const lines = issues.map((issue) => {
+      const description = issue.description?.trim().replace(/\s+/g, " ");
+      return `- ${issue.key}: ${issue.title}${
+        description
+          ? `\n  ${description.substring(0, MAX_DESCRIPTION_LENGTH)}`
+          : ""
+      }`;
+    });
+    return `Related issues, use them to understand the intent of the changes:\n${lines.join(
+      "\n"
+    )}`;
+  }
+
+  /**
+   * 插入提交信息中尚未提及的任务单编号
+   * @param message - 生成的提交信息
+   * @param context - 相关的任务单
+   * @param multiple - 文本是否可能包含每个文件一条提交信息
+   * @returns 包含任务单编号的提交信息
+   */
+  static applyKeys(
+    message: string,
+    context: TicketContext,
+    multiple = false
+  ): string {
+    if (context.keys.length === 0 || context.position === "none") {
+      return message;
+    }
+
+    const messages = multiple
+      ? CommitMessageParser.splitMessages(message)
+      : [message.trim()];
+    return messages
+      .map((item) => {
+        const missing = context.keys.filter((key) => !item.includes(key));
+        if (missing.length === 0) {
+          return item;
+        }
+        return context.position === "prefix"
+          ? this.prefixSubject(item, missing)
+          : this.appendFooter(item, missing);
+      })
+      .join("\n\n");
+  }
+
+  /**
+   * 在约定式提交类型之后、标题之前插入任务单编号
+   * @param message - 提交信息
+   * @param keys - 要插入的任务单编号
+   * @returns 标题带有编号前缀的提交信息
+   * @private
+   */
+  private static prefixSubject(message: string, keys: string[]): string {
+    const [, ...rest] = message.split("\n");
+    const { header, subject = header } = CommitMessageParser.parse(message);
+    // 标题位于首行末尾,保留其之前的所有内容
+    const prefix = header.substring(0, header.length - subject.length);
+    return [`${prefix}${keys.join(" ")} ${subject}`, ...rest].join("\n");
+  }
+
+  /**
+   * 添加包含任务单编号的 "Refs" 脚注
+   * @param message - 提交信息
+   * @param keys - 要插入的任务单编号
+   * @returns 带有脚注的提交信息
+   * @private
+   */
+  private static appendFooter(message: string, keys: string[]): string {
+    const { footer } = CommitMessageParser.parse(message);
+    return `${message}${footer ? "\n" : "\n\n"}Refs: ${keys.join(", ")}`;
+  }
+
+  /**
+   * 获取单个任务
+   * Jira 直接使用编号;GitLab 和 GitHub 使用编号中的数字
+   * @param key - 任务单编号
+   * @param config - 任务跟踪配置
+   * @returns 获取到的任务
+   * @throws {Error} 当请求失败时抛出错误
+   * @private
+   */
+  private static async fetchIssue(
+    key: string,
+    config: IssueTrackerConfig
+  ): Promise<JiraIssue> {
+    const baseUrl = config.baseUrl.replace(/\/+$/, "");
+    const number = key.match(/\d+/g)?.pop() ?? key;
+    const headers: Record<string, string> = { Accept: "application/json" };
+
+    switch (config.provider) {
+      case "jira": {
+        if (config.token) {
+          headers.Authorization = `Bearer ${config.token}`;
+        }
+        const data = await this.request(
+          `${baseUrl}/rest/api/2/issue/${encodeURIComponent(
+            key
+          )}?fields=summary,description,priority`,
+          headers
+        );
+        return {
+          key,
+          title: data.fields?.summary ?? "",
+          description: data.fields?.description ?? undefined,
+          priority: data.fields?.priority?.name,
+        };
+      }
+      case "gitlab": {
+        if (config.token) {
+          headers["PRIVATE-TOKEN"] = config.token;
+        }
+        const data = await this.request(`${baseUrl}/issues/${number}`, headers);
+        return {
+          key,
+          title: data.title ?? "",
+          description: data.description ?? undefined,
+        };
+      }
+      case "github": {
+        headers.Accept = "application/vnd.github+json";
+        if (config.token) {
+          headers.Authorization = `Bearer ${config.token}`;
+        }
+        const data = await this.request(`${baseUrl}/issues/${number}`, headers);
+        return {
+          key,
+          title: data.title ?? "",
+          description: data.body ?? undefined,
+        };
+      }
+      default:
+        throw new Error(`Unsupported issue tracker: ${config.provider}`);
+    }
+  }
+
+  /**
+   * 发送GET请求并解析JSON响应
+   * @param url - 请求地址
+   * @param headers - 请求头
+   * @returns 解析后的响应内容
+   * @throws {Error} 当请求失败或超时时抛出错误
+   * @private
+   */
+  private static async request(
+    url: string,
+    headers: Record<string, string>
+  ): Promise<any> {
+    const response = await fetch(url, {
+      headers,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+    });
+    if (!response.ok) {
+      throw new Error(`${response.status} ${response.statusText} (${url})`);
+    }
+    return response.json();
+  }
+}
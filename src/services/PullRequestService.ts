@@ -0,0 +1,89 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { CommitHistoryEntry } from "../scm/SCMProvider";
+
+/**
+ * 模板位置,按 GitHub 和 GitLab 查找的顺序排列
+ */
+const TEMPLATE_PATHS = [
+  ".github/pull_request_template.md",
+  ".github/PULL_REQUEST_TEMPLATE.md",
+  "pull_request_template.md",
+  "PULL_REQUEST_TEMPLATE.md",
+  "docs/pull_request_template.md",
+  "docs/PULL_REQUEST_TEMPLATE.md",
+  ".gitlab/merge_request_templates/Default.md",
+];
+
+/**
+ * 生成的拉取请求标题和描述
+ */
+export interface PullRequestDescription {
+  /** 单行标题 */
+  title: string;
+  /** Markdown 格式的描述 */
+  body: string;
+}
+
+/**
+ * 生成拉取请求描述的辅助方法
+ */
+export class PullRequestService {
+  /**
+   * 加载仓库的拉取请求模板
+   * @param rootPath - 仓库根目录
+   * @returns 模板内容,仓库没有模板时返回undefined
+   */
+  static loadTemplate(rootPath: string): string | undefined {
+    for (const relativePath of TEMPLATE_PATHS) {
+      const templatePath = path.join(rootPath, relativePath);
+      try {
+        if (fs.existsSync(templatePath)) {
+          const content = fs.readFileSync(templatePath, "utf8");
+          if (content.trim()) {
+            return content;
+          }
+        }
+      } catch (error) {
+        console.warn(`Failed to read ${templatePath}:`, error);
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * 将分支上的提交格式化为模型的上下文
+   * @param commits - 按时间顺序排列的提交
+   * @returns 每个提交一个列表项,包含短哈希和完整的提交信息
+   */
+  static formatCommits(commits: CommitHistoryEntry[]): string {
+    return [
+      "Commits:",
+      ...commits.map(
+        (commit) =>
+          `- ${commit.id.substring(0, 7)} ${commit.message.replace(
+            /\n/g,
+            "\n  "
+          )}`
+      ),
+    ].join("\n");
+  }
+
+  /**
+   * 将模型响应拆分为标题和描述
+   * 允许响应包含在代码块中,标题行带有 "Title:" 标签或 Markdown 标题标记
+   * @param content - 模型响应
+   * @returns 标题和描述
+   */
+  static parseResponse(content: string): PullRequestDescription {
+    const lines = content
+      .trim()
+      .replace(/^```[\w-]*\n([\s\S]*?)\n```$/, "$1")
+      .split("\n");
+    const title = (lines.shift() ?? "")
+      .replace(/^#+\s*/, "")
+      .replace(/^\**title\**\s*[:：]\s*/i, "")
+      .trim();
+    return { title, body: lines.join("\n").trim() };
+  }
+}
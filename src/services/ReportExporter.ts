@@ -0,0 +1,297 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { escapeHtml } from "../utils/webview";
+
+/**
+ * 报告的导出格式
+ * - markdown: Markdown 文件
+ * - html: 独立的 HTML 页面
+ * - word: 以 .doc 扩展名保存的 HTML 文档,Word 和 WPS 可以作为文档打开;
+ *   并不是原生的 Word (.docx) 文件
+ * - clipboard: 复制到剪贴板的 Markdown
+ */
+export type ReportExportFormat = "markdown" | "html" | "word" | "clipboard";
+
+/** 每种文件格式的扩展名和保存对话框的过滤器 */
+const FILE_FORMATS: Record<
+  Exclude<ReportExportFormat, "clipboard">,
+  { extension: string; filter: string }
+> = {
+  markdown: { extension: "md", filter: "Markdown" },
+  html: { extension: "html", filter: "HTML" },
+  word: { extension: "doc", filter: "Word" },
+};
+
+/** 管道表格中表头和表体之间的分隔行 */
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+/** 将编辑器内容转换为 Markdown 时还原的 HTML 实体 */
+const ENTITIES: Record<string, string> = {
+  "&nbsp;": " ",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&quot;": '"',
+  "&#39;": "'",
+  "&amp;": "&",
+};
+
+/**
+ * 导出在报告面板中编辑的报告
+ */
+export class ReportExporter {
+  /**
+   * 将报告导出到用户选择的文件或剪贴板
+   * @param report - 报告的标题和编辑器内容
+   * @param format - 导出格式
+   * @returns 写入的文件的Uri,复制到剪贴板或取消保存对话框时返回undefined
+   */
+  static async export(
+    report: { title: string; content: string },
+    format: ReportExportFormat
+  ): Promise<vscode.Uri | undefined> {
+    const markdown = this.toMarkdown(report.content);
+    if (format === "clipboard") {
+      await vscode.env.clipboard.writeText(markdown);
+      return undefined;
+    }
+
+    const { extension, filter } = FILE_FORMATS[format];
+    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    const fileName = `${report.title.replace(/[\\/:*?"<>|\s]+/g, "-")}.${extension}`;
+    const uri = await vscode.window.showSaveDialog({
+      defaultUri: vscode.Uri.file(
+        workspaceRoot ? path.join(workspaceRoot, fileName) : fileName
+      ),
+      filters: { [filter]: [extension] },
+    });
+    if (!uri) {
+      return undefined;
+    }
+
+    const output =
+      format === "markdown"
+        ? markdown
+        : this.toHtmlDocument(report.title, markdown, format === "word");
+    await vscode.workspace.fs.writeFile(uri, Buffer.from(output, "utf8"));
+    return uri;
+  }
+
+  /**
+   * 将编辑器内容转换为 Markdown
+   * 生成的报告是 Markdown 文本;编辑后编辑器返回 HTML,需要按其结构转换回 Markdown
+   * @param content - 编辑器内容
+   * @returns Markdown 文本
+   */
+  static toMarkdown(content: string): string {
+    if (!/<[a-z][^>]*>/i.test(content)) {
+      return content.trim();
+    }
+
+    return content
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(
+        /<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi,
+        (_, level, text) => `\n${"#".repeat(Number(level))} ${text}\n`
+      )
+      .replace(/<li[^>]*>([\s\S]*?)<\/li>/gi, "- $1\n")
+      .replace(/<(b|strong)[^>]*>([\s\S]*?)<\/\1>/gi, "**$2**")
+      .replace(/<(i|em)[^>]*>([\s\S]*?)<\/\1>/gi, "*$2*")
+      .replace(/<(p|div)[^>]*>/gi, "\n")
+      .replace(/<\/(p|div|ul|ol|pre|tr|table)>/gi, "\n")
+      .replace(/<\/td>/gi, " | ")
+      .replace(/<[^>]+>/g, "")
+      .replace(/&(?:nbsp|lt|gt|quot|amp|#39);/g, (entity) => ENTITIES[entity])
+      .replace(/[ \t]+\n/g, "\n")
+      .replace(/\n{3,}/g, "\n\n")
+      .trim();
+  }
+
+  /**
+   * 将 Markdown 渲染为独立的 HTML 文档
+   * @param title - 文档标题
+   * @param markdown - 报告的 Markdown
+   * @param word - 是否添加 Word 以页面视图打开文档所需的 Office 命名空间
+   * @returns HTML 文档
+   * @private
+   */
+  private static toHtmlDocument(
+    title: string,
+    markdown: string,
+    word: boolean
+  ): string {
+    const html = word
+      ? `<html xmlns:o="urn:schemas-microsoft-com:office:office" xmlns:w="urn:schemas-microsoft-com:office:word" xmlns="http://www.w3.org/TR/REC-html40">`
+      : `<!DOCTYPE html>\n<html>`;
+    const wordSettings = word
+      ? `\n<!--[if gte mso 9]><xml><w:WordDocument><w:View>Print</w:View></w:WordDocument></xml><![endif]-->`
+      : "";
+
+    return `${html}
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>${wordSettings}
+<style>
+  body { font-family: -apple-system, "Segoe UI", "Microsoft YaHei", sans-serif; line-height: 1.6; max-width: 860px; margin: 2em auto; padding: 0 1em; }
+  pre { background: #f6f8fa; padding: 0.8em; }
+  code { font-family: Consolas, monospace; }
+  table { border-collapse: collapse; margin: 1em 0; }
+  th, td { border: 1px solid #d0d7de; padding: 0.3em 0.8em; }
+</style>
+</head>
+<body>
+${this.renderMarkdown(markdown)}
+</body>
+</html>
+`;
+  }
+
+  /**
+   * 渲染报告使用的 Markdown 子集:标题、列表、代码块、管道表格、段落和行内强调
+   * @param markdown - 报告的 Markdown
+   * @returns HTML 正文内容
+   * @private
+   */
+  private static renderMarkdown(markdown: string): string {
+    const lines = markdown.split(/\r?\n/);
+    const blocks: string[] = [];
+    let paragraph: string[] = [];
+    let list: { tag: "ul" | "ol"; items: string[] } | undefined;
+    let code: string[] | undefined;
+
+    const flush = () => {
+      if (paragraph.length > 0) {
+        blocks.push(`<p>${paragraph.join("<br>")}</p>`);
+        paragraph = [];
+      }
+      if (list) {
+        blocks.push(
+          `<${list.tag}>${list.items
+            .map((item) => `<li>${item}</li>`)
+            .join("")}</${list.tag}>`
+        );
+        list = undefined;
+      }
+    };
+
+    for (let index = 0; index < lines.length; index++) {
+      const line = lines[index];
+      if (code) {
+        if (line.trim().startsWith("```")) {
+          blocks.push(`<pre><code>${escapeHtml(code.join("\n"))}</code></pre>`);
+          code = undefined;
+        } else {
+          code.push(line);
+        }
+        continue;
+      }
+      if (line.trim().startsWith("```")) {
+        flush();
+        code = [];
+        continue;
+      }
+
+      // 表格以表头行开始,其后是分隔行
+      const next = lines[index + 1] ?? "";
+      if (
+        line.includes("|") &&
+        next.includes("|") &&
+        TABLE_DELIMITER.test(next)
+      ) {
+        flush();
+        const rows = [line];
+        const delimiter = lines[++index];
+        while (lines[index + 1]?.includes("|")) {
+          rows.push(lines[++index]);
+        }
+        blocks.push(this.renderTable(rows, delimiter));
+        continue;
+      }
+
+      const heading = /^(#{1,6})\s+(.*)$/.exec(line);
+      const item = /^\s*(?:([-*+])|\d+[.)])\s+(.*)$/.exec(line);
+      if (heading) {
+        flush();
+        const level = heading[1].length;
+        blocks.push(`<h${level}>${this.renderInline(heading[2])}</h${level}>`);
+      } else if (item) {
+        const tag = item[1] ? "ul" : "ol";
+        if (paragraph.length > 0 || list?.tag !== tag) {
+          flush();
+          list = { tag, items: [] };
+        }
+        list!.items.push(this.renderInline(item[2]));
+      } else if (line.trim()) {
+        if (list) {
+          flush();
+        }
+        paragraph.push(this.renderInline(line.trim()));
+      } else {
+        flush();
+      }
+    }
+    if (code) {
+      blocks.push(`<pre><code>${escapeHtml(code.join("\n"))}</code></pre>`);
+    }
+    flush();
+    return blocks.join("\n");
+  }
+
+  /**
+   * 渲染管道表格,如插入到报告中的工时表
+   * @param rows - 表头行及其后的表体行
+   * @param delimiter - 分隔行,其中的冒号决定列的对齐方式
+   * @returns HTML 表格
+   * @private
+   */
+  private static renderTable(rows: string[], delimiter: string): string {
+    const alignments = this.splitTableRow(delimiter).map((cell) =>
+      cell.endsWith(":")
+        ? cell.startsWith(":")
+          ? "center"
+          : "right"
+        : cell.startsWith(":")
+          ? "left"
+          : undefined
+    );
+    const renderRow = (row: string, tag: "th" | "td") =>
+      `<tr>${this.splitTableRow(row)
+        .map((cell, column) => {
+          const align = alignments[column];
+          return `<${tag}${align ? ` style="text-align: ${align}"` : ""}>${this.renderInline(cell)}</${tag}>`;
+        })
+        .join("")}</tr>`;
+
+    const [header, ...body] = rows;
+    return `<table>\n<thead>${renderRow(header, "th")}</thead>\n<tbody>${body
+      .map((row) => renderRow(row, "td"))
+      .join("\n")}</tbody>\n</table>`;
+  }
+
+  /**
+   * 将表格行拆分为单元格
+   * @param row - 表格行,首尾的管道符可以省略
+   * @returns 去掉首尾空白并还原转义管道符的单元格内容
+   * @private
+   */
+  private static splitTableRow(row: string): string[] {
+    return row
+      .trim()
+      .replace(/^\|/, "")
+      .replace(/(?<!\\)\|$/, "")
+      .split(/(?<!\\)\|/)
+      .map((cell) => cell.trim().replace(/\\\|/g, "|"));
+  }
+
+  /**
+   * 渲染行内代码、粗体和斜体文本
+   * @param text - 单行 Markdown 文本
+   * @returns 转义文本后的 HTML
+   * @private
+   */
+  private static renderInline(text: string): string {
+    return escapeHtml(text)
+      .replace(/`([^`]+)`/g, "<code>$1</code>")
+      .replace(/\*\*([^*]+)\*\*/g, "<strong>$1</strong>")
+      .replace(/(^|[^*])\*([^*\s][^*]*)\*/g, "$1<em>$2</em>");
+  }
+}
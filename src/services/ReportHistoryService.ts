@@ -0,0 +1,81 @@
+import * as vscode from "vscode";
+import * as crypto from "crypto";
+import type { SavedReport } from "../types/weeklyReport";
+
+/** 已保存的报告在工作区状态中的键 */
+const STORAGE_KEY = "dish-ai-commit.report.history";
+
+/** 最多保存的报告数量,超出时删除最早的报告 */
+const MAX_REPORTS = 100;
+
+/**
+ * 将报告面板中保存的报告保存在工作区状态中
+ */
+export class ReportHistoryService {
+  private static state: vscode.Memento | undefined;
+
+  /**
+   * 使用扩展的工作区状态初始化服务
+   * @param context - VS Code扩展上下文
+   */
+  static initialize(context: vscode.ExtensionContext): void {
+    this.state = context.workspaceState;
+  }
+
+  /**
+   * 获取所有已保存的报告
+   * @returns 已保存的报告,最近保存的在前
+   */
+  static getReports(): SavedReport[] {
+    return this.state?.get<SavedReport[]>(STORAGE_KEY) ?? [];
+  }
+
+  /**
+   * 根据ID获取已保存的报告
+   * @param id - 报告ID
+   * @returns 报告,不存在时返回undefined
+   */
+  static getReport(id: string): SavedReport | undefined {
+    return this.getReports().find((report) => report.id === id);
+  }
+
+  /**
+   * 保存报告
+   * ID属于已保存的报告时替换该报告并移到历史记录最前面,否则以新ID添加报告
+   * @param report - 要保存的报告
+   * @returns 保存后的报告
+   */
+  static async save(
+    report: Omit<SavedReport, "id" | "timestamp"> & { id?: string }
+  ): Promise<SavedReport> {
+    const reports = this.getReports();
+    const timestamp = Date.now();
+    const saved: SavedReport = {
+      ...report,
+      id:
+        reports.find((item) => item.id === report.id)?.id ??
+        `${timestamp.toString(36)}-${crypto.randomBytes(3).toString("hex")}`,
+      timestamp,
+    };
+
+    await this.state?.update(
+      STORAGE_KEY,
+      [saved, ...reports.filter((item) => item.id !== saved.id)].slice(
+        0,
+        MAX_REPORTS
+      )
+    );
+    return saved;
+  }
+
+  /**
+   * 删除已保存的报告
+   * @param id - 报告ID
+   */
+  static async remove(id: string): Promise<void> {
+    await this.state?.update(
+      STORAGE_KEY,
+      this.getReports().filter((report) => report.id !== id)
+    );
+  }
+}
@@ -0,0 +1,102 @@
+import * as vscode from "vscode";
+import * as crypto from "crypto";
+import type { ReportKind, ReportTemplate } from "../types/weeklyReport";
+import { getReportPrompt } from "../prompt/weeklyReport";
+import { getMessage } from "../utils/i18n";
+
+/** 自定义报告模板在全局状态中的键 */
+const STORAGE_KEY = "dish-ai-commit.report.templates";
+
+/** 报告类型,按内置模板的列出顺序排列 */
+const REPORT_KINDS: ReportKind[] = ["daily", "weekly", "monthly", "quarterly"];
+
+/**
+ * 管理生成报告所用的模板
+ * 每种报告类型都有内置模板;自定义模板保存在全局状态中,在所有工作区中可用
+ */
+export class ReportTemplateService {
+  private static state: vscode.Memento | undefined;
+
+  /**
+   * 使用扩展的全局状态初始化服务
+   * @param context - VS Code扩展上下文
+   */
+  static initialize(context: vscode.ExtensionContext): void {
+    this.state = context.globalState;
+  }
+
+  /**
+   * 获取所有模板
+   * @returns 内置模板在前,自定义模板在后
+   */
+  static getTemplates(): ReportTemplate[] {
+    return [
+      ...REPORT_KINDS.map((kind) => ({
+        id: kind,
+        name: getMessage(`report.kind.${kind}`),
+        kind,
+        prompt: getReportPrompt(kind),
+        builtin: true,
+      })),
+      ...this.getCustomTemplates(),
+    ];
+  }
+
+  /**
+   * 根据ID获取模板
+   * @param id - 模板ID
+   * @returns 模板,不存在时返回undefined
+   */
+  static getTemplate(id: string): ReportTemplate | undefined {
+    return this.getTemplates().find((template) => template.id === id);
+  }
+
+  /**
+   * 保存自定义模板
+   * ID属于已有的自定义模板时替换该模板,否则以新ID添加模板
+   * @param template - 要保存的模板
+   * @returns 保存后的模板
+   */
+  static async save(
+    template: Pick<ReportTemplate, "name" | "kind" | "prompt"> & {
+      id?: string;
+    }
+  ): Promise<ReportTemplate> {
+    const templates = this.getCustomTemplates();
+    const existing = templates.find((item) => item.id === template.id);
+    const saved: ReportTemplate = {
+      id: existing?.id ?? `custom-${crypto.randomBytes(4).toString("hex")}`,
+      name: template.name.trim(),
+      kind: template.kind,
+      prompt: template.prompt,
+    };
+
+    await this.state?.update(
+      STORAGE_KEY,
+      existing
+        ? templates.map((item) => (item.id === saved.id ? saved : item))
+        : [...templates, saved]
+    );
+    return saved;
+  }
+
+  /**
+   * 删除自定义模板,内置模板不能删除
+   * @param id - 模板ID
+   */
+  static async remove(id: string): Promise<void> {
+    await this.state?.update(
+      STORAGE_KEY,
+      this.getCustomTemplates().filter((template) => template.id !== id)
+    );
+  }
+
+  /**
+   * 获取用户保存的模板
+   * @returns 自定义模板
+   * @private
+   */
+  private static getCustomTemplates(): ReportTemplate[] {
+    return this.state?.get<ReportTemplate[]>(STORAGE_KEY) ?? [];
+  }
+}
@@ -0,0 +1,280 @@
+import * as vscode from "vscode";
+import * as crypto from "crypto";
+import * as path from "path";
+import type { CodeReviewIssue } from "../ai/types";
+
+/** 工作区存储中审查历史的键 */
+const STORAGE_KEY = "dish-ai-commit.codeReview.history";
+
+/** 保留的审查记录数量上限,超出时删除最早的记录 */
+const MAX_RECORDS = 50;
+
+/**
+ * 审查问题的处理状态
+ * - open: 未处理
+ * - resolved: 已解决
+ * - ignored: 已忽略,之后的审查再次发现时保持忽略
+ */
+export type ReviewIssueStatus = "open" | "resolved" | "ignored";
+
+/**
+ * 审查记录中的问题
+ */
+export interface ReviewHistoryIssue extends CodeReviewIssue {
+  /** 问题在记录中的唯一标识 */
+  id: string;
+  /** 处理状态 */
+  status: ReviewIssueStatus;
+}
+
+/**
+ * 一次代码审查的记录
+ */
+export interface ReviewHistoryRecord {
+  /** 记录的唯一标识 */
+  id: string;
+  /** 审查时间戳 */
+  timestamp: number;
+  /** 仓库根目录 */
+  rootPath: string;
+  /** 源代码管理类型 */
+  scm: "git" | "svn";
+  /** 审查时的修订版本,如 HEAD 提交或工作副本的修订版本 */
+  revision?: string;
+  /** AI提供商 */
+  provider: string;
+  /** 使用的模型名称 */
+  model: string;
+  /** 审查摘要 */
+  summary: string;
+  /**
+   * 审查的文件及其差异指纹,用于判断之后哪些文件发生了变化
+   * - key: 仓库相对路径
+   * - value: 文件差异的指纹
+   */
+  files: Record<string, string>;
+  /** 发现的问题,文件路径为仓库相对路径 */
+  issues: ReviewHistoryIssue[];
+}
+
+/**
+ * 两次审查之间问题的差异
+ */
+export interface ReviewComparison {
+  /** 新发现的问题 */
+  added: ReviewHistoryIssue[];
+  /** 不再出现的问题 */
+  fixed: ReviewHistoryIssue[];
+  /** 两次审查都出现的问题 */
+  unchanged: ReviewHistoryIssue[];
+}
+
+/**
+ * 代码审查历史服务
+ * 将审查结果保存在工作区存储中,支持标记问题状态、比较两次审查的结果
+ */
+export class ReviewHistoryService {
+  private static state: vscode.Memento | undefined;
+  private static readonly changeEmitter = new vscode.EventEmitter<void>();
+
+  /** 审查记录新增、删除或问题状态改变时触发 */
+  static readonly onDidChange = ReviewHistoryService.changeEmitter.event;
+
+  /**
+   * 初始化审查历史服务
+   * @param {vscode.ExtensionContext} context - VS Code扩展上下文
+   */
+  static initialize(context: vscode.ExtensionContext): void {
+    this.state = context.workspaceState;
+  }
+
+  /**
+   * 获取所有审查记录
+   * @returns {ReviewHistoryRecord[]} 审查记录,按时间从新到旧排列
+   */
+  static getRecords(): ReviewHistoryRecord[] {
+    return this.state?.get<ReviewHistoryRecord[]>(STORAGE_KEY) ?? [];
+  }
+
+  /**
+   * 获取审查记录
+   * @param {string} id - 记录标识
+   * @returns {ReviewHistoryRecord | undefined} 审查记录
+   */
+  static getRecord(id: string): ReviewHistoryRecord | undefined {
+    return this.getRecords().find((record) => record.id === id);
+  }
+
+  /**
+   * 获取仓库最近一次的审查记录
+   * @param {string} rootPath - 仓库根目录
+   * @returns {ReviewHistoryRecord | undefined} 最近的审查记录
+   */
+  static getLatest(rootPath: string): ReviewHistoryRecord | undefined {
+    return this.getRecords().find((record) => record.rootPath === rootPath);
+  }
+
+  /**
+   * 保存新的审查记录
+   * 同一仓库上次审查中已忽略的问题再次出现时保持忽略,已解决的问题再次出现时重新打开
+   * @param {Omit<ReviewHistoryRecord, "id" | "timestamp" | "issues">} record - 审查信息
+   * @param issues - 发现的问题,沿用之前审查结果的问题可带有处理状态
+   * @returns {Promise<ReviewHistoryRecord>} 保存的审查记录
+   */
+  static async add(
+    record: Omit<ReviewHistoryRecord, "id" | "timestamp" | "issues">,
+    issues: (CodeReviewIssue & { status?: ReviewIssueStatus })[]
+  ): Promise<ReviewHistoryRecord> {
+    const previous = this.getLatest(record.rootPath);
+    const ignored = new Set(
+      previous?.issues
+        .filter((issue) => issue.status === "ignored")
+        .map((issue) => this.getIssueKey(issue))
+    );
+    const timestamp = Date.now();
+
+    const saved: ReviewHistoryRecord = {
+      ...record,
+      id: `${timestamp.toString(36)}-${crypto.randomBytes(3).toString("hex")}`,
+      timestamp,
+      issues: issues.map((issue, index) => ({
+        ...issue,
+        id: String(index + 1),
+        status:
+          issue.status ??
+          (ignored.has(this.getIssueKey(issue)) ? "ignored" : "open"),
+      })),
+    };
+    await this.save([saved, ...this.getRecords()].slice(0, MAX_RECORDS));
+    return saved;
+  }
+
+  /**
+   * 删除审查记录
+   * @param {string} id - 记录标识
+   */
+  static async remove(id: string): Promise<void> {
+    await this.save(this.getRecords().filter((record) => record.id !== id));
+  }
+
+  /**
+   * 修改问题的处理状态
+   * @param {string} recordId - 记录标识
+   * @param {string} issueId - 问题标识
+   * @param {ReviewIssueStatus} status - 新的处理状态
+   * @returns {Promise<ReviewHistoryRecord | undefined>} 修改后的审查记录,记录不存在时返回undefined
+   */
+  static async setIssueStatus(
+    recordId: string,
+    issueId: string,
+    status: ReviewIssueStatus
+  ): Promise<ReviewHistoryRecord | undefined> {
+    let updated: ReviewHistoryRecord | undefined;
+    const records = this.getRecords().map((record) => {
+      if (record.id !== recordId) {
+        return record;
+      }
+      updated = {
+        ...record,
+        issues: record.issues.map((issue) =>
+          issue.id === issueId ? { ...issue, status } : issue
+        ),
+      };
+      return updated;
+    });
+    if (updated) {
+      await this.save(records);
+    }
+    return updated;
+  }
+
+  /**
+   * 比较两次审查发现的问题
+   * 同一文件中描述相同的问题视为同一个问题,不受行号变化影响
+   * @param {ReviewHistoryRecord} base - 较早的审查记录
+   * @param {ReviewHistoryRecord} target - 较新的审查记录
+   * @returns {ReviewComparison} 问题的差异
+   */
+  static compare(
+    base: ReviewHistoryRecord,
+    target: ReviewHistoryRecord
+  ): ReviewComparison {
+    const baseKeys = new Set(
+      base.issues.map((issue) => this.getIssueKey(issue))
+    );
+    const targetKeys = new Set(
+      target.issues.map((issue) => this.getIssueKey(issue))
+    );
+    return {
+      added: target.issues.filter(
+        (issue) => !baseKeys.has(this.getIssueKey(issue))
+      ),
+      fixed: base.issues.filter(
+        (issue) => !targetKeys.has(this.getIssueKey(issue))
+      ),
+      unchanged: target.issues.filter((issue) =>
+        baseKeys.has(this.getIssueKey(issue))
+      ),
+    };
+  }
+
+  /**
+   * 按文件获取记录中未处理的问题,用于发布诊断信息
+   * 审查过但没有未处理问题的文件对应空列表,以清除之前的诊断信息
+   * @param {ReviewHistoryRecord} record - 审查记录
+   * @returns {Map<string, CodeReviewIssue[]>} 文件绝对路径到问题列表的映射
+   */
+  static getOpenIssuesByFile(
+    record: ReviewHistoryRecord
+  ): Map<string, CodeReviewIssue[]> {
+    const issuesByFile = new Map<string, CodeReviewIssue[]>(
+      Object.keys(record.files).map((file) => [
+        path.join(record.rootPath, file),
+        [],
+      ])
+    );
+    for (const issue of record.issues) {
+      if (issue.status !== "open") {
+        continue;
+      }
+      const filePath = path.join(record.rootPath, issue.filePath);
+      issuesByFile.set(filePath, [
+        ...(issuesByFile.get(filePath) ?? []),
+        issue,
+      ]);
+    }
+    return issuesByFile;
+  }
+
+  /**
+   * 计算文件差异的指纹
+   * @param {string} diff - 文件差异
+   * @returns {string} 差异内容的SHA-1摘要
+   */
+  static fingerprint(diff: string): string {
+    return crypto.createHash("sha1").update(diff.trim()).digest("hex");
+  }
+
+  /**
+   * 获取用于匹配不同审查中同一问题的键
+   * @param {CodeReviewIssue} issue - 审查问题
+   * @returns {string} 由文件路径和规范化描述组成的键
+   * @private
+   */
+  private static getIssueKey(issue: CodeReviewIssue): string {
+    return `${issue.filePath}\n${issue.description
+      .trim()
+      .toLowerCase()
+      .replace(/\s+/g, " ")}`;
+  }
+
+  /**
+   * 保存审查记录并通知变化
+   * @param {ReviewHistoryRecord[]} records - 所有审查记录
+   * @private
+   */
+  private static async save(records: ReviewHistoryRecord[]): Promise<void> {
+    await this.state?.update(STORAGE_KEY, records);
+    this.changeEmitter.fire();
+  }
+}
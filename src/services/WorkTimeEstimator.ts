@@ -0,0 +1,168 @@
+import type { Config, WorkItem } from "../types/weeklyReport";
+
+/** 一小时的毫秒数 */
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * 同一天两次提交之间计入后一次提交用时的最长间隔(小时);
+ * 更长的间隔视为休息或其他工作
+ */
+const MAX_SESSION_HOURS = 4;
+
+/** 变更文件数超过该值后不再增加工作项的权重 */
+const MAX_WEIGHTED_FILES = 20;
+
+/**
+ * 估算报告中各工作项的用时
+ * 按距同一天上一次提交的时间和变更的大小计算每个工作项的权重,
+ * 再以最小单位的整数倍将配置的总工时分配给各工作项
+ */
+export class WorkTimeEstimator {
+  /**
+   * 创建报告周期的工时配置
+   * @param period - 报告周期,日期格式为 YYYY-MM-DD
+   * @param hoursPerDay - 每天的工作小时数
+   * @param minUnit - 分配给工作项的最小小时数
+   * @returns 按周期内的工作日(周一至周五)计算的配置,周期只包含周末时按所有天数计算
+   */
+  static getConfig(
+    period: { startDate: string; endDate: string },
+    hoursPerDay: number,
+    minUnit: number
+  ): Config {
+    const start = new Date(`${period.startDate}T00:00:00`);
+    const end = new Date(`${period.endDate}T00:00:00`);
+
+    let days = 0;
+    let workDays = 0;
+    for (
+      const date = new Date(start);
+      date <= end;
+      date.setDate(date.getDate() + 1)
+    ) {
+      days++;
+      if (date.getDay() !== 0 && date.getDay() !== 6) {
+        workDays++;
+      }
+    }
+
+    const totalDays = workDays || days || 1;
+    return {
+      totalDays,
+      totalHours: totalDays * Math.max(hoursPerDay, 0),
+      minUnit: minUnit > 0 ? minUnit : 0.5,
+    };
+  }
+
+  /**
+   * 估算每个工作项的用时
+   * @param items - 包含提交日期和变更大小的工作项
+   * @param config - 要分配的总工时和最小单位
+   * @returns 工作项,`time` 为估算的小时数
+   */
+  static estimate(items: WorkItem[], config: Config): WorkItem[] {
+    if (items.length === 0) {
+      return [];
+    }
+
+    const hours = this.allocate(this.getWeights(items), config);
+    return items.map((item, index) => ({
+      ...item,
+      time: String(hours[index]),
+    }));
+  }
+
+  /**
+   * 以近似小时数计算每个工作项的相对工作量
+   * @param items - 工作项
+   * @returns 每个工作项的权重
+   * @private
+   */
+  private static getWeights(items: WorkItem[]): number[] {
+    const commits = items
+      .map((item, index) => ({
+        index,
+        time: item.date ? Date.parse(item.date) : NaN,
+      }))
+      .filter((commit) => !Number.isNaN(commit.time))
+      .sort((a, b) => a.time - b.time);
+
+    // 距同一天上一次提交的小时数;每天的第一次提交没有该时间,只按变更大小计算权重
+    const sessions: (number | undefined)[] = [];
+    commits.forEach((commit, position) => {
+      const previous = commits[position - 1];
+      if (
+        previous &&
+        new Date(previous.time).toDateString() ===
+          new Date(commit.time).toDateString()
+      ) {
+        sessions[commit.index] = Math.min(
+          (commit.time - previous.time) / HOUR,
+          MAX_SESSION_HOURS
+        );
+      }
+    });
+
+    return items.map((item, index) => {
+      const size = this.getSizeWeight(item);
+      const session = sessions[index];
+      return session === undefined ? size : (size + session) / 2;
+    });
+  }
+
+  /**
+   * 按变更大小计算工作项的权重
+   * 变更行数按对数计算,避免大量生成或移动的代码主导估算结果
+   * @param item - 工作项
+   * @returns 以近似小时数表示的权重
+   * @private
+   */
+  private static getSizeWeight(item: WorkItem): number {
+    const { files = 0, insertions = 0, deletions = 0 } = item.changes ?? {};
+    return (
+      0.5 +
+      Math.log2(1 + insertions + deletions) / 4 +
+      Math.min(files, MAX_WEIGHTED_FILES) / 10
+    );
+  }
+
+  /**
+   * 按权重比例将总工时分配给各工作项
+   * 单位足够时每个工作项至少分配一个最小单位,向下取整后剩余的单位分配给余数最大的工作项
+   * @param weights - 每个工作项的权重
+   * @param config - 总工时和最小单位
+   * @returns 每个工作项的小时数,总和为按最小单位向下取整的总工时
+   * @private
+   */
+  private static allocate(weights: number[], config: Config): number[] {
+    const units = Math.max(
+      Math.floor(config.totalHours / config.minUnit + 1e-9),
+      0
+    );
+    const base = units >= weights.length ? 1 : 0;
+    const remaining = units - base * weights.length;
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+    const shares = weights.map((weight) =>
+      totalWeight > 0
+        ? (weight / totalWeight) * remaining
+        : remaining / weights.length
+    );
+    const allocated = shares.map((share) => base + Math.floor(share));
+
+    let left = units - allocated.reduce((sum, count) => sum + count, 0);
+    shares
+      .map((share, index) => ({ index, remainder: share - Math.floor(share) }))
+      .sort((a, b) => b.remainder - a.remainder)
+      .forEach(({ index }) => {
+        if (left > 0) {
+          allocated[index]++;
+          left--;
+        }
+      });
+
+    return allocated.map(
+      (count) => Math.round(count * config.minUnit * 100) / 100
+    );
+  }
+}
@@ -1,12 +1,21 @@
 import * as vscode from "vscode";
-import { WorkItem } from "../types/weeklyReport";
-import { SCMFactory, type ISCMProvider } from "../scm/SCMProvider";
+import * as path from "path";
+import type { Config, Repository, WorkItem } from "../types/weeklyReport";
+import { SCMFactory, type CommitRecord } from "../scm/SCMProvider";
 import { AuthorService } from "../scm/AuthorService";
 import {
   CommitLogStrategy,
   GitCommitStrategy,
   SvnCommitStrategy,
 } from "../scm/CommitLogStrategy";
+import { ConfigurationManager } from "../config/ConfigurationManager";
+import {
+  ProjectConventionLoader,
+  type ProjectConvention,
+} from "../config/ProjectConvention";
+import { ScopeResolver } from "../utils/diff/ScopeResolver";
+import { notify } from "../utils/notification/NotificationManager";
+import { WorkTimeEstimator } from "./WorkTimeEstimator";
 
 /**
  * Represents a time period with start and end dates
@@ -20,85 +29,299 @@ export interface Period {
 
 /**
  * Service class for generating weekly reports from source control commits
- * Supports both Git and SVN repositories
+ * Collects commits from every configured Git and SVN repository for every
+ * configured author, so a report can cover a whole team
  */
 export class WeeklyReportService {
-  /** SCM provider instance for repository operations */
-  private scmProvider: ISCMProvider | undefined = undefined;
-
-  /** Strategy for retrieving commit logs */
-  private commitStrategy: CommitLogStrategy | undefined = undefined;
-
-  /** Service for handling author information */
-  private authorService: AuthorService | undefined = undefined;
+  /** Repositories the report is generated for */
+  private repositories: Repository[] | undefined = undefined;
 
   /**
    * Initializes the weekly report service
-   * Sets up SCM provider, commit strategy and author service
-   * @throws {Error} When no SCM provider is detected
+   * Resolves the configured repositories, or the current repository when
+   * none are configured, together with the author of each repository
+   * @throws {Error} When no repository can be found
    */
   async initialize(): Promise<void> {
-    const workspacePath = this.getWorkspacePath();
+    const { repositories: configured } =
+      ConfigurationManager.getInstance().getConfiguration().features
+        .weeklyReport;
 
-    this.scmProvider = await SCMFactory.detectSCM();
-    if (!this.scmProvider) {
+    const repositories: Repository[] = [];
+    if (configured?.length) {
+      for (const repositoryPath of configured) {
+        const repository = SCMFactory.findRepository(
+          this.resolvePath(repositoryPath)
+        );
+        if (!repository) {
+          notify.warn("weeklyReport.repository.not.found", [repositoryPath]);
+          continue;
+        }
+        if (!repositories.some((item) => item.path === repository.rootPath)) {
+          repositories.push({
+            type: repository.type,
+            path: repository.rootPath,
+          });
+        }
+      }
+    } else {
+      const scmProvider = await SCMFactory.detectSCM();
+      if (scmProvider) {
+        repositories.push({
+          type: scmProvider.type,
+          path: scmProvider.rootPath,
+        });
+      }
+    }
+
+    if (repositories.length === 0) {
       throw new Error("No SCM provider detected");
     }
 
-    this.authorService = new AuthorService(workspacePath);
-    this.commitStrategy = this.createCommitStrategy(this.scmProvider.type);
+    // The current user is only needed when no authors are configured
+    if (this.getConfiguredAuthors().length === 0) {
+      for (const repository of repositories) {
+        repository.author = await new AuthorService(repository.path).getAuthor(
+          repository.type
+        );
+      }
+    }
+    this.repositories = repositories;
   }
 
   /**
    * Generates work items from commits within specified period
+   * Each work item is labelled with the project, day and area of the project
+   * it belongs to, and the working hours of the period are split between the
+   * items
    * @param period - Time period to generate report for
-   * @returns Promise resolving to array of work items
-   * @throws {Error} When service is not initialized
+   * @returns Promise resolving to array of work items with estimated hours,
+   * oldest first
    */
   async generate(period: Period): Promise<WorkItem[]> {
-    if (!this.scmProvider || !this.commitStrategy || !this.authorService) {
+    if (!this.repositories) {
       await this.initialize();
     }
 
-    const author = await this.authorService!.getAuthor(this.scmProvider!.type);
-    console.log("author", author);
-    const commits = await this.commitStrategy!.getCommits(
-      this.getWorkspacePath(),
-      period,
-      author
+    const excludePatterns = this.getExcludePatterns();
+    const workItems: WorkItem[] = [];
+    for (const repository of this.repositories!) {
+      const project = path.basename(repository.path);
+      const commitStrategy = this.createCommitStrategy(repository.type);
+      const convention = ProjectConventionLoader.load(repository.path);
+
+      const commits = await commitStrategy.getCommits(repository.path, period, {
+        authors: this.getAuthors(repository).flat(),
+        excludePatterns,
+      });
+      for (const commit of commits) {
+        if (commit.message) {
+          workItems.push(
+            this.createWorkItem(
+              project,
+              commit,
+              this.getArea(commit, repository, convention)
+            )
+          );
+        }
+      }
+    }
+
+    workItems.sort(
+      (a, b) =>
+        (Date.parse(a.date ?? "") || 0) - (Date.parse(b.date ?? "") || 0)
+    );
+    return WorkTimeEstimator.estimate(
+      workItems,
+      this.getWorkTimeConfig(period)
     );
+  }
 
-    return commits.map((commit) => ({
-      content: commit,
-      time: "",
-      description: commit,
-    }));
+  /**
+   * Gets the working hours a report period is estimated against
+   * @param period - Time period of the report
+   * @returns Working days and hours of the period and the minimum unit
+   */
+  getWorkTimeConfig(period: Period): Config {
+    const { hoursPerDay, minUnit } =
+      ConfigurationManager.getInstance().getConfiguration().features
+        .weeklyReport;
+    return WorkTimeEstimator.getConfig(period, hoursPerDay, minUnit);
   }
 
   /**
-   * Retrieves the current author from the SCM system
-   * @returns Promise resolving to author name
-   * @throws {Error} When service is not initialized
+   * Retrieves the authors the report covers
+   * @returns Promise resolving to the configured authors, or to the current
+   * user of each repository when none are configured
    */
-  async getCurrentAuthor(): Promise<string> {
-    if (!this.scmProvider || !this.authorService) {
+  async getReportAuthors(): Promise<string[]> {
+    if (!this.repositories) {
       await this.initialize();
     }
-    return await this.authorService!.getAuthor(this.scmProvider!.type);
+    return [
+      ...new Set(
+        this.repositories!.flatMap((repository) =>
+          this.getAuthors(repository).map(([name]) => name)
+        )
+      ),
+    ];
+  }
+
+  /**
+   * Creates the work item of a commit
+   * The content passed to the model starts with the project, day and area so
+   * the report can group the work by them, followed by the full message
+   * @param project - Project the commit belongs to
+   * @param commit - Commit record
+   * @param area - Area of the project the commit changes
+   * @returns Work item
+   * @private
+   */
+  private createWorkItem(
+    project: string,
+    commit: CommitRecord,
+    area: string | undefined
+  ): WorkItem {
+    const [subject, ...body] = commit.message.split("\n");
+    const labels = [project, this.formatDay(commit.date), area]
+      .filter(Boolean)
+      .map((label) => `[${label}]`)
+      .join(" ");
+
+    return {
+      content: [
+        `${labels} ${commit.author}: ${subject.trim()}`,
+        ...body.filter((line) => line.trim()).map((line) => `  ${line.trim()}`),
+      ].join("\n"),
+      time: "",
+      description: subject.trim(),
+      project,
+      area,
+      date: commit.date,
+      changes: {
+        files: commit.files.length,
+        insertions: commit.files.reduce(
+          (sum, file) => sum + file.insertions,
+          0
+        ),
+        deletions: commit.files.reduce((sum, file) => sum + file.deletions, 0),
+      },
+    };
+  }
+
+  /**
+   * Gets the area of the project a commit changes
+   * @param commit - Commit record
+   * @param repository - Repository the commit belongs to
+   * @param convention - Commit convention of the repository
+   * @returns The scope most changed files resolve to, or undefined when the
+   * files have no scope
+   * @private
+   */
+  private getArea(
+    commit: CommitRecord,
+    repository: Repository,
+    convention: ProjectConvention | undefined
+  ): string | undefined {
+    // SVN paths are repository paths, strip the standard layout to get paths
+    // relative to the working copy
+    const files = commit.files.map((file) =>
+      repository.type === "svn"
+        ? file.path.replace(/^\/?((trunk|(branches|tags)\/[^/]+)\/)?/, "")
+        : file.path
+    );
+    return ScopeResolver.resolve(files, repository.path, convention)
+      .keys()
+      .next().value;
+  }
+
+  /**
+   * Formats the local day of a commit date
+   * @param date - ISO 8601 date
+   * @returns Day in YYYY-MM-DD format, or undefined for invalid dates
+   * @private
+   */
+  private formatDay(date: string): string | undefined {
+    const day = new Date(date);
+    if (Number.isNaN(day.getTime())) {
+      return undefined;
+    }
+    return [
+      day.getFullYear(),
+      String(day.getMonth() + 1).padStart(2, "0"),
+      String(day.getDate()).padStart(2, "0"),
+    ].join("-");
   }
 
   /**
-   * Gets the path of the current workspace
-   * @returns Filesystem path of current workspace
-   * @throws {Error} When no workspace is open
+   * Gets the authors whose commits are collected from a repository
+   * @param repository - Repository to collect commits from
+   * @returns Aliases of each configured author, or the repository's current
+   * user
    * @private
    */
-  private getWorkspacePath(): string {
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (!workspaceFolders?.[0]) {
-      throw new Error("No workspace folders found");
+  private getAuthors(repository: Repository): string[][] {
+    const configured = this.getConfiguredAuthors();
+    if (configured.length > 0) {
+      return configured;
     }
-    return workspaceFolders[0].uri.fsPath;
+    return repository.author ? [[repository.author]] : [];
+  }
+
+  /**
+   * Gets the authors configured for the report
+   * Aliases of the same person are separated by "|", the first alias is the
+   * name shown in the report
+   * @returns Non-empty aliases of each author
+   * @private
+   */
+  private getConfiguredAuthors(): string[][] {
+    const { authors } =
+      ConfigurationManager.getInstance().getConfiguration().features
+        .weeklyReport;
+    return (authors ?? [])
+      .map((author) =>
+        author
+          .split("|")
+          .map((alias) => alias.trim())
+          .filter(Boolean)
+      )
+      .filter((aliases) => aliases.length > 0);
+  }
+
+  /**
+   * Gets the patterns of commit messages excluded from the report
+   * Invalid patterns are reported and ignored
+   * @returns Case-insensitive regular expressions
+   * @private
+   */
+  private getExcludePatterns(): RegExp[] {
+    const { excludePatterns } =
+      ConfigurationManager.getInstance().getConfiguration().features
+        .weeklyReport;
+
+    const patterns: RegExp[] = [];
+    for (const pattern of excludePatterns ?? []) {
+      try {
+        patterns.push(new RegExp(pattern, "i"));
+      } catch {
+        notify.warn("weeklyReport.exclude.pattern.invalid", [pattern]);
+      }
+    }
+    return patterns;
+  }
+
+  /**
+   * Resolves a configured repository path against the first workspace folder
+   * @param repositoryPath - Absolute path or path relative to the workspace
+   * @returns Absolute filesystem path
+   * @private
+   */
+  private resolvePath(repositoryPath: string): string {
+    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    return workspaceRoot
+      ? path.resolve(workspaceRoot, repositoryPath)
+      : path.resolve(repositoryPath);
   }
 
   /**
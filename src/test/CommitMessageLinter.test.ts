@@ -0,0 +1,110 @@
+import * as assert from "assert";
+import {
+  CommitLintRules,
+  CommitMessageLinter,
+  DEFAULT_COMMITLINT_RULES,
+} from "../utils/commitlint";
+
+/**
+ * 获取提交信息违反的规则
+ * @param message - 提交信息
+ * @returns 规则名称
+ */
+function violatedRules(message: string): string[] {
+  return CommitMessageLinter.lintMessage(message, DEFAULT_COMMITLINT_RULES).map(
+    (violation) => violation.rule
+  );
+}
+
+suite("CommitMessageLinter", () => {
+  test("accepts a conventional commit message", () => {
+    assert.deepStrictEqual(
+      violatedRules("feat(scm): add commit splitting\n\nSplit by hunk."),
+      []
+    );
+    assert.deepStrictEqual(violatedRules("✨ feat: add changelog"), []);
+  });
+
+  test("reports an unknown or upper case type", () => {
+    assert.deepStrictEqual(violatedRules("feature: add changelog"), [
+      "type-enum",
+    ]);
+    assert.deepStrictEqual(violatedRules("Fix: handle empty diff"), [
+      "type-case",
+      "type-enum",
+    ]);
+  });
+
+  test("reports a message that is not a conventional commit", () => {
+    assert.deepStrictEqual(violatedRules("Update readme"), [
+      "type-empty",
+      "subject-empty",
+    ]);
+  });
+
+  test("reports a subject full stop and length", () => {
+    assert.deepStrictEqual(violatedRules("fix: handle empty diff."), [
+      "subject-full-stop",
+    ]);
+    assert.deepStrictEqual(violatedRules(`fix: ${"a".repeat(51)}`), [
+      "subject-max-length",
+    ]);
+  });
+
+  test("applies never rules and ignores disabled and unknown rules", () => {
+    const rules: CommitLintRules = {
+      "scope-empty": [2, "never"],
+      "body-empty": [0, "never"],
+      "signed-off-by": [2, "always", "Signed-off-by:"],
+    };
+    assert.deepStrictEqual(
+      CommitMessageLinter.lintMessage("fix: handle empty diff", rules),
+      [
+        {
+          rule: "scope-empty",
+          level: "error",
+          message: "scope must not be empty",
+          header: "fix: handle empty diff",
+        },
+      ]
+    );
+  });
+
+  test("lint is valid when there are only warnings", () => {
+    const result = CommitMessageLinter.lint(
+      `fix: ${"a".repeat(51)}`,
+      DEFAULT_COMMITLINT_RULES
+    );
+    assert.strictEqual(result.valid, true);
+    assert.strictEqual(result.violations[0].level, "warning");
+  });
+
+  test("lint checks every message when there may be several", () => {
+    const result = CommitMessageLinter.lint(
+      "feat: add changelog\n\nfeature: add report export",
+      DEFAULT_COMMITLINT_RULES,
+      true
+    );
+    assert.strictEqual(result.valid, false);
+    assert.deepStrictEqual(
+      result.violations.map((violation) => violation.header),
+      ["feature: add report export"]
+    );
+  });
+
+  test("format lists one violation per line", () => {
+    assert.strictEqual(
+      CommitMessageLinter.format(
+        CommitMessageLinter.lintMessage(
+          "Fix: handle empty diff.",
+          DEFAULT_COMMITLINT_RULES
+        )
+      ),
+      [
+        "- [error] type-case: type must be lower-case (Fix: handle empty diff.)",
+        "- [error] type-enum: type must be one of [feat, fix, docs, style, refactor, perf, test, build, ci, chore, revert, i18n] (Fix: handle empty diff.)",
+        '- [error] subject-full-stop: subject must not end with "." (Fix: handle empty diff.)',
+      ].join("\n")
+    );
+  });
+});
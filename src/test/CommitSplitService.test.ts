@@ -0,0 +1,154 @@
+import * as assert from "assert";
+import { CommitSplitService } from "../services/CommitSplitService";
+
+/** 两个文件的差异,a.txt 的最后一个变更块以空白上下文行结束 */
+const DIFF = [
+  "diff --git a/a.txt b/a.txt",
+  "index 1111111..2222222 100644",
+  "--- a/a.txt",
+  "+++ b/a.txt",
+  "@@ -1,3 +1,3 @@",
+  "-one",
+  "+ONE",
+  " two",
+  " three",
+  "@@ -10,3 +10,3 @@",
+  " ten",
+  "-eleven",
+  "+ELEVEN",
+  " ",
+  "diff --git a/b.txt b/b.txt",
+  "index 3333333..4444444 100644",
+  "--- a/b.txt",
+  "+++ b/b.txt",
+  "@@ -1 +1 @@",
+  "-b",
+  "+B",
+  "diff --git a/logo.png b/logo.png",
+  "index 5555555..6666666 100644",
+  "Binary files a/logo.png and b/logo.png differ",
+  "",
+].join("\n");
+
+suite("CommitSplitService", () => {
+  const hunks = CommitSplitService.splitHunks(DIFF, "git");
+
+  test("splitHunks numbers hunks in diff order", () => {
+    assert.deepStrictEqual(
+      hunks.map((hunk) => [hunk.id, hunk.filename]),
+      [
+        ["H1", "a.txt"],
+        ["H2", "a.txt"],
+        ["H3", "b.txt"],
+        ["H4", "logo.png"],
+      ]
+    );
+    assert.strictEqual(hunks[3].content, "");
+  });
+
+  test("buildPatch restores the original diff from all hunks", () => {
+    assert.strictEqual(
+      CommitSplitService.buildPatch(hunks),
+      DIFF.replace(/diff --git a\/logo\.png[\s\S]*$/, "")
+    );
+  });
+
+  test("buildPatch keeps the trailing blank context line of a hunk", () => {
+    assert.strictEqual(
+      CommitSplitService.buildPatch([hunks[1]]),
+      [
+        "diff --git a/a.txt b/a.txt",
+        "index 1111111..2222222 100644",
+        "--- a/a.txt",
+        "+++ b/a.txt",
+        "@@ -10,3 +10,3 @@",
+        " ten",
+        "-eleven",
+        "+ELEVEN",
+        " ",
+        "",
+      ].join("\n")
+    );
+  });
+
+  test("splitHunks only splits files at diff headers starting a line", () => {
+    const diff = [
+      "diff --git a/notes.md b/notes.md",
+      "--- a/notes.md",
+      "+++ b/notes.md",
+      "@@ -1 +1,2 @@",
+      " notes",
+      "+run diff --git a/x b/x",
+      "+Index: y",
+      "diff --git a/b.ts b/b.ts",
+      "--- a/b.ts",
+      "+++ b/b.ts",
+      "@@ -1 +1 @@",
+      "-b",
+      "+B",
+      "",
+    ].join("\n");
+    const split = CommitSplitService.splitHunks(diff, "git");
+    assert.deepStrictEqual(
+      split.map((hunk) => hunk.filename),
+      ["notes.md", "b.ts"]
+    );
+    assert.strictEqual(CommitSplitService.buildPatch(split), diff);
+
+    const svnDiff = [
+      "Index: notes.md",
+      "===================================================================",
+      "--- notes.md\t(revision 1)",
+      "+++ notes.md\t(working copy)",
+      "@@ -1 +1,2 @@",
+      " notes",
+      "+see Index: y",
+      "",
+    ].join("\n");
+    assert.deepStrictEqual(
+      CommitSplitService.splitHunks(svnDiff, "svn").map(
+        (hunk) => hunk.filename
+      ),
+      ["notes.md"]
+    );
+  });
+
+  test("getWholeFiles returns files without hunks", () => {
+    assert.deepStrictEqual(CommitSplitService.getWholeFiles(hunks), [
+      "logo.png",
+    ]);
+  });
+
+  test("parsePlan assigns left out hunks to a commit touching the same file", () => {
+    const groups = CommitSplitService.parsePlan(
+      'Plan:\n```json\n{"commits":[{"message":"feat: a","hunks":["H1","H9"]},' +
+        '{"message":"fix: b","hunks":["H3","H1","H4"]}]}\n```',
+      hunks,
+      false
+    );
+    assert.deepStrictEqual(
+      groups.map((group) => [group.message, group.hunks.map((h) => h.id)]),
+      [
+        ["feat: a", ["H1", "H2"]],
+        ["fix: b", ["H3", "H4"]],
+      ]
+    );
+  });
+
+  test("parsePlan keeps whole files in their first commit", () => {
+    const groups = CommitSplitService.parsePlan(
+      '{"commits":[{"message":"feat: a","hunks":["H1","H3","H4"]},' +
+        '{"message":"fix: b","hunks":["H2"]}]}',
+      hunks,
+      true
+    );
+    assert.deepStrictEqual(
+      groups.map((group) => group.files),
+      [["a.txt", "b.txt", "logo.png"]]
+    );
+  });
+
+  test("parsePlan rejects a response without commits", () => {
+    assert.throws(() => CommitSplitService.parsePlan("no plan", hunks, false));
+  });
+});
@@ -0,0 +1,59 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  CommitlintConfigLoader,
+  DEFAULT_COMMITLINT_RULES,
+} from "../utils/commitlint/CommitlintConfigLoader";
+
+suite("CommitlintConfigLoader", () => {
+  let rootPath: string;
+
+  setup(() => {
+    rootPath = fs.mkdtempSync(path.join(os.tmpdir(), "commitlint-"));
+  });
+
+  teardown(() => {
+    fs.rmSync(rootPath, { recursive: true, force: true });
+  });
+
+  test("uses the default rules without a config", async () => {
+    assert.deepStrictEqual(
+      await CommitlintConfigLoader.load(rootPath),
+      DEFAULT_COMMITLINT_RULES
+    );
+  });
+
+  test("reads .commitlintrc.yml", async () => {
+    fs.writeFileSync(
+      path.join(rootPath, ".commitlintrc.yml"),
+      "rules:\n  type-enum: [2, always, [feat, fix]]\n  subject-max-length: [2, always, 40]\n"
+    );
+    assert.deepStrictEqual(await CommitlintConfigLoader.load(rootPath), {
+      "type-enum": [2, "always", ["feat", "fix"]],
+      "subject-max-length": [2, "always", 40],
+    });
+  });
+
+  test("reads .commitlintrc as YAML or JSON", async () => {
+    const configPath = path.join(rootPath, ".commitlintrc");
+    fs.writeFileSync(configPath, "rules:\n  scope-empty: [2, never]\n");
+    assert.deepStrictEqual(await CommitlintConfigLoader.load(rootPath), {
+      "scope-empty": [2, "never"],
+    });
+
+    fs.writeFileSync(configPath, '{"rules": {"scope-empty": [1, "never"]}}');
+    assert.deepStrictEqual(await CommitlintConfigLoader.load(rootPath), {
+      "scope-empty": [1, "never"],
+    });
+  });
+
+  test("uses the default rules when the config cannot be parsed", async () => {
+    fs.writeFileSync(path.join(rootPath, ".commitlintrc.json"), "{ rules: ");
+    assert.deepStrictEqual(
+      await CommitlintConfigLoader.load(rootPath),
+      DEFAULT_COMMITLINT_RULES
+    );
+  });
+});
@@ -0,0 +1,48 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { execFileSync } from "child_process";
+import { GitProvider } from "../scm/GitProvider";
+
+suite("GitProvider", () => {
+  let rootPath: string;
+  let provider: GitProvider;
+
+  setup(() => {
+    rootPath = fs.mkdtempSync(path.join(os.tmpdir(), "git-provider-"));
+    const git = (...args: string[]) =>
+      execFileSync("git", args, { cwd: rootPath, stdio: "ignore" });
+    git("init", "-q");
+    git(
+      "-c",
+      "user.name=test",
+      "-c",
+      "user.email=test@example.com",
+      "commit",
+      "-q",
+      "--allow-empty",
+      "-m",
+      "chore: init"
+    );
+    provider = new GitProvider({ getAPI: () => ({}) }, rootPath);
+  });
+
+  teardown(() => {
+    fs.rmSync(rootPath, { recursive: true, force: true });
+  });
+
+  test("getCommitHistory rejects ranges that git would read as options", async () => {
+    const output = path.join(rootPath, "output");
+    await assert.rejects(provider.getCommitHistory(`--output=${output}`));
+    // 未校验时 git 会把日志写入 "output..HEAD"
+    assert.ok(!fs.existsSync(`${output}..HEAD`));
+  });
+
+  test("getBranchChanges rejects base branches that git would read as options", async () => {
+    const output = path.join(rootPath, "output");
+    await assert.rejects(provider.getBranchChanges(`--output=${output}`));
+    assert.ok(!fs.existsSync(`${output}..HEAD`));
+    assert.ok(!fs.existsSync(`${output}...HEAD`));
+  });
+});
@@ -0,0 +1,48 @@
+import * as assert from "assert";
+import type { ISCMProvider } from "../scm/SCMProvider";
+import {
+  IssueTrackerConfig,
+  IssueTrackerService,
+} from "../services/IssueTrackerService";
+
+/** 不获取任务的任务跟踪配置 */
+const CONFIG = {
+  provider: "none",
+  baseUrl: "",
+  token: "",
+  pattern: "[A-Z][A-Z0-9]+-\\d+",
+  position: "footer",
+} as IssueTrackerConfig;
+
+/** 位于 PROJ-1 分支上的SCM提供程序 */
+const scmProvider = {
+  getBranchName: async () => "feature/PROJ-1-login",
+} as unknown as ISCMProvider;
+
+suite("IssueTrackerService", () => {
+  test("resolve reads keys from the branch and the commit input", async () => {
+    const tickets = await IssueTrackerService.resolve(
+      scmProvider,
+      undefined,
+      "fix: PROJ-2 login",
+      CONFIG
+    );
+    assert.deepStrictEqual(tickets.keys, ["PROJ-1", "PROJ-2"]);
+  });
+
+  test("resolve keeps only the keys of the input without branch tickets", async () => {
+    const tickets = await IssueTrackerService.resolve(
+      scmProvider,
+      undefined,
+      "Original commit message:\nfix: login\n\nRefs: PROJ-2",
+      CONFIG,
+      undefined,
+      false
+    );
+    assert.deepStrictEqual(tickets.keys, ["PROJ-2"]);
+    assert.strictEqual(
+      IssueTrackerService.applyKeys("fix: handle empty password", tickets),
+      "fix: handle empty password\n\nRefs: PROJ-2"
+    );
+  });
+});
@@ -0,0 +1,104 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { globToRegExp, ScopeResolver } from "../utils/diff/ScopeResolver";
+
+suite("ScopeResolver", () => {
+  let rootPath: string;
+
+  setup(() => {
+    rootPath = fs.mkdtempSync(path.join(os.tmpdir(), "scope-"));
+  });
+
+  teardown(() => {
+    fs.rmSync(rootPath, { recursive: true, force: true });
+  });
+
+  test("globToRegExp matches files and directories", () => {
+    const pattern = globToRegExp("src/**/*.{ts,tsx}");
+    assert.ok(pattern.test("src/index.ts"));
+    assert.ok(pattern.test("src/a/b/view.tsx"));
+    assert.ok(!pattern.test("src/index.js"));
+    assert.ok(!pattern.test("lib/index.ts"));
+
+    assert.ok(globToRegExp("./docs/").test("docs/guide/intro.md"));
+    assert.ok(globToRegExp("packages/*").test("packages/core"));
+    assert.ok(!globToRegExp("packages/*").test("packages"));
+    assert.ok(globToRegExp("v?.md").test("v1.md"));
+    assert.ok(!globToRegExp("v?.md").test("v1xmd"));
+  });
+
+  test("resolve infers scopes from top level directories", () => {
+    const scopes = ScopeResolver.resolve(
+      [
+        "src/commands/a.ts",
+        path.join(rootPath, "src", "commands", "b.ts"),
+        "docs/guide.md",
+        "README.md",
+        "src/index.ts",
+      ],
+      rootPath
+    );
+    assert.deepStrictEqual(
+      [...scopes],
+      [
+        ["commands", ["src/commands/a.ts", "src/commands/b.ts"]],
+        ["docs", ["docs/guide.md"]],
+      ]
+    );
+  });
+
+  test("resolve uses workspace packages", () => {
+    fs.writeFileSync(
+      path.join(rootPath, "pnpm-workspace.yaml"),
+      "packages:\n  - packages/*\n  - '!packages/ignored'\n"
+    );
+    const scopes = ScopeResolver.resolve(
+      ["packages/core/src/index.ts", "packages/ignored/index.ts"],
+      rootPath
+    );
+    assert.deepStrictEqual(
+      [...scopes],
+      [
+        ["core", ["packages/core/src/index.ts"]],
+        ["ignored", ["packages/ignored/index.ts"]],
+      ]
+    );
+  });
+
+  test("resolve prefers scope rules and keeps allowed scopes", () => {
+    const scopes = ScopeResolver.resolve(
+      ["src/webview/app.tsx", "src/scm/git.ts", "docs/guide.md"],
+      rootPath,
+      {
+        scopeRules: { "src/webview/**": "ui" },
+        scopes: ["ui", "docs"],
+      }
+    );
+    assert.deepStrictEqual(
+      [...scopes],
+      [
+        ["ui", ["src/webview/app.tsx"]],
+        ["docs", ["docs/guide.md"]],
+      ]
+    );
+  });
+
+  test("formatContext lists the files of each scope", () => {
+    assert.strictEqual(ScopeResolver.formatContext(new Map()), "");
+    assert.strictEqual(
+      ScopeResolver.formatContext(
+        new Map([
+          ["scm", ["a.ts", "b.ts", "c.ts", "d.ts", "e.ts", "f.ts"]],
+          ["docs", ["guide.md"]],
+        ])
+      ),
+      [
+        "Candidate scopes inferred from the changed paths, use them for <scope> when they fit:",
+        "- scm: a.ts, b.ts, c.ts, d.ts, e.ts, ...",
+        "- docs: guide.md",
+      ].join("\n")
+    );
+  });
+});
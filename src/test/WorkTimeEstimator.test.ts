@@ -0,0 +1,103 @@
+import * as assert from "assert";
+import { WorkTimeEstimator } from "../services/WorkTimeEstimator";
+import type { WorkItem } from "../types/weeklyReport";
+
+/**
+ * 创建工作项
+ * @param date - 提交时间
+ * @param insertions - 新增行数
+ * @returns 工作项
+ */
+function workItem(date: string, insertions: number): WorkItem {
+  return {
+    content: `change at ${date}`,
+    time: "",
+    description: "",
+    date,
+    changes: { files: 1, insertions, deletions: 0 },
+  };
+}
+
+suite("WorkTimeEstimator", () => {
+  test("getConfig counts the working days of the period", () => {
+    // 2024-06-03 为周一
+    assert.deepStrictEqual(
+      WorkTimeEstimator.getConfig(
+        { startDate: "2024-06-03", endDate: "2024-06-09" },
+        8,
+        0.5
+      ),
+      { totalDays: 5, totalHours: 40, minUnit: 0.5 }
+    );
+  });
+
+  test("getConfig counts every day of a weekend period", () => {
+    assert.deepStrictEqual(
+      WorkTimeEstimator.getConfig(
+        { startDate: "2024-06-08", endDate: "2024-06-09" },
+        8,
+        0
+      ),
+      { totalDays: 2, totalHours: 16, minUnit: 0.5 }
+    );
+  });
+
+  test("estimate splits the total hours in minimum units", () => {
+    const items = [
+      workItem("2024-06-03T09:00:00", 400),
+      workItem("2024-06-03T12:00:00", 5),
+      workItem("2024-06-04T10:00:00", 40),
+    ];
+    const hours = WorkTimeEstimator.estimate(items, {
+      totalDays: 1,
+      totalHours: 7.75,
+      minUnit: 0.5,
+    }).map((item) => Number(item.time));
+
+    assert.strictEqual(
+      hours.reduce((sum, time) => sum + time, 0),
+      7.5
+    );
+    hours.forEach((time) => {
+      assert.ok(time >= 0.5);
+      assert.strictEqual(time % 0.5, 0);
+    });
+    assert.ok(hours[0] > hours[2]);
+  });
+
+  test("estimate gives every item a unit when there are enough units", () => {
+    const items = [
+      workItem("2024-06-03T09:00:00", 10000),
+      workItem("2024-06-03T09:05:00", 1),
+      workItem("2024-06-03T09:10:00", 1),
+    ];
+    assert.deepStrictEqual(
+      WorkTimeEstimator.estimate(items, {
+        totalDays: 1,
+        totalHours: 1.5,
+        minUnit: 0.5,
+      }).map((item) => item.time),
+      ["0.5", "0.5", "0.5"]
+    );
+  });
+
+  test("estimate keeps the items and returns nothing without items", () => {
+    const items = [{ ...workItem("", 10), date: undefined }];
+    assert.deepStrictEqual(
+      WorkTimeEstimator.estimate(items, {
+        totalDays: 1,
+        totalHours: 8,
+        minUnit: 1,
+      }),
+      [{ ...items[0], time: "8" }]
+    );
+    assert.deepStrictEqual(
+      WorkTimeEstimator.estimate([], {
+        totalDays: 1,
+        totalHours: 8,
+        minUnit: 1,
+      }),
+      []
+    );
+  });
+});
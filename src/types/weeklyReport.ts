@@ -39,6 +39,32 @@ export interface WorkItem {
     time: string;
     /** 工作描述 */
     description: string;
+    /** 所属项目 */
+    project?: string;
+    /** 项目中的模块,由变更文件推断 */
+    area?: string;
+    /** 提交时间(ISO 8601) */
+    date?: string;
+    /** 变更规模 */
+    changes?: {
+        /** 变更的文件数 */
+        files: number;
+        /** 新增行数 */
+        insertions: number;
+        /** 删除行数 */
+        deletions: number;
+    };
+}
+
+/**
+ * 工时表接口
+ * @interface Timesheet
+ */
+export interface Timesheet {
+    /** 工时配置 */
+    config: Config;
+    /** 估算了工时的工作项 */
+    items: WorkItem[];
 }
 
 /**
@@ -53,3 +79,50 @@ export interface Repository {
     /** 仓库作者 */
     author?: string;
 }
+
+/**
+ * 报告类型: 日报(站会)、周报、月报或季度 OKR 复盘
+ * @type ReportKind
+ */
+export type ReportKind = 'daily' | 'weekly' | 'monthly' | 'quarterly';
+
+/**
+ * 报告模板接口
+ * @interface ReportTemplate
+ */
+export interface ReportTemplate {
+    /** 模板唯一标识,内置模板与报告类型相同 */
+    id: string;
+    /** 模板名称 */
+    name: string;
+    /** 报告类型 */
+    kind: ReportKind;
+    /** 生成报告的系统提示语,包含报告的章节结构 */
+    prompt: string;
+    /** 是否为内置模板,内置模板不能删除 */
+    builtin?: boolean;
+}
+
+/**
+ * 已保存的报告接口
+ * @interface SavedReport
+ */
+export interface SavedReport {
+    /** 报告唯一标识 */
+    id: string;
+    /** 保存时间戳 */
+    timestamp: number;
+    /** 报告标题 */
+    title: string;
+    /** 报告类型 */
+    kind: ReportKind;
+    /** 生成报告使用的模板 */
+    templateId: string;
+    /** 报告覆盖的时间段 */
+    period: {
+        startDate: string;
+        endDate: string;
+    };
+    /** 编辑器中的报告内容 */
+    content: string;
+}
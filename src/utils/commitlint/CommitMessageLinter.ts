@@ -0,0 +1,261 @@
+import { CommitMessageParser } from "./CommitMessageParser";
+import {
+  CommitLintResult,
+  CommitLintRuleConfig,
+  CommitLintRules,
+  CommitLintViolation,
+  ParsedCommitMessage,
+} from "./types";
+
+/**
+ * 单条规则的检查函数
+ * @returns 规则条件是否成立("always" 时应成立,"never" 时应不成立)以及描述
+ */
+type RuleCheck = (
+  parsed: ParsedCommitMessage,
+  value: any
+) => { matches: boolean; description: string } | undefined;
+
+/**
+ * 判断文本是否符合指定的大小写格式
+ * @param {string} text - 待检查文本
+ * @param {string} format - commitlint 大小写格式名称
+ * @returns {boolean} 是否符合
+ */
+function matchesCase(text: string, format: string): boolean {
+  switch (format) {
+    case "lower-case":
+    case "lowercase":
+      return text === text.toLowerCase();
+    case "upper-case":
+    case "uppercase":
+      return text === text.toUpperCase();
+    case "sentence-case":
+    case "sentencecase":
+      return text.charAt(0) === text.charAt(0).toUpperCase();
+    case "start-case":
+      return text
+        .split(/\s+/)
+        .every((word) => word.charAt(0) === word.charAt(0).toUpperCase());
+    case "pascal-case":
+      return /^[A-Z][A-Za-z0-9]*$/.test(text);
+    case "camel-case":
+      return /^[a-z][A-Za-z0-9]*$/.test(text);
+    case "kebab-case":
+      return /^[a-z0-9]+(-[a-z0-9]+)*$/.test(text);
+    case "snake-case":
+      return /^[a-z0-9]+(_[a-z0-9]+)*$/.test(text);
+    default:
+      return true;
+  }
+}
+
+/**
+ * 去掉类型枚举值中的表情前缀,兼容 gitmoji 风格的 "✨ feat"
+ * @param {string} type - 类型枚举值
+ * @returns {string} 去掉表情后的类型
+ */
+function stripEmoji(type: string): string {
+  return type.trim().split(/\s+/).pop() ?? type;
+}
+
+/**
+ * 计算多行文本中最长一行的长度
+ * @param {string} text - 多行文本
+ * @returns {number} 最长行的长度
+ */
+function maxLineLength(text: string): number {
+  return Math.max(0, ...text.split("\n").map((line) => line.length));
+}
+
+/** 支持的规则检查函数 */
+const RULE_CHECKS: Record<string, RuleCheck> = {
+  "type-empty": (parsed) => ({
+    matches: !parsed.type,
+    description: "type must not be empty",
+  }),
+  "type-enum": (parsed, value: string[]) =>
+    parsed.type && Array.isArray(value)
+      ? {
+          matches: value.map(stripEmoji).includes(parsed.type),
+          description: `type must be one of [${value
+            .map(stripEmoji)
+            .join(", ")}]`,
+        }
+      : undefined,
+  "type-case": (parsed, value: string | string[]) =>
+    parsed.type
+      ? {
+          matches: [value].flat().some((f) => matchesCase(parsed.type!, f)),
+          description: `type must be ${[value].flat().join(" or ")}`,
+        }
+      : undefined,
+  "scope-empty": (parsed) => ({
+    matches: !parsed.scope,
+    description: "scope must not be empty",
+  }),
+  "scope-enum": (parsed, value: string[]) =>
+    parsed.scope && Array.isArray(value) && value.length > 0
+      ? {
+          matches: parsed.scope
+            .split(/[,/]/)
+            .every((scope) => value.includes(scope.trim())),
+          description: `scope must be one of [${value.join(", ")}]`,
+        }
+      : undefined,
+  "scope-case": (parsed, value: string | string[]) =>
+    parsed.scope
+      ? {
+          matches: [value].flat().some((f) => matchesCase(parsed.scope!, f)),
+          description: `scope must be ${[value].flat().join(" or ")}`,
+        }
+      : undefined,
+  "subject-empty": (parsed) => ({
+    matches: !parsed.subject,
+    description: "subject must not be empty",
+  }),
+  "subject-case": (parsed, value: string | string[]) =>
+    parsed.subject
+      ? {
+          matches: [value].flat().some((f) => matchesCase(parsed.subject!, f)),
+          description: `subject must be ${[value].flat().join(" or ")}`,
+        }
+      : undefined,
+  "subject-full-stop": (parsed, value = ".") =>
+    parsed.subject
+      ? {
+          matches: parsed.subject.endsWith(value),
+          description: `subject must not end with "${value}"`,
+        }
+      : undefined,
+  "subject-max-length": (parsed, value: number) =>
+    parsed.subject
+      ? {
+          matches: parsed.subject.length <= value,
+          description: `subject must not be longer than ${value} characters (current: ${parsed.subject.length})`,
+        }
+      : undefined,
+  "header-max-length": (parsed, value: number) => ({
+    matches: parsed.header.length <= value,
+    description: `header must not be longer than ${value} characters (current: ${parsed.header.length})`,
+  }),
+  "body-leading-blank": (parsed) =>
+    parsed.body
+      ? {
+          matches: parsed.bodyLeadingBlank,
+          description: "body must have a leading blank line",
+        }
+      : undefined,
+  "body-empty": (parsed) => ({
+    matches: !parsed.body,
+    description: "body must not be empty",
+  }),
+  "body-max-line-length": (parsed, value: number) =>
+    parsed.body
+      ? {
+          matches: maxLineLength(parsed.body) <= value,
+          description: `body lines must not be longer than ${value} characters`,
+        }
+      : undefined,
+  "footer-leading-blank": (parsed) =>
+    parsed.footer
+      ? {
+          matches: parsed.footerLeadingBlank,
+          description: "footer must have a leading blank line",
+        }
+      : undefined,
+  "footer-max-line-length": (parsed, value: number) =>
+    parsed.footer
+      ? {
+          matches: maxLineLength(parsed.footer) <= value,
+          description: `footer lines must not be longer than ${value} characters`,
+        }
+      : undefined,
+};
+
+/**
+ * 提交信息校验器
+ * 按 commitlint 规则校验模型生成的提交信息,支持常用的约定式提交规则
+ */
+export class CommitMessageLinter {
+  /**
+   * 校验单条提交信息
+   * 未支持的规则会被忽略
+   * @param {string} message - 提交信息
+   * @param {CommitLintRules} rules - commitlint 规则
+   * @returns {CommitLintViolation[]} 发现的问题
+   */
+  static lintMessage(
+    message: string,
+    rules: CommitLintRules
+  ): CommitLintViolation[] {
+    const parsed = CommitMessageParser.parse(message);
+    const violations: CommitLintViolation[] = [];
+
+    for (const [rule, config] of Object.entries(rules)) {
+      const [level, applicable = "always", value] =
+        config as CommitLintRuleConfig;
+      const check = RULE_CHECKS[rule];
+      if (!level || !check) {
+        continue;
+      }
+
+      const result = check(parsed, value);
+      if (!result) {
+        continue;
+      }
+
+      // "always" 要求条件成立,"never" 要求条件不成立
+      const passed = applicable === "never" ? !result.matches : result.matches;
+      if (!passed) {
+        violations.push({
+          rule,
+          level: level === 2 ? "error" : "warning",
+          message: result.description,
+          header: parsed.header,
+        });
+      }
+    }
+
+    return violations;
+  }
+
+  /**
+   * 校验模型生成的提交信息文本
+   * @param {string} text - 模型输出的文本
+   * @param {CommitLintRules} rules - commitlint 规则
+   * @param {boolean} multiple - 文本中是否可能包含多条提交信息(关闭合并提交时)
+   * @returns {CommitLintResult} 校验结果
+   */
+  static lint(
+    text: string,
+    rules: CommitLintRules,
+    multiple = false
+  ): CommitLintResult {
+    const messages = multiple
+      ? CommitMessageParser.splitMessages(text)
+      : [text.trim()];
+    const violations = messages.flatMap((message) =>
+      this.lintMessage(message, rules)
+    );
+
+    return {
+      valid: violations.every((violation) => violation.level !== "error"),
+      violations,
+    };
+  }
+
+  /**
+   * 将问题格式化为文本,用于提示用户或作为重新生成时的反馈
+   * @param {CommitLintViolation[]} violations - 问题列表
+   * @returns {string} 每个问题一行的文本
+   */
+  static format(violations: CommitLintViolation[]): string {
+    return violations
+      .map(
+        (violation) =>
+          `- [${violation.level}] ${violation.rule}: ${violation.message} (${violation.header})`
+      )
+      .join("\n");
+  }
+}
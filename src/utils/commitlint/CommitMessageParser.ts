@@ -0,0 +1,125 @@
+import { ParsedCommitMessage } from "./types";
+
+/**
+ * 标题行匹配规则,兼容以下格式:
+ * - type(scope): subject
+ * - type(scope)!: subject
+ * - type!(scope): subject
+ * - <emoji> type(scope): subject
+ */
+const HEADER_PATTERN =
+  /^(?:(\S+)\s+)?([a-zA-Z0-9_-]+)(!)?(?:\(([^)]*)\))?(!)?:\s*(.*)$/;
+
+/** 表情符号匹配规则,支持 Unicode 表情及 :sparkles: 形式的短代码 */
+const EMOJI_PATTERN = /^(?::\w+:|[^\x00-\x7F]+)$/;
+
+/** 页脚行匹配规则,如 "BREAKING CHANGE: xxx"、"Refs: PROJ-123"、"Closes #12" */
+const FOOTER_PATTERN = /^(BREAKING[ -]CHANGE|[\w-]+)(: | #)/;
+
+/** 常见的页脚关键字 */
+const FOOTER_TOKENS = [
+  "refs",
+  "ref",
+  "closes",
+  "close",
+  "fixes",
+  "resolves",
+  "see",
+  "signed-off-by",
+  "co-authored-by",
+  "reviewed-by",
+  "acked-by",
+];
+
+export class CommitMessageParser {
+  /**
+   * 判断一行文本是否为符合约定式提交格式的标题行
+   * @param {string} line - 文本行
+   * @returns {boolean} 是否为标题行
+   */
+  static isHeader(line: string): boolean {
+    const match = line.trim().match(HEADER_PATTERN);
+    // 常见的页脚关键字不视为标题行(如 "Refs: PROJ-123")
+    return (
+      !!match &&
+      (!match[1] || EMOJI_PATTERN.test(match[1])) &&
+      !FOOTER_TOKENS.includes(match[2].toLowerCase())
+    );
+  }
+
+  /**
+   * 解析单条提交信息
+   * @param {string} message - 提交信息文本
+   * @returns {ParsedCommitMessage} 解析结果,无法识别的部分为空
+   */
+  static parse(message: string): ParsedCommitMessage {
+    const lines = message.replace(/\r\n/g, "\n").trim().split("\n");
+    const header = lines[0]?.trim() ?? "";
+    const rest = lines.slice(1);
+
+    const match = header.match(HEADER_PATTERN);
+    // 表情符号位置只接受表情,避免把 "Merge branch" 之类误判为 emoji + type
+    const emoji =
+      match?.[1] && EMOJI_PATTERN.test(match[1]) ? match[1] : undefined;
+    const isConventional = !!match && (!match[1] || !!emoji);
+
+    const bodyLeadingBlank = rest.length === 0 || rest[0].trim() === "";
+
+    // 从末尾向前查找连续的页脚行
+    let footerStart = rest.length;
+    for (let i = rest.length - 1; i >= 0; i--) {
+      const line = rest[i].trim();
+      if (FOOTER_PATTERN.test(line)) {
+        footerStart = i;
+      } else if (line !== "" || footerStart !== i + 1) {
+        break;
+      }
+    }
+    const bodyLines = rest.slice(0, footerStart);
+    const footerLines = rest.slice(footerStart);
+    const footerLeadingBlank =
+      footerLines.length === 0 ||
+      bodyLines.length === 0 ||
+      bodyLines[bodyLines.length - 1].trim() === "";
+
+    const footer = footerLines.join("\n").trim();
+    return {
+      header,
+      emoji: isConventional ? emoji : undefined,
+      type: isConventional ? match![2] : undefined,
+      scope: isConventional ? match![4] || undefined : undefined,
+      breaking:
+        (isConventional && (!!match![3] || !!match![5])) ||
+        /^BREAKING[ -]CHANGE/m.test(footer),
+      subject: isConventional ? match![6].trim() : undefined,
+      body: bodyLines.join("\n").trim(),
+      footer,
+      bodyLeadingBlank,
+      footerLeadingBlank,
+    };
+  }
+
+  /**
+   * 将包含多条提交信息的文本拆分为单条提交信息
+   * 关闭合并提交时模型会为每个文件输出一条提交信息,以标题行作为分隔
+   * @param {string} text - 模型输出的文本
+   * @returns {string[]} 单条提交信息列表
+   */
+  static splitMessages(text: string): string[] {
+    const messages: string[] = [];
+    let current: string[] = [];
+
+    for (const line of text.replace(/\r\n/g, "\n").trim().split("\n")) {
+      if (this.isHeader(line) && current.some((l) => l.trim() !== "")) {
+        messages.push(current.join("\n").trim());
+        current = [];
+      }
+      current.push(line);
+    }
+    if (current.some((l) => l.trim() !== "")) {
+      messages.push(current.join("\n").trim());
+    }
+
+    return messages;
+  }
+}
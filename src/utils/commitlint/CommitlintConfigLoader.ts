@@ -0,0 +1,205 @@
+import * as fs from "fs";
+import * as path from "path";
+import { pathToFileURL } from "url";
+import { parse as parseYaml } from "yaml";
+import { notify } from "../notification/NotificationManager";
+import { CommitLintRules } from "./types";
+
+/** 按 commitlint 的查找顺序排列的配置文件名 */
+const CONFIG_FILES = [
+  ".commitlintrc",
+  ".commitlintrc.json",
+  ".commitlintrc.yaml",
+  ".commitlintrc.yml",
+  ".commitlintrc.js",
+  ".commitlintrc.cjs",
+  ".commitlintrc.mjs",
+  "commitlint.config.js",
+  "commitlint.config.cjs",
+  "commitlint.config.mjs",
+];
+
+/**
+ * 内置的约定式提交规则
+ * 与提示词中的要求保持一致: 类型枚举包含 i18n,主题不超过 50 个字符,正文每行不超过 72 个字符
+ */
+export const DEFAULT_COMMITLINT_RULES: CommitLintRules = {
+  "type-empty": [2, "never"],
+  "type-case": [2, "always", "lower-case"],
+  "type-enum": [
+    2,
+    "always",
+    [
+      "feat",
+      "fix",
+      "docs",
+      "style",
+      "refactor",
+      "perf",
+      "test",
+      "build",
+      "ci",
+      "chore",
+      "revert",
+      "i18n",
+    ],
+  ],
+  "subject-empty": [2, "never"],
+  "subject-full-stop": [2, "never", "."],
+  "subject-max-length": [1, "always", 50],
+  "header-max-length": [2, "always", 100],
+  "body-max-line-length": [1, "always", 72],
+};
+
+/**
+ * commitlint 配置内容
+ */
+interface CommitlintConfig {
+  extends?: string | string[];
+  rules?: CommitLintRules;
+}
+
+/**
+ * 动态 import,避免被编译为 require 从而无法加载 ES 模块配置
+ */
+const dynamicImport = new Function("specifier", "return import(specifier)") as (
+  specifier: string
+) => Promise<any>;
+
+export class CommitlintConfigLoader {
+  /**
+   * 加载仓库中的 commitlint 规则
+   * 找到配置时返回配置中的规则(合并可解析的 extends),未找到时返回内置规则
+   * @param {string} rootPath - 仓库根目录
+   * @returns {Promise<CommitLintRules>} 规则集合
+   */
+  static async load(rootPath: string): Promise<CommitLintRules> {
+    try {
+      const config = await this.readConfig(rootPath);
+      if (!config) {
+        return DEFAULT_COMMITLINT_RULES;
+      }
+      return {
+        ...(await this.resolveExtends(config.extends, rootPath)),
+        ...(config.rules ?? {}),
+      };
+    } catch (error) {
+      console.warn("Failed to load commitlint config:", error);
+      return DEFAULT_COMMITLINT_RULES;
+    }
+  }
+
+  /**
+   * 读取仓库根目录下的 commitlint 配置
+   * 配置文件存在但无法解析时提示用户,并按未找到配置处理
+   * @param {string} rootPath - 仓库根目录
+   * @returns {Promise<CommitlintConfig | undefined>} 配置内容,未找到或无法解析时返回undefined
+   * @private
+   */
+  private static async readConfig(
+    rootPath: string
+  ): Promise<CommitlintConfig | undefined> {
+    const fileName = [...CONFIG_FILES, "package.json"].find((name) =>
+      fs.existsSync(path.join(rootPath, name))
+    );
+    if (!fileName) {
+      return undefined;
+    }
+
+    try {
+      const filePath = path.join(rootPath, fileName);
+      if (fileName === "package.json") {
+        return JSON.parse(fs.readFileSync(filePath, "utf8")).commitlint;
+      }
+      return await this.readConfigFile(filePath);
+    } catch (error) {
+      console.warn(`Failed to load ${fileName}:`, error);
+      notify.warn("commitlint.config.load.failed", [
+        fileName,
+        error instanceof Error ? error.message : String(error),
+      ]);
+      return undefined;
+    }
+  }
+
+  /**
+   * 按文件类型读取配置文件
+   * @param {string} filePath - 配置文件路径
+   * @returns {Promise<CommitlintConfig>} 配置内容
+   * @private
+   */
+  private static async readConfigFile(
+    filePath: string
+  ): Promise<CommitlintConfig> {
+    const extension = path.extname(filePath);
+    if (extension === ".json") {
+      return JSON.parse(fs.readFileSync(filePath, "utf8"));
+    }
+    // 与 commitlint 一致,没有扩展名的 .commitlintrc 可以是 JSON 或 YAML
+    if (extension === "" || extension === ".yaml" || extension === ".yml") {
+      return parseYaml(fs.readFileSync(filePath, "utf8"));
+    }
+    if (extension === ".mjs") {
+      const module = await dynamicImport(
+        `${pathToFileURL(filePath).href}?t=${fs.statSync(filePath).mtimeMs}`
+      );
+      return module.default ?? module;
+    }
+
+    // 清除缓存,保证读取到最新的配置
+    delete require.cache[require.resolve(filePath)];
+    const module = require(filePath);
+    return module.default ?? module;
+  }
+
+  /**
+   * 解析 extends 中可加载的共享配置,仅合并其规则
+   * @param {string | string[] | undefined} extendsConfig - extends 配置
+   * @param {string} rootPath - 仓库根目录,用于解析共享配置包
+   * @returns {Promise<CommitLintRules>} 合并后的规则
+   * @private
+   */
+  private static async resolveExtends(
+    extendsConfig: string | string[] | undefined,
+    rootPath: string
+  ): Promise<CommitLintRules> {
+    const names = Array.isArray(extendsConfig)
+      ? extendsConfig
+      : extendsConfig
+        ? [extendsConfig]
+        : [];
+
+    let rules: CommitLintRules = {};
+    for (const name of names) {
+      // commitlint 允许省略 "commitlint-config-" 前缀
+      const candidates = name.startsWith(".")
+        ? [path.resolve(rootPath, name)]
+        : [name, `commitlint-config-${name}`];
+
+      let resolvedConfig = false;
+      for (const candidate of candidates) {
+        try {
+          const resolved = require.resolve(candidate, { paths: [rootPath] });
+          const module = require(resolved);
+          const config: CommitlintConfig = module.default ?? module;
+          rules = {
+            ...rules,
+            ...(await this.resolveExtends(config.extends, rootPath)),
+            ...(config.rules ?? {}),
+          };
+          resolvedConfig = true;
+          break;
+        } catch {
+          // 无法解析的共享配置直接忽略,仅使用本地规则
+        }
+      }
+
+      // 未安装约定式提交共享配置时,使用等价的内置规则
+      if (!resolvedConfig && name.includes("config-conventional")) {
+        rules = { ...rules, ...DEFAULT_COMMITLINT_RULES };
+      }
+    }
+
+    return rules;
+  }
+}
@@ -0,0 +1,4 @@
+export * from "./types";
+export * from "./CommitMessageParser";
+export * from "./CommitMessageLinter";
+export * from "./CommitlintConfigLoader";
@@ -0,0 +1,70 @@
+/**
+ * commitlint 规则级别
+ * - 0: 禁用
+ * - 1: 警告
+ * - 2: 错误
+ */
+export type CommitLintRuleLevel = 0 | 1 | 2;
+
+/**
+ * commitlint 规则配置,格式与 commitlint 一致: [级别, "always" | "never", 值]
+ */
+export type CommitLintRuleConfig =
+  | [CommitLintRuleLevel]
+  | [CommitLintRuleLevel, "always" | "never"]
+  | [CommitLintRuleLevel, "always" | "never", unknown];
+
+/**
+ * commitlint 规则集合
+ */
+export type CommitLintRules = Record<string, CommitLintRuleConfig>;
+
+/**
+ * 解析后的提交信息
+ */
+export interface ParsedCommitMessage {
+  /** 首行(标题行) */
+  header: string;
+  /** 标题行前的表情符号 */
+  emoji?: string;
+  /** 提交类型 */
+  type?: string;
+  /** 影响范围 */
+  scope?: string;
+  /** 是否包含破坏性变更标记(!) */
+  breaking: boolean;
+  /** 提交主题 */
+  subject?: string;
+  /** 正文 */
+  body: string;
+  /** 页脚(BREAKING CHANGE、Refs 等) */
+  footer: string;
+  /** 标题行与正文之间是否有空行 */
+  bodyLeadingBlank: boolean;
+  /** 正文与页脚之间是否有空行 */
+  footerLeadingBlank: boolean;
+}
+
+/**
+ * 单条校验问题
+ */
+export interface CommitLintViolation {
+  /** 规则名称 */
+  rule: string;
+  /** 问题级别 */
+  level: "error" | "warning";
+  /** 问题描述 */
+  message: string;
+  /** 问题所在提交信息的首行,多条提交信息时用于定位 */
+  header: string;
+}
+
+/**
+ * 校验结果
+ */
+export interface CommitLintResult {
+  /** 是否不存在错误级别的问题 */
+  valid: boolean;
+  /** 发现的问题列表 */
+  violations: CommitLintViolation[];
+}
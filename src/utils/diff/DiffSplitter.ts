@@ -1,4 +1,4 @@
-import { DiffChunk } from "./types";
+import { DiffChunk, DiffHunk } from "./types";
 
 export class DiffSplitter {
   /**
@@ -8,8 +8,9 @@ export class DiffSplitter {
    */
   static splitGitDiff(diff: string): DiffChunk[] {
     const chunks: DiffChunk[] = [];
-    // 按 Git diff 文件头部分割
-    const files = diff.split("diff --git");
+    // 只在行首的 Git diff 文件头处分割,变更内容中出现的 "diff --git" 不是文件头;
+    // 第一段是文件头之前的内容,跳过
+    const files = diff.split(/^diff --git /m).slice(1);
 
     for (const file of files) {
       if (!file.trim()) {
@@ -17,14 +18,16 @@ export class DiffSplitter {
       }
 
       // 使用正则表达式提取文件名(格式: "a/path/to/file b/path/to/file")
-      const fileNameMatch = file.match(/a\/(.+?) b\//);
+      const fileNameMatch = file.match(/^a\/(.+?) b\//);
       if (!fileNameMatch) {
         continue;
       }
 
       chunks.push({
         filename: fileNameMatch[1],
-        content: file.trim(),
+        // 只去掉末尾换行:末尾的空白上下文行为单个空格,
+        // 去掉后由差异块重新组合的补丁会缺少一行而无法应用
+        content: file.replace(/\n$/, ""),
       });
     }
 
@@ -38,8 +41,8 @@ export class DiffSplitter {
    */
   static splitSvnDiff(diff: string): DiffChunk[] {
     const chunks: DiffChunk[] = [];
-    // 按 SVN diff 文件索引标记分割
-    const files = diff.split("Index: ");
+    // 只在行首的 SVN diff 文件索引标记处分割,第一段是索引标记之前的内容,跳过
+    const files = diff.split(/^Index: /m).slice(1);
 
     for (const file of files) {
       if (!file.trim()) {
@@ -58,4 +61,35 @@ export class DiffSplitter {
 
     return chunks;
   }
+
+  /**
+   * 将文件差异块进一步拆分为变更块(hunk)
+   * Git 差异块的头部会还原 "diff --git" 前缀,便于重新组合为可应用的补丁
+   * @param {DiffChunk[]} chunks - 文件差异块
+   * @param {"git" | "svn"} scm - 源代码管理类型
+   * @returns {DiffHunk[]} 按出现顺序编号(H1, H2, ...)的变更块
+   */
+  static splitHunks(chunks: DiffChunk[], scm: "git" | "svn"): DiffHunk[] {
+    const hunks: DiffHunk[] = [];
+
+    for (const chunk of chunks) {
+      const content =
+        scm === "git" ? `diff --git ${chunk.content}` : chunk.content;
+      // 变更块以行首的 "@@ " 开始
+      const parts = content.split(/\n(?=@@ )/);
+      const header = parts[0].startsWith("@@ ") ? "" : parts.shift()!;
+      const bodies = parts.length > 0 ? parts : [""];
+
+      for (const body of bodies) {
+        hunks.push({
+          id: `H${hunks.length + 1}`,
+          filename: chunk.filename,
+          header,
+          content: body,
+        });
+      }
+    }
+
+    return hunks;
+  }
 }
@@ -0,0 +1,217 @@
+import * as fs from "fs";
+import * as path from "path";
+import { parse as parseYaml } from "yaml";
+import { DiffSplitter } from "./DiffSplitter";
+import type { ProjectConvention } from "../../config/ProjectConvention";
+
+/** 仅用于组织代码的通用目录,推断范围时跳过,取下一级目录 */
+const CONTAINER_DIRS = ["src", "lib", "app", "apps", "packages", "source"];
+
+/** 每个范围在上下文中最多列出的文件数 */
+const MAX_FILES_PER_SCOPE = 5;
+
+/**
+ * 将 glob 模式转换为正则表达式
+ * 支持 `**`、`*`、`?` 和 `{a,b}`,匹配目录的模式同时匹配其下的所有文件
+ * @param {string} glob - glob 模式
+ * @returns {RegExp} 对应的正则表达式
+ */
+export function globToRegExp(glob: string): RegExp {
+  const escape = (text: string) => text.replace(/[.+^$()|[\]\\]/g, "\\$&");
+  const pattern = glob.replace(/^\.?\//, "").replace(/\/+$/, "");
+
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "*" && pattern[i + 1] === "*") {
+      // "**/" 匹配零个或多个目录
+      if (pattern[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i++;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "{" && pattern.indexOf("}", i) > i) {
+      const end = pattern.indexOf("}", i);
+      source += `(?:${pattern
+        .slice(i + 1, end)
+        .split(",")
+        .map(escape)
+        .join("|")})`;
+      i = end;
+    } else {
+      source += escape(char);
+    }
+  }
+
+  return new RegExp(`^${source}(?:/.*)?$`);
+}
+
+/**
+ * 根据变更文件路径推断提交范围
+ * 优先级: 约定文件中的范围规则 > package.json / pnpm 工作区 > 顶层目录
+ */
+export class ScopeResolver {
+  /**
+   * 从差异内容中推断候选范围
+   * @param {string} diff - 差异内容
+   * @param {"git" | "svn"} scm - 源代码管理类型
+   * @param {string} rootPath - 仓库根目录
+   * @param {ProjectConvention} [convention] - 仓库中的提交约定
+   * @returns {Map<string, string[]>} 范围到文件列表的映射,按文件数降序排列
+   */
+  static resolveFromDiff(
+    diff: string,
+    scm: "git" | "svn",
+    rootPath: string,
+    convention?: ProjectConvention
+  ): Map<string, string[]> {
+    const chunks =
+      scm === "svn"
+        ? DiffSplitter.splitSvnDiff(diff)
+        : DiffSplitter.splitGitDiff(diff);
+    return this.resolve(
+      chunks.map((chunk) => chunk.filename),
+      rootPath,
+      convention
+    );
+  }
+
+  /**
+   * 推断文件列表的候选范围
+   * 约定文件声明了允许的范围时,工作区和目录推断出的范围需在其中
+   * @param {string[]} files - 变更文件路径(相对或绝对)
+   * @param {string} rootPath - 仓库根目录
+   * @param {ProjectConvention} [convention] - 仓库中的提交约定
+   * @returns {Map<string, string[]>} 范围到文件列表的映射,按文件数降序排列
+   */
+  static resolve(
+    files: string[],
+    rootPath: string,
+    convention?: ProjectConvention
+  ): Map<string, string[]> {
+    const rules = Object.entries(convention?.scopeRules ?? {}).map(
+      ([pattern, scope]) => ({ pattern: globToRegExp(pattern), scope })
+    );
+    const workspaces = this.readWorkspaces(rootPath).map(globToRegExp);
+    const allowed = convention?.scopes?.length ? convention.scopes : undefined;
+
+    const scopes = new Map<string, string[]>();
+    for (const file of files) {
+      const relativePath = (
+        path.isAbsolute(file) ? path.relative(rootPath, file) : file
+      ).replace(/\\/g, "/");
+
+      const scope =
+        rules.find((rule) => rule.pattern.test(relativePath))?.scope ??
+        [
+          this.getWorkspaceScope(relativePath, workspaces),
+          this.getDirectoryScope(relativePath),
+        ].find(
+          (candidate) => candidate && (!allowed || allowed.includes(candidate))
+        );
+      if (scope) {
+        scopes.set(scope, [...(scopes.get(scope) ?? []), relativePath]);
+      }
+    }
+
+    return new Map(
+      [...scopes.entries()].sort((a, b) => b[1].length - a[1].length)
+    );
+  }
+
+  /**
+   * 将候选范围格式化为提供给模型的额外上下文
+   * @param {Map<string, string[]>} scopes - 范围到文件列表的映射
+   * @returns {string} 上下文文本,没有候选范围时返回空字符串
+   */
+  static formatContext(scopes: Map<string, string[]>): string {
+    if (scopes.size === 0) {
+      return "";
+    }
+
+    const lines = [...scopes.entries()].map(([scope, files]) => {
+      const listed = files.slice(0, MAX_FILES_PER_SCOPE).join(", ");
+      return `- ${scope}: ${listed}${
+        files.length > MAX_FILES_PER_SCOPE ? ", ..." : ""
+      }`;
+    });
+    return `Candidate scopes inferred from the changed paths, use them for <scope> when they fit:\n${lines.join(
+      "\n"
+    )}`;
+  }
+
+  /**
+   * 读取 package.json workspaces 与 pnpm-workspace.yaml 中的工作区模式
+   * @param {string} rootPath - 仓库根目录
+   * @returns {string[]} 工作区 glob 模式,忽略排除模式
+   * @private
+   */
+  private static readWorkspaces(rootPath: string): string[] {
+    const patterns: string[] = [];
+
+    try {
+      const packagePath = path.join(rootPath, "package.json");
+      if (fs.existsSync(packagePath)) {
+        const { workspaces } = JSON.parse(fs.readFileSync(packagePath, "utf8"));
+        patterns.push(
+          ...(Array.isArray(workspaces)
+            ? workspaces
+            : workspaces?.packages ?? [])
+        );
+      }
+
+      const pnpmPath = path.join(rootPath, "pnpm-workspace.yaml");
+      if (fs.existsSync(pnpmPath)) {
+        const config = parseYaml(fs.readFileSync(pnpmPath, "utf8"));
+        patterns.push(...(config?.packages ?? []));
+      }
+    } catch (error) {
+      console.warn("Failed to read workspace config:", error);
+    }
+
+    return patterns.filter(
+      (pattern) => typeof pattern === "string" && !pattern.startsWith("!")
+    );
+  }
+
+  /**
+   * 获取文件所在工作区包的目录名作为范围
+   * @param {string} file - 相对路径
+   * @param {RegExp[]} workspaces - 工作区模式
+   * @returns {string | undefined} 范围
+   * @private
+   */
+  private static getWorkspaceScope(
+    file: string,
+    workspaces: RegExp[]
+  ): string | undefined {
+    const segments = file.split("/");
+    // 模式同时匹配包内的子目录,取最浅的匹配即包目录
+    for (let i = 1; i < segments.length; i++) {
+      const directory = segments.slice(0, i).join("/");
+      if (workspaces.some((workspace) => workspace.test(directory))) {
+        return segments[i - 1];
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * 获取文件所在的顶层目录作为范围,跳过 src 等通用目录
+   * @param {string} file - 相对路径
+   * @returns {string | undefined} 范围,位于根目录或通用目录下的文件返回 undefined
+   * @private
+   */
+  private static getDirectoryScope(file: string): string | undefined {
+    const directories = file.split("/").slice(0, -1);
+    return CONTAINER_DIRS.includes(directories[0])
+      ? directories[1]
+      : directories[0];
+  }
+}
@@ -1,3 +1,4 @@
 export * from './types';
 export * from './DiffSplitter';
 export * from './DiffSimplifier';
+export * from './ScopeResolver';
@@ -5,6 +5,20 @@ export interface DiffChunk {
   content: string;
 }
 
+/**
+ * 单个文件差异中的一个变更块(hunk)
+ */
+export interface DiffHunk {
+  /** 变更块标识,如 H1 */
+  id: string;
+  /** 文件名 */
+  filename: string;
+  /** 文件差异头部,即第一个 @@ 之前的内容 */
+  header: string;
+  /** 以 @@ 开头的变更块内容,没有变更块的差异(如二进制文件)为空字符串 */
+  content: string;
+}
+
 export interface DiffConfig {
   enabled: boolean;
 }
@@ -1,4 +1,5 @@
 export * from "./diff";
 export * from "./i18n";
 export * from "./notification";
+export * from "./process";
 export * from "./webview";
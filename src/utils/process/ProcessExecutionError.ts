@@ -0,0 +1,98 @@
+import * as path from "path";
+import { formatMessage } from "../i18n";
+import type { ProcessFailureReason } from "./types";
+
+/**
+ * 外部命令执行失败的详情
+ */
+interface ProcessFailureDetails {
+  /** 失败原因 */
+  reason: ProcessFailureReason;
+  /** 可执行文件 */
+  command: string;
+  /** 命令参数 */
+  args: readonly string[];
+  /** 退出码 */
+  exitCode?: number | null;
+  /** 终止进程的信号 */
+  signal?: NodeJS.Signals | null;
+  /** 已读取的标准输出 */
+  stdout?: string;
+  /** 已读取的标准错误 */
+  stderr?: string;
+  /** 无法启动进程的原因 */
+  cause?: Error;
+  /** 超时时间(毫秒) */
+  timeout?: number;
+}
+
+/**
+ * 外部命令执行失败时抛出的错误
+ * 包含命令、失败原因和已读取的输出,进程以非0退出码退出时错误信息为标准错误的内容
+ */
+export class ProcessExecutionError extends Error {
+  /** 失败原因 */
+  readonly reason: ProcessFailureReason;
+  /** 可执行文件 */
+  readonly command: string;
+  /** 命令参数 */
+  readonly args: readonly string[];
+  /** 退出码,进程未正常退出时为 null */
+  readonly exitCode: number | null;
+  /** 终止进程的信号 */
+  readonly signal: NodeJS.Signals | null;
+  /** 已读取的标准输出 */
+  readonly stdout: string;
+  /** 已读取的标准错误 */
+  readonly stderr: string;
+
+  constructor(details: ProcessFailureDetails) {
+    super(ProcessExecutionError.getMessage(details));
+    this.name = "ProcessExecutionError";
+    this.reason = details.reason;
+    this.command = details.command;
+    this.args = details.args;
+    this.exitCode = details.exitCode ?? null;
+    this.signal = details.signal ?? null;
+    this.stdout = details.stdout ?? "";
+    this.stderr = details.stderr ?? "";
+  }
+
+  /**
+   * 生成错误信息
+   * @param details - 失败详情
+   * @returns 错误信息,以可执行文件名和子命令标识命令
+   * @private
+   */
+  private static getMessage(details: ProcessFailureDetails): string {
+    // 参数可能包含提交信息等长文本,只显示子命令
+    const name = [path.basename(details.command), details.args[0]]
+      .filter(Boolean)
+      .join(" ");
+
+    switch (details.reason) {
+      case "spawn":
+        return formatMessage("process.spawn.failed", [
+          name,
+          details.cause?.message ?? "",
+        ]);
+      case "timeout":
+        return formatMessage("process.timeout", [
+          name,
+          Math.round((details.timeout ?? 0) / 1000),
+        ]);
+      case "cancelled":
+        return formatMessage("process.cancelled", [name]);
+      case "outputLimit":
+        return formatMessage("process.output.limit", [name]);
+      default:
+        return (
+          details.stderr?.trim() ||
+          formatMessage("process.exit.failed", [
+            name,
+            details.exitCode ?? details.signal ?? "",
+          ])
+        );
+    }
+  }
+}
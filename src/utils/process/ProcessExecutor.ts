@@ -0,0 +1,171 @@
+import { spawn } from "child_process";
+import { StringDecoder } from "string_decoder";
+import { ProcessExecutionError } from "./ProcessExecutionError";
+import type {
+  ProcessFailureReason,
+  ProcessOptions,
+  ProcessResult,
+} from "./types";
+
+/** 默认超时时间: 2分钟 */
+const DEFAULT_TIMEOUT = 2 * 60 * 1000;
+
+/** 默认的最大输出大小: 10MB */
+const DEFAULT_MAX_OUTPUT_SIZE = 10 * 1024 * 1024;
+
+/**
+ * 外部命令执行器
+ * 直接启动可执行文件并以数组传递参数,参数不经过shell解析,
+ * 提交信息和文件路径中的引号、空格和 $() 等字符按原样传递
+ */
+export class ProcessExecutor {
+  /**
+   * 执行命令并读取全部输出
+   * @param command - 可执行文件
+   * @param args - 命令参数
+   * @param options - 执行选项
+   * @returns 执行结果
+   * @throws {ProcessExecutionError} 当进程无法启动、以非0退出码退出、超时、
+   * 被取消或输出超过大小限制时抛出错误
+   */
+  static run(
+    command: string,
+    args: readonly string[],
+    options: ProcessOptions = {}
+  ): Promise<ProcessResult> {
+    return this.execute(command, args, options);
+  }
+
+  /**
+   * 执行命令并以流的方式读取标准输出,标准输出不计入输出大小限制
+   * @param command - 可执行文件
+   * @param args - 命令参数
+   * @param onStdout - 处理标准输出片段的回调,片段不会截断多字节字符
+   * @param options - 执行选项
+   * @returns 执行结果,标准输出为空字符串
+   * @throws {ProcessExecutionError} 当进程无法启动、以非0退出码退出、超时、
+   * 被取消或标准错误超过大小限制时抛出错误
+   */
+  static stream(
+    command: string,
+    args: readonly string[],
+    onStdout: (chunk: string) => void,
+    options: ProcessOptions = {}
+  ): Promise<ProcessResult> {
+    return this.execute(command, args, options, onStdout);
+  }
+
+  /**
+   * 启动进程并等待其退出
+   * @param command - 可执行文件
+   * @param args - 命令参数
+   * @param options - 执行选项
+   * @param onStdout - 以流的方式处理标准输出的回调,未指定时缓存标准输出
+   * @returns 执行结果
+   * @private
+   */
+  private static execute(
+    command: string,
+    args: readonly string[],
+    options: ProcessOptions,
+    onStdout?: (chunk: string) => void
+  ): Promise<ProcessResult> {
+    const {
+      timeout = DEFAULT_TIMEOUT,
+      maxOutputSize = DEFAULT_MAX_OUTPUT_SIZE,
+      token,
+    } = options;
+
+    return new Promise((resolve, reject) => {
+      if (token?.isCancellationRequested) {
+        reject(new ProcessExecutionError({ reason: "cancelled", command, args }));
+        return;
+      }
+
+      const child = spawn(command, args, {
+        cwd: options.cwd,
+        env: { ...process.env, ...options.env },
+        windowsHide: true,
+      });
+
+      const stdout: Buffer[] = [];
+      const stderr: Buffer[] = [];
+      const decoder = new StringDecoder("utf8");
+      let outputSize = 0;
+      let failure: ProcessFailureReason | undefined;
+      let spawnError: Error | undefined;
+
+      // 记录第一个失败原因并终止进程,结果在进程关闭后返回
+      const terminate = (reason: ProcessFailureReason) => {
+        if (!failure) {
+          failure = reason;
+          child.kill();
+        }
+      };
+      const capture = (buffers: Buffer[], chunk: Buffer) => {
+        outputSize += chunk.length;
+        if (outputSize > maxOutputSize) {
+          terminate("outputLimit");
+        } else {
+          buffers.push(chunk);
+        }
+      };
+
+      const timer =
+        timeout > 0 ? setTimeout(() => terminate("timeout"), timeout) : undefined;
+      const cancellation = token?.onCancellationRequested(() =>
+        terminate("cancelled")
+      );
+
+      child.stdout.on("data", (chunk: Buffer) => {
+        if (onStdout) {
+          onStdout(decoder.write(chunk));
+        } else {
+          capture(stdout, chunk);
+        }
+      });
+      child.stderr.on("data", (chunk: Buffer) => capture(stderr, chunk));
+      child.on("error", (error) => {
+        spawnError = error;
+      });
+      child.on("close", (exitCode, signal) => {
+        clearTimeout(timer);
+        cancellation?.dispose();
+        if (onStdout) {
+          const rest = decoder.end();
+          if (rest) {
+            onStdout(rest);
+          }
+        }
+
+        const result = {
+          stdout: Buffer.concat(stdout).toString("utf8"),
+          stderr: Buffer.concat(stderr).toString("utf8"),
+        };
+        const reason: ProcessFailureReason | undefined = spawnError
+          ? "spawn"
+          : failure ?? (exitCode === 0 ? undefined : "exit");
+        if (reason) {
+          reject(
+            new ProcessExecutionError({
+              reason,
+              command,
+              args,
+              exitCode: spawnError ? null : exitCode,
+              signal,
+              cause: spawnError,
+              timeout,
+              ...result,
+            })
+          );
+        } else {
+          resolve({ ...result, exitCode: 0 });
+        }
+      });
+
+      // 命令未读取标准输入就退出时写入会失败,错误由退出码和标准错误反映
+      child.stdin.on("error", () => {});
+      child.stdin.end(options.input);
+    });
+  }
+}
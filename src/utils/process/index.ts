@@ -0,0 +1,3 @@
+export * from "./types";
+export * from "./ProcessExecutionError";
+export * from "./ProcessExecutor";
@@ -0,0 +1,46 @@
+import type { CancellationToken } from "vscode";
+
+/**
+ * 执行外部命令的选项
+ */
+export interface ProcessOptions {
+  /** 工作目录 */
+  cwd?: string;
+  /** 额外的环境变量,与当前进程的环境变量合并 */
+  env?: Record<string, string | undefined>;
+  /** 写入标准输入的内容,未指定时立即关闭标准输入 */
+  input?: string;
+  /** 超时时间(毫秒),超时后终止进程,为0时不限制 */
+  timeout?: number;
+  /** 缓存的标准输出和标准错误的最大字节数,超出后终止进程 */
+  maxOutputSize?: number;
+  /** 取消令牌,取消时终止进程 */
+  token?: CancellationToken;
+}
+
+/**
+ * 外部命令的执行结果
+ */
+export interface ProcessResult {
+  /** 标准输出,以流的方式读取输出时为空字符串 */
+  stdout: string;
+  /** 标准错误 */
+  stderr: string;
+  /** 退出码 */
+  exitCode: number;
+}
+
+/**
+ * 外部命令执行失败的原因
+ * - spawn: 无法启动进程,如可执行文件不存在
+ * - exit: 进程以非0退出码退出或被信号终止
+ * - timeout: 执行超时
+ * - cancelled: 执行被取消
+ * - outputLimit: 输出超过大小限制
+ */
+export type ProcessFailureReason =
+  | "spawn"
+  | "exit"
+  | "timeout"
+  | "cancelled"
+  | "outputLimit";
@@ -29,3 +29,17 @@ export function getNonce() {
   }
   return text;
 }
+
+/**
+ * 转义HTML特殊字符,用于将文本安全地嵌入 webview 页面
+ * @param unsafe 可能包含HTML特殊字符的文本
+ * @returns 转义后的文本
+ */
+export function escapeHtml(unsafe: string) {
+  return unsafe
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#039;");
+}
@@ -2,20 +2,63 @@ import { useState, useEffect } from "react"; // 添加 useEffect
 import { DatePicker } from "@arco-design/web-react";
 const { RangePicker } = DatePicker;
 import "@arco-design/web-react/dist/css/arco.css";
-import dayjs from "dayjs";
 import { Editor } from "@/components/Editor";
+import { Timesheet, type TimesheetData } from "@/components/Timesheet";
 import { Button } from "@/components/ui/button";
-import { Save, FileDown, Wand2 } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Save,
+  FileDown,
+  Wand2,
+  BookmarkPlus,
+  Trash2,
+  FolderOpen,
+} from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 // import { getMessageType } from "@/constants";
 // import "vscode-webview";
 import { vscode } from "@/lib/vscode";
+import {
+  DATE_PRESETS,
+  REPORT_KINDS,
+  getDefaultRange,
+  type ReportKind,
+  type ReportTemplate,
+} from "@/lib/reportKinds";
+
+/** 历史记录中的报告,不包含内容 */
+interface ReportSummary {
+  id: string;
+  title: string;
+  timestamp: number;
+  kind: ReportKind;
+}
 
 function App() {
   const [content, setContent] = useState("");
-  const [dateRange, setDateRange] = useState<any[]>([]);
+  const [kind, setKind] = useState<ReportKind>("weekly");
+  const [dateRange, setDateRange] = useState<string[]>(() =>
+    getDefaultRange("weekly")
+  );
+  const [templates, setTemplates] = useState<ReportTemplate[]>([]);
+  const [templateId, setTemplateId] = useState("weekly");
+  // 正在编辑的自定义模板,未编辑时为 undefined
+  const [draft, setDraft] = useState<
+    { name: string; prompt: string } | undefined
+  >();
+  // 当前编辑的已保存报告,保存时覆盖该报告
+  const [reportId, setReportId] = useState<string | undefined>();
+  const [history, setHistory] = useState<ReportSummary[]>([]);
+  // 最近一次生成报告时估算的工时表
+  const [timesheet, setTimesheet] = useState<TimesheetData | undefined>();
   const { toast } = useToast();
 
+  const kindTemplates = templates.filter((template) => template.kind === kind);
+  const selectedTemplate = templates.find(
+    (template) => template.id === templateId
+  );
+
   // 添加消息监听
   useEffect(() => {
     // 监听来自 VSCode 的消息
@@ -28,12 +71,53 @@ function App() {
           // 更新编辑器内容
           console.log("更新编辑器内容", message.data);
           setContent(message.data);
+          setReportId(undefined);
+          break;
+        case "timesheet":
+          setTimesheet(message.data);
+          break;
+        case "loadReport":
+          // 重新打开已保存的报告,工时表已插入报告内容时随报告保存
+          setContent(message.data.content);
+          setTimesheet(undefined);
+          setKind(message.data.kind);
+          setTemplateId(message.data.templateId);
+          setDateRange([
+            message.data.period.startDate,
+            message.data.period.endDate,
+          ]);
+          setReportId(message.data.id);
+          break;
+        case "saved":
+          setReportId(message.data.id);
+          break;
+        case "history":
+          setHistory(message.data);
+          break;
+        case "templates":
+          setTemplates(message.data.templates);
+          if (message.data.selectedId) {
+            setTemplateId(message.data.selectedId);
+          } else {
+            // 当前模板被删除时回到同类型的内置模板
+            setTemplateId((current) =>
+              message.data.templates.some(
+                (template: ReportTemplate) => template.id === current
+              )
+                ? current
+                : message.data.templates.find(
+                    (template: ReportTemplate) => template.builtin
+                  )?.id ?? "weekly"
+            );
+          }
           break;
         // 可以添加其他消息类型的处理
       }
     };
 
     window.addEventListener("message", messageHandler);
+    vscode.postMessage({ command: "getTemplates" });
+    vscode.postMessage({ command: "getHistory" });
 
     // 清理函数
     return () => {
@@ -41,32 +125,29 @@ function App() {
     };
   }, []);
 
+  // 保存和导出的结果由扩展通知
+  const getReportData = () => ({
+    id: reportId,
+    content,
+    kind,
+    templateId,
+    period: {
+      startDate: dateRange[0],
+      endDate: dateRange[1],
+    },
+  });
+
   const handleSave = () => {
-    // Send save message to VSCode
-    console.log("vscode", vscode);
-    if (vscode) {
-      vscode.postMessage({
-        command: "save", // 使用 command 而不是 type
-        data: { content },
-      });
-    }
-    toast({
-      title: "Report saved",
-      description: "Your report has been saved successfully.",
+    vscode.postMessage({
+      command: "save",
+      data: getReportData(),
     });
   };
 
   const handleExport = () => {
-    // Send export message to VSCode
-    if (vscode) {
-      vscode.postMessage({
-        command: "export", // 使用 command 而不是 type
-        data: { content },
-      });
-    }
-    toast({
-      title: "Report exported",
-      description: "Your report has been exported successfully.",
+    vscode.postMessage({
+      command: "export",
+      data: getReportData(),
     });
   };
 
@@ -88,6 +169,7 @@ function App() {
         command: "generate", // 使用 command 而不是 type
         data: {
           content,
+          templateId,
           period: {
             startDate: dateRange[0],
             endDate: dateRange[1],
@@ -101,55 +183,157 @@ function App() {
     });
   };
 
-  const handleDateRangeChange = (dates: any[]) => {
+  const handleDateRangeChange = (dates: string[]) => {
     setDateRange(dates); // 保存选中的日期范围
-    if (vscode && dates) {
+  };
+
+  const handleKindChange = (value: ReportKind) => {
+    // 切换报告类型时使用该类型的默认日期范围和内置模板
+    setKind(value);
+    setTemplateId(value);
+    setDraft(undefined);
+    handleDateRangeChange(getDefaultRange(value));
+  };
+
+  const handleSaveTemplate = () => {
+    if (!draft?.name.trim() || !draft.prompt.trim()) {
+      toast({
+        title: "Error",
+        description: "Please enter a template name and prompt",
+        variant: "destructive",
+      });
+      return;
+    }
+    vscode.postMessage({
+      command: "saveTemplate",
+      data: {
+        id: selectedTemplate?.builtin ? undefined : selectedTemplate?.id,
+        name: draft.name,
+        kind,
+        prompt: draft.prompt,
+      },
+    });
+    setDraft(undefined);
+  };
+
+  const handleDeleteTemplate = () => {
+    if (selectedTemplate && !selectedTemplate.builtin) {
       vscode.postMessage({
-        command: "dateChange", // 使用 command 而不是 type
-        data: {
-          startDate: dates[0],
-          endDate: dates[1],
-        },
+        command: "deleteTemplate",
+        data: { id: selectedTemplate.id },
       });
     }
   };
 
   return (
     <div className="container max-w-5xl p-6 mx-auto">
-      <h1 className="mb-8 text-3xl font-bold">Weekly Report Generator</h1>
+      <h1 className="mb-8 text-3xl font-bold">Report Generator</h1>
 
       <div className="space-y-6">
+        <div className="p-6 border rounded-lg bg-card">
+          <h2 className="mb-4 text-xl font-semibold">Report Type</h2>
+          <div className="flex flex-wrap gap-2 mb-4">
+            {REPORT_KINDS.map((item) => (
+              <Button
+                key={item.kind}
+                onClick={() => handleKindChange(item.kind)}
+                size="sm"
+                variant={item.kind === kind ? "default" : "outline"}
+              >
+                {item.label}
+              </Button>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              className="h-8 px-2 text-sm border rounded-md bg-background"
+              value={templateId}
+              onChange={(event) => {
+                setTemplateId(event.target.value);
+                setDraft(undefined);
+              }}
+            >
+              {kindTemplates.map((template) => (
+                <option
+                  key={template.id}
+                  value={template.id}
+                >
+                  {template.name}
+                </option>
+              ))}
+            </select>
+            <Button
+              onClick={() =>
+                setDraft({
+                  name: selectedTemplate?.builtin
+                    ? ""
+                    : selectedTemplate?.name ?? "",
+                  prompt: selectedTemplate?.prompt ?? "",
+                })
+              }
+              size="sm"
+              variant="outline"
+            >
+              <BookmarkPlus className="w-4 h-4 mr-2" />
+              {selectedTemplate?.builtin ? "Save as Template" : "Edit Template"}
+            </Button>
+            <Button
+              onClick={handleDeleteTemplate}
+              size="sm"
+              variant="outline"
+              disabled={!selectedTemplate || selectedTemplate.builtin}
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              Delete
+            </Button>
+          </div>
+          {draft && (
+            <div className="mt-4 space-y-2">
+              <Input
+                placeholder="Template name"
+                value={draft.name}
+                onChange={(event) =>
+                  setDraft({ ...draft, name: event.target.value })
+                }
+              />
+              <Textarea
+                className="min-h-[200px] font-mono"
+                placeholder="System prompt with the sections of the report"
+                value={draft.prompt}
+                onChange={(event) =>
+                  setDraft({ ...draft, prompt: event.target.value })
+                }
+              />
+              <div className="flex gap-2">
+                <Button
+                  onClick={handleSaveTemplate}
+                  size="sm"
+                >
+                  <Save className="w-4 h-4 mr-2" />
+                  Save Template
+                </Button>
+                <Button
+                  onClick={() => setDraft(undefined)}
+                  size="sm"
+                  variant="outline"
+                >
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+
         <div className="p-6 border rounded-lg bg-card">
           <h2 className="mb-4 text-xl font-semibold">Select Date Range</h2>
           <RangePicker
             style={{ width: "100%" }}
+            value={dateRange}
             onChange={handleDateRangeChange}
             showTime={false}
             format="YYYY-MM-DD"
             shortcutsPlacementLeft
-            shortcuts={[
-              {
-                text: "本周",
-                value: () => [
-                  dayjs().startOf("week").add(1, "day"), // 周一
-                  dayjs().endOf("week").add(1, "day"), // 周日
-                ],
-              },
-              {
-                text: "上周",
-                value: () => [
-                  dayjs().subtract(1, "week").startOf("week").add(1, "day"),
-                  dayjs().subtract(1, "week").endOf("week").add(1, "day"),
-                ],
-              },
-              {
-                text: "上两周",
-                value: () => [
-                  dayjs().subtract(2, "week").startOf("week").add(1, "day"),
-                  dayjs().subtract(1, "week").endOf("week").add(1, "day"),
-                ],
-              },
-            ]}
+            shortcuts={DATE_PRESETS[kind]}
           />
         </div>
 
@@ -187,6 +371,71 @@ function App() {
             onChange={setContent}
           />
         </div>
+
+        {timesheet && (
+          <div className="p-6 border rounded-lg bg-card">
+            <h2 className="mb-4 text-xl font-semibold">Timesheet</h2>
+            <Timesheet
+              timesheet={timesheet}
+              onChange={(items) => setTimesheet({ ...timesheet, items })}
+              onInsert={(markdown) =>
+                setContent((current) => `${current.trimEnd()}\n\n${markdown}`)
+              }
+            />
+          </div>
+        )}
+
+        <div className="p-6 border rounded-lg bg-card">
+          <h2 className="mb-4 text-xl font-semibold">Saved Reports</h2>
+          {history.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No saved reports yet
+            </p>
+          ) : (
+            <ul className="divide-y">
+              {history.map((report) => (
+                <li
+                  key={report.id}
+                  className="flex items-center justify-between gap-2 py-2"
+                >
+                  <div className={report.id === reportId ? "font-semibold" : ""}>
+                    <div>{report.title}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {new Date(report.timestamp).toLocaleString()}
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      onClick={() =>
+                        vscode.postMessage({
+                          command: "openReport",
+                          data: { id: report.id },
+                        })
+                      }
+                      size="sm"
+                      variant="outline"
+                    >
+                      <FolderOpen className="w-4 h-4 mr-2" />
+                      Open
+                    </Button>
+                    <Button
+                      onClick={() =>
+                        vscode.postMessage({
+                          command: "deleteReport",
+                          data: { id: report.id },
+                        })
+                      }
+                      size="sm"
+                      variant="outline"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
       </div>
     </div>
   );
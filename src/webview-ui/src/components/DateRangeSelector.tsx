@@ -11,20 +11,23 @@ import { cn } from "@/lib/utils";
 import { format } from "date-fns";
 import { DateRange } from "react-day-picker";
 import {
-  startOfWeek,
-  endOfWeek,
-  subWeeks,
   setHours,
   setMinutes,
   setSeconds,
   setMilliseconds,
 } from "date-fns";
+import { DATE_PRESETS, type ReportKind } from "@/lib/reportKinds";
 
 interface DateRangeSelectorProps {
+  /** 报告类型,决定可用的快捷选项 */
+  kind?: ReportKind;
   onRangeChange: (range: DateRange) => void;
 }
 
-export function DateRangeSelector({ onRangeChange }: DateRangeSelectorProps) {
+export function DateRangeSelector({
+  kind = "weekly",
+  onRangeChange,
+}: DateRangeSelectorProps) {
   const [date, setDate] = useState<DateRange>({
     from: new Date(),
     to: new Date(),
@@ -41,47 +44,12 @@ export function DateRangeSelector({ onRangeChange }: DateRangeSelectorProps) {
     );
   };
 
-  const getWeekRange = (option: "current" | "last" | "lastTwo"): DateRange => {
-    const now = new Date();
-
-    switch (option) {
-      case "current": {
-        // 本周一到本周日
-        const start = startOfWeek(now, { weekStartsOn: 1 }); // 1 表示周一
-        const end = endOfWeek(now, { weekStartsOn: 1 });
-        return {
-          from: setStartOfDay(start),
-          to: setEndOfDay(end),
-        };
-      }
-      case "last": {
-        // 上周一到上周日
-        const lastWeek = subWeeks(now, 1);
-        const start = startOfWeek(lastWeek, { weekStartsOn: 1 });
-        const end = endOfWeek(lastWeek, { weekStartsOn: 1 });
-        return {
-          from: setStartOfDay(start),
-          to: setEndOfDay(end),
-        };
-      }
-      case "lastTwo": {
-        // 上上周一到上周日（连续两周）
-        const twoWeeksAgo = subWeeks(now, 2);
-        const start = startOfWeek(twoWeeksAgo, { weekStartsOn: 1 });
-        const lastWeek = subWeeks(now, 1);
-        const end = endOfWeek(lastWeek, { weekStartsOn: 1 });
-        return {
-          from: setStartOfDay(start),
-          to: setEndOfDay(end),
-        };
-      }
-      default:
-        throw new Error("Invalid option");
-    }
-  };
-
-  const handlePresetClick = (option: "current" | "last" | "lastTwo") => {
-    const range = getWeekRange(option);
+  const handlePresetClick = (index: number) => {
+    const [start, end] = DATE_PRESETS[kind][index].value();
+    const range = {
+      from: setStartOfDay(start.toDate()),
+      to: setEndOfDay(end.toDate()),
+    };
     setDate(range);
     onRangeChange(range);
   };
@@ -89,27 +57,16 @@ export function DateRangeSelector({ onRangeChange }: DateRangeSelectorProps) {
   return (
     <div className="flex flex-col gap-4 sm:flex-row sm:items-center">
       <div className="flex gap-2">
-        <Button
-          variant="outline"
-          onClick={() => handlePresetClick("current")}
-          className="flex-1 sm:flex-none"
-        >
-          本周
-        </Button>
-        <Button
-          variant="outline"
-          onClick={() => handlePresetClick("last")}
-          className="flex-1 sm:flex-none"
-        >
-          上周
-        </Button>
-        <Button
-          variant="outline"
-          onClick={() => handlePresetClick("lastTwo")}
-          className="flex-1 sm:flex-none"
-        >
-          前两周
-        </Button>
+        {DATE_PRESETS[kind].map((preset, index) => (
+          <Button
+            key={preset.text}
+            variant="outline"
+            onClick={() => handlePresetClick(index)}
+            className="flex-1 sm:flex-none"
+          >
+            {preset.text}
+          </Button>
+        ))}
       </div>
 
       <Popover>
@@ -0,0 +1,167 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { FilePlus2 } from "lucide-react";
+
+/** 工时表中的工作项,与扩展中的 WorkItem 保持一致 */
+export interface TimesheetItem {
+  /** 工作描述 */
+  description: string;
+  /** 工时(小时) */
+  time: string;
+  /** 所属项目 */
+  project?: string;
+  /** 项目中的模块 */
+  area?: string;
+  /** 提交时间(ISO 8601) */
+  date?: string;
+}
+
+/** 工时表,由扩展在生成报告后通过 timesheet 消息发送 */
+export interface TimesheetData {
+  config: {
+    totalHours: number;
+    totalDays: number;
+    minUnit: number;
+  };
+  items: TimesheetItem[];
+}
+
+interface TimesheetProps {
+  timesheet: TimesheetData;
+  onChange: (items: TimesheetItem[]) => void;
+  /** 将工时表以 Markdown 表格插入报告 */
+  onInsert: (markdown: string) => void;
+}
+
+/** 格式化所属项目和模块 */
+const formatProject = (item: TimesheetItem) =>
+  [item.project, item.area].filter(Boolean).join(" / ");
+
+/** 格式化提交日期为 YYYY-MM-DD */
+const formatDate = (date?: string) =>
+  date ? new Date(date).toLocaleDateString("sv-SE") : "";
+
+/** 转义 Markdown 表格单元格中的竖线和换行 */
+const escapeCell = (text = "") =>
+  text.replace(/\|/g, "\\|").replace(/\s*\n\s*/g, " ");
+
+/**
+ * 将工时表转换为 Markdown 表格
+ * @param items 工作项
+ * @param total 总工时
+ * @returns Markdown 表格
+ */
+function toMarkdownTable(items: TimesheetItem[], total: number): string {
+  return [
+    "| Project | Work | Date | Hours |",
+    "| --- | --- | --- | ---: |",
+    ...items.map(
+      (item) =>
+        `| ${escapeCell(formatProject(item))} | ${escapeCell(
+          item.description
+        )} | ${formatDate(item.date)} | ${item.time || 0} |`
+    ),
+    `| | **Total** | | **${total}** |`,
+  ].join("\n");
+}
+
+/**
+ * 可编辑的工时表
+ * 工时按提交时间和变更规模估算,修改后的合计与工作时长不一致时高亮显示
+ */
+export function Timesheet({ timesheet, onChange, onInsert }: TimesheetProps) {
+  const { config, items } = timesheet;
+  const total =
+    Math.round(
+      items.reduce((sum, item) => sum + (Number(item.time) || 0), 0) * 100
+    ) / 100;
+
+  const updateItem = (index: number, changes: Partial<TimesheetItem>) => {
+    onChange(
+      items.map((item, current) =>
+        current === index ? { ...item, ...changes } : item
+      )
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          {config.totalDays} working days, {config.totalHours} hours, in units
+          of {config.minUnit} hours
+        </p>
+        <Button
+          onClick={() => onInsert(toMarkdownTable(items, total))}
+          size="sm"
+          variant="outline"
+          disabled={items.length === 0}
+        >
+          <FilePlus2 className="w-4 h-4 mr-2" />
+          Insert into Report
+        </Button>
+      </div>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Project</TableHead>
+            <TableHead>Work</TableHead>
+            <TableHead>Date</TableHead>
+            <TableHead className="w-28">Hours</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {items.map((item, index) => (
+            <TableRow key={index}>
+              <TableCell className="whitespace-nowrap">
+                {formatProject(item)}
+              </TableCell>
+              <TableCell>
+                <Input
+                  value={item.description}
+                  onChange={(event) =>
+                    updateItem(index, { description: event.target.value })
+                  }
+                />
+              </TableCell>
+              <TableCell className="whitespace-nowrap">
+                {formatDate(item.date)}
+              </TableCell>
+              <TableCell>
+                <Input
+                  type="number"
+                  min={0}
+                  step={config.minUnit}
+                  value={item.time}
+                  onChange={(event) =>
+                    updateItem(index, { time: event.target.value })
+                  }
+                />
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+        <TableFooter>
+          <TableRow>
+            <TableCell colSpan={3}>Total</TableCell>
+            <TableCell
+              className={cn(total !== config.totalHours && "text-destructive")}
+            >
+              {total} / {config.totalHours}
+            </TableCell>
+          </TableRow>
+        </TableFooter>
+      </Table>
+    </div>
+  );
+}
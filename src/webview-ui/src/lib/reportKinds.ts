@@ -0,0 +1,111 @@
+import dayjs, { type Dayjs } from "dayjs";
+
+/** 报告类型,与扩展中的 ReportKind 保持一致 */
+export type ReportKind = "daily" | "weekly" | "monthly" | "quarterly";
+
+/** 报告模板,由扩展通过 templates 消息发送 */
+export interface ReportTemplate {
+  id: string;
+  name: string;
+  kind: ReportKind;
+  prompt: string;
+  builtin?: boolean;
+}
+
+/** 日期范围快捷选项 */
+export interface DatePreset {
+  text: string;
+  value: () => [Dayjs, Dayjs];
+}
+
+/** 可选的报告类型 */
+export const REPORT_KINDS: { kind: ReportKind; label: string }[] = [
+  { kind: "daily", label: "Daily Standup" },
+  { kind: "weekly", label: "Weekly" },
+  { kind: "monthly", label: "Monthly" },
+  { kind: "quarterly", label: "Quarterly OKR" },
+];
+
+/** 周一 */
+const startOfWeek = (date: Dayjs) => date.startOf("week").add(1, "day");
+
+/** 周日 */
+const endOfWeek = (date: Dayjs) => date.endOf("week").add(1, "day");
+
+/** 季度第一天 */
+const startOfQuarter = (date: Dayjs) =>
+  date.month(Math.floor(date.month() / 3) * 3).startOf("month");
+
+/** 季度最后一天 */
+const endOfQuarter = (date: Dayjs) =>
+  startOfQuarter(date).add(2, "month").endOf("month");
+
+/**
+ * 各报告类型的日期范围快捷选项,第一个选项为切换到该类型时的默认范围
+ */
+export const DATE_PRESETS: Record<ReportKind, DatePreset[]> = {
+  daily: [
+    { text: "今天", value: () => [dayjs(), dayjs()] },
+    {
+      text: "昨天",
+      value: () => [dayjs().subtract(1, "day"), dayjs().subtract(1, "day")],
+    },
+  ],
+  weekly: [
+    {
+      text: "本周",
+      value: () => [startOfWeek(dayjs()), endOfWeek(dayjs())],
+    },
+    {
+      text: "上周",
+      value: () => [
+        startOfWeek(dayjs().subtract(1, "week")),
+        endOfWeek(dayjs().subtract(1, "week")),
+      ],
+    },
+    {
+      text: "上两周",
+      value: () => [
+        startOfWeek(dayjs().subtract(2, "week")),
+        endOfWeek(dayjs().subtract(1, "week")),
+      ],
+    },
+  ],
+  monthly: [
+    {
+      text: "本月",
+      value: () => [dayjs().startOf("month"), dayjs().endOf("month")],
+    },
+    {
+      text: "上月",
+      value: () => [
+        dayjs().subtract(1, "month").startOf("month"),
+        dayjs().subtract(1, "month").endOf("month"),
+      ],
+    },
+  ],
+  quarterly: [
+    {
+      text: "本季度",
+      value: () => [startOfQuarter(dayjs()), endOfQuarter(dayjs())],
+    },
+    {
+      text: "上季度",
+      value: () => [
+        startOfQuarter(dayjs().subtract(3, "month")),
+        endOfQuarter(dayjs().subtract(3, "month")),
+      ],
+    },
+  ],
+};
+
+/**
+ * 获取报告类型的默认日期范围
+ * @param kind 报告类型
+ * @returns 格式为 YYYY-MM-DD 的开始和结束日期
+ */
+export function getDefaultRange(kind: ReportKind): string[] {
+  return DATE_PRESETS[kind][0]
+    .value()
+    .map((date) => date.format("YYYY-MM-DD"));
+}
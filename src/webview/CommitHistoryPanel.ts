@@ -0,0 +1,210 @@
+import * as vscode from "vscode";
+import type { CommitHistoryEntry } from "../scm/SCMProvider";
+import { getMessage } from "../utils/i18n";
+import { escapeHtml, getNonce } from "../utils/webview";
+
+/**
+ * 历史提交及重新生成的提交信息
+ */
+export interface CommitHistoryItem extends CommitHistoryEntry {
+  /** 重新生成的提交信息 */
+  generated: string;
+}
+
+/**
+ * 历史提交信息对比面板
+ * 并排展示原有和重新生成的提交信息,用户可编辑并勾选需要应用的提交
+ */
+export class CommitHistoryPanel {
+  public static readonly viewType = "commitHistory.view";
+
+  private readonly _panel: vscode.WebviewPanel;
+  private _disposables: vscode.Disposable[] = [];
+  private _resolve?: (entries: CommitHistoryEntry[] | undefined) => void;
+
+  private constructor(panel: vscode.WebviewPanel, items: CommitHistoryItem[]) {
+    this._panel = panel;
+    this._panel.webview.html = this.getWebviewContent(items);
+
+    this._panel.webview.onDidReceiveMessage(
+      (message) => {
+        switch (message.command) {
+          case "apply":
+            this.finish(message.data.entries);
+            break;
+          case "cancel":
+            this.finish(undefined);
+            break;
+        }
+      },
+      null,
+      this._disposables
+    );
+
+    this._panel.onDidDispose(
+      () => this.finish(undefined),
+      null,
+      this._disposables
+    );
+  }
+
+  /**
+   * 显示对比面板并等待用户选择
+   * @param items - 历史提交及重新生成的提交信息,按从旧到新排列
+   * @returns 用户选择应用的提交及最终的提交信息,关闭面板或取消时返回undefined
+   */
+  public static show(
+    items: CommitHistoryItem[]
+  ): Promise<CommitHistoryEntry[] | undefined> {
+    const panel = vscode.window.createWebviewPanel(
+      CommitHistoryPanel.viewType,
+      getMessage("history.panel.title"),
+      vscode.ViewColumn.One,
+      { enableScripts: true }
+    );
+
+    return new Promise((resolve) => {
+      new CommitHistoryPanel(panel, items)._resolve = resolve;
+    });
+  }
+
+  /**
+   * 返回用户的选择并关闭面板
+   * @param entries - 选择应用的提交,取消时为undefined
+   */
+  private finish(entries: CommitHistoryEntry[] | undefined) {
+    const resolve = this._resolve;
+    this._resolve = undefined;
+    resolve?.(entries);
+    this.dispose();
+  }
+
+  /**
+   * 生成对比面板的HTML内容
+   * @param items - 历史提交及重新生成的提交信息
+   * @returns HTML内容
+   */
+  private getWebviewContent(items: CommitHistoryItem[]): string {
+    const nonce = getNonce();
+    const rows = items
+      .map(
+        (item, index) => `
+        <tr>
+          <td><input type="checkbox" class="select" data-index="${index}" checked></td>
+          <td class="meta">
+            <code>${escapeHtml(item.id.substring(0, 10))}</code>
+            <div>${escapeHtml(item.author ?? "")}</div>
+            <div>${escapeHtml(item.date?.substring(0, 10) ?? "")}</div>
+          </td>
+          <td><pre>${escapeHtml(item.message)}</pre></td>
+          <td><textarea data-index="${index}">${escapeHtml(
+            item.generated
+          )}</textarea></td>
+        </tr>`
+      )
+      .join("\n");
+
+    return `<!DOCTYPE html>
+    <html>
+      <head>
+        <meta charset="UTF-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+        <title>${getMessage("history.panel.title")}</title>
+        <style>
+          body { padding: 20px; }
+          table { width: 100%; border-collapse: collapse; table-layout: fixed; }
+          th, td {
+            padding: 8px;
+            vertical-align: top;
+            text-align: left;
+            border-bottom: 1px solid var(--vscode-textSeparator-foreground);
+          }
+          th:first-child { width: 24px; }
+          th:nth-child(2) { width: 120px; }
+          .meta { color: var(--vscode-descriptionForeground); }
+          pre, textarea {
+            margin: 0;
+            white-space: pre-wrap;
+            font-family: var(--vscode-editor-font-family);
+          }
+          textarea {
+            width: 100%;
+            min-height: 96px;
+            box-sizing: border-box;
+            color: var(--vscode-input-foreground);
+            background: var(--vscode-input-background);
+            border: 1px solid var(--vscode-input-border, transparent);
+          }
+          .actions { margin-top: 16px; display: flex; gap: 8px; }
+          button {
+            padding: 6px 14px;
+            color: var(--vscode-button-foreground);
+            background: var(--vscode-button-background);
+            border: none;
+            cursor: pointer;
+          }
+          button.secondary {
+            color: var(--vscode-button-secondaryForeground);
+            background: var(--vscode-button-secondaryBackground);
+          }
+        </style>
+      </head>
+      <body>
+        <table>
+          <thead>
+            <tr>
+              <th><input type="checkbox" id="select-all" checked></th>
+              <th>${getMessage("history.panel.commit")}</th>
+              <th>${getMessage("history.panel.original")}</th>
+              <th>${getMessage("history.panel.generated")}</th>
+            </tr>
+          </thead>
+          <tbody>${rows}</tbody>
+        </table>
+        <div class="actions">
+          <button id="apply">${getMessage("history.panel.apply")}</button>
+          <button id="cancel" class="secondary">${getMessage(
+            "history.panel.cancel"
+          )}</button>
+        </div>
+        <script nonce="${nonce}">
+          const vscode = acquireVsCodeApi();
+          const ids = ${JSON.stringify(items.map((item) => item.id))};
+          const checkboxes = [...document.querySelectorAll(".select")];
+
+          document.getElementById("select-all").addEventListener("change", (event) => {
+            checkboxes.forEach((checkbox) => (checkbox.checked = event.target.checked));
+          });
+          document.getElementById("apply").addEventListener("click", () => {
+            const entries = checkboxes
+              .filter((checkbox) => checkbox.checked)
+              .map((checkbox) => {
+                const index = Number(checkbox.dataset.index);
+                const message = document.querySelector(
+                  'textarea[data-index="' + index + '"]'
+                ).value;
+                return { id: ids[index], message };
+              })
+              .filter((entry) => entry.message.trim());
+            vscode.postMessage({ command: "apply", data: { entries } });
+          });
+          document.getElementById("cancel").addEventListener("click", () => {
+            vscode.postMessage({ command: "cancel" });
+          });
+        </script>
+      </body>
+    </html>`;
+  }
+
+  public dispose() {
+    this._panel.dispose();
+
+    while (this._disposables.length) {
+      const disposable = this._disposables.pop();
+      if (disposable) {
+        disposable.dispose();
+      }
+    }
+  }
+}
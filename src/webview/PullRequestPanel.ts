@@ -0,0 +1,186 @@
+import * as vscode from "vscode";
+import type { PullRequestDescription } from "../services/PullRequestService";
+import { notify } from "../utils/notification";
+import { getMessage, formatMessage } from "../utils/i18n";
+import { escapeHtml, getNonce } from "../utils/webview";
+
+/**
+ * 拉取请求描述编辑面板
+ * 展示生成的标题和描述,用户编辑后可复制或在编辑器中打开
+ */
+export class PullRequestPanel {
+  public static readonly viewType = "pullRequest.view";
+  public static currentPanel: PullRequestPanel | undefined;
+
+  private readonly _panel: vscode.WebviewPanel;
+  private _disposables: vscode.Disposable[] = [];
+
+  private constructor(panel: vscode.WebviewPanel) {
+    this._panel = panel;
+
+    this._panel.webview.onDidReceiveMessage(
+      async (message) => {
+        switch (message.command) {
+          case "copy":
+            await vscode.env.clipboard.writeText(message.data.text);
+            notify.info("pullRequest.copied");
+            break;
+          case "open":
+            await this.openInEditor(message.data);
+            break;
+        }
+      },
+      null,
+      this._disposables
+    );
+
+    this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+  }
+
+  /**
+   * 显示生成的拉取请求描述,面板已打开时替换其内容
+   * @param description - 生成的标题和描述
+   * @param branch - 当前分支名称
+   * @param base - 目标分支名称
+   */
+  public static createOrShow(
+    description: PullRequestDescription,
+    branch: string,
+    base: string
+  ) {
+    if (!PullRequestPanel.currentPanel) {
+      const panel = vscode.window.createWebviewPanel(
+        PullRequestPanel.viewType,
+        getMessage("pullRequest.panel.title"),
+        vscode.ViewColumn.One,
+        { enableScripts: true, retainContextWhenHidden: true }
+      );
+      PullRequestPanel.currentPanel = new PullRequestPanel(panel);
+    }
+
+    const { _panel } = PullRequestPanel.currentPanel;
+    _panel.webview.html = PullRequestPanel.currentPanel.getWebviewContent(
+      description,
+      branch,
+      base
+    );
+    _panel.reveal();
+  }
+
+  /**
+   * 在新的Markdown文档中打开拉取请求描述
+   * @param description - 编辑后的标题和描述
+   */
+  private async openInEditor({ title, body }: PullRequestDescription) {
+    const document = await vscode.workspace.openTextDocument({
+      content: `# ${title}\n\n${body}\n`,
+      language: "markdown",
+    });
+    await vscode.window.showTextDocument(document, vscode.ViewColumn.Beside);
+  }
+
+  /**
+   * 生成编辑面板的HTML内容
+   * @param description - 生成的标题和描述
+   * @param branch - 当前分支名称
+   * @param base - 目标分支名称
+   * @returns HTML内容
+   */
+  private getWebviewContent(
+    { title, body }: PullRequestDescription,
+    branch: string,
+    base: string
+  ): string {
+    const nonce = getNonce();
+
+    return `<!DOCTYPE html>
+    <html>
+      <head>
+        <meta charset="UTF-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+        <title>${getMessage("pullRequest.panel.title")}</title>
+        <style>
+          body { padding: 20px; }
+          .branches {
+            margin-bottom: 12px;
+            color: var(--vscode-descriptionForeground);
+          }
+          label { display: block; margin: 12px 0 4px; font-weight: bold; }
+          input, textarea {
+            width: 100%;
+            box-sizing: border-box;
+            padding: 6px;
+            color: var(--vscode-input-foreground);
+            background: var(--vscode-input-background);
+            border: 1px solid var(--vscode-input-border, transparent);
+            font-family: var(--vscode-editor-font-family);
+          }
+          textarea { min-height: 420px; resize: vertical; }
+          .actions { margin-top: 16px; display: flex; gap: 8px; }
+          button {
+            padding: 6px 14px;
+            color: var(--vscode-button-foreground);
+            background: var(--vscode-button-background);
+            border: none;
+            cursor: pointer;
+          }
+          button.secondary {
+            color: var(--vscode-button-secondaryForeground);
+            background: var(--vscode-button-secondaryBackground);
+          }
+        </style>
+      </head>
+      <body>
+        <div class="branches">${escapeHtml(
+          formatMessage("pullRequest.panel.branches", [branch, base])
+        )}</div>
+        <label for="title">${getMessage("pullRequest.panel.titleLabel")}</label>
+        <input id="title" value="${escapeHtml(title)}">
+        <label for="body">${getMessage("pullRequest.panel.bodyLabel")}</label>
+        <textarea id="body">${escapeHtml(body)}</textarea>
+        <div class="actions">
+          <button id="copy-title">${getMessage(
+            "pullRequest.panel.copyTitle"
+          )}</button>
+          <button id="copy-body">${getMessage(
+            "pullRequest.panel.copyBody"
+          )}</button>
+          <button id="open" class="secondary">${getMessage(
+            "pullRequest.panel.open"
+          )}</button>
+        </div>
+        <script nonce="${nonce}">
+          const vscode = acquireVsCodeApi();
+          const title = document.getElementById("title");
+          const body = document.getElementById("body");
+
+          document.getElementById("copy-title").addEventListener("click", () => {
+            vscode.postMessage({ command: "copy", data: { text: title.value } });
+          });
+          document.getElementById("copy-body").addEventListener("click", () => {
+            vscode.postMessage({ command: "copy", data: { text: body.value } });
+          });
+          document.getElementById("open").addEventListener("click", () => {
+            vscode.postMessage({
+              command: "open",
+              data: { title: title.value, body: body.value },
+            });
+          });
+        </script>
+      </body>
+    </html>`;
+  }
+
+  public dispose() {
+    PullRequestPanel.currentPanel = undefined;
+    this._panel.dispose();
+
+    while (this._disposables.length) {
+      const disposable = this._disposables.pop();
+      if (disposable) {
+        disposable.dispose();
+      }
+    }
+  }
+}
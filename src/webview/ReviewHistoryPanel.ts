@@ -0,0 +1,519 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { COMMANDS } from "../constants";
+import { CodeReviewDiagnostics } from "../services/CodeReviewDiagnostics";
+import {
+  ReviewHistoryService,
+  type ReviewHistoryIssue,
+  type ReviewHistoryRecord,
+  type ReviewIssueStatus,
+} from "../services/ReviewHistoryService";
+import { getMessage, formatMessage } from "../utils/i18n";
+import { escapeHtml, getNonce } from "../utils/webview";
+
+/** 问题处理状态对应的操作按钮 */
+const STATUS_ACTIONS: Record<ReviewIssueStatus, ReviewIssueStatus[]> = {
+  open: ["resolved", "ignored"],
+  resolved: ["open"],
+  ignored: ["open"],
+};
+
+/**
+ * 代码审查历史面板
+ * 列出保存的审查记录,可比较两次审查的问题、标记问题状态,并重新审查变化的文件
+ */
+export class ReviewHistoryPanel {
+  public static readonly viewType = "reviewHistory.view";
+  public static currentPanel: ReviewHistoryPanel | undefined;
+
+  private readonly _panel: vscode.WebviewPanel;
+  private _disposables: vscode.Disposable[] = [];
+  /** 当前选中的记录 */
+  private selectedId: string | undefined;
+  /** 与选中记录比较的记录 */
+  private compareId: string | undefined;
+
+  private constructor(panel: vscode.WebviewPanel) {
+    this._panel = panel;
+
+    this._panel.webview.onDidReceiveMessage(
+      async (message) => {
+        switch (message.command) {
+          case "select":
+            this.selectedId = message.data.id;
+            this.compareId = undefined;
+            this.update();
+            break;
+          case "compare":
+            this.compareId = message.data.id || undefined;
+            this.update();
+            break;
+          case "status":
+            await this.setIssueStatus(
+              message.data.recordId,
+              message.data.issueId,
+              message.data.status
+            );
+            break;
+          case "open":
+            await this.openIssue(message.data.recordId, message.data.issueId);
+            break;
+          case "rerun":
+            await vscode.commands.executeCommand(
+              COMMANDS.CODE_REVIEW.RERUN,
+              message.data.rootPath
+            );
+            break;
+          case "delete":
+            await this.deleteRecord(message.data.id);
+            break;
+        }
+      },
+      null,
+      this._disposables
+    );
+
+    // 审查记录新增、删除或问题状态改变时刷新面板
+    ReviewHistoryService.onDidChange(
+      () => this.update(),
+      null,
+      this._disposables
+    );
+    this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+  }
+
+  /**
+   * 显示审查历史面板,面板已打开时将其显示到前台
+   */
+  public static createOrShow() {
+    if (ReviewHistoryPanel.currentPanel) {
+      ReviewHistoryPanel.currentPanel._panel.reveal();
+      return;
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+      ReviewHistoryPanel.viewType,
+      getMessage("review.history.title"),
+      vscode.ViewColumn.One,
+      { enableScripts: true, retainContextWhenHidden: true }
+    );
+    ReviewHistoryPanel.currentPanel = new ReviewHistoryPanel(panel);
+    ReviewHistoryPanel.currentPanel.update();
+  }
+
+  /**
+   * 根据当前的审查记录重新生成面板内容
+   * 选中的记录已删除时选中最新的记录
+   */
+  private update() {
+    const records = ReviewHistoryService.getRecords();
+    if (!records.some((record) => record.id === this.selectedId)) {
+      this.selectedId = records[0]?.id;
+      this.compareId = undefined;
+    }
+    this._panel.webview.html = this.getWebviewContent(records);
+  }
+
+  /**
+   * 修改问题的处理状态
+   * 修改的是仓库最新的审查记录时,同步更新编辑器中的诊断信息
+   * @param recordId - 记录标识
+   * @param issueId - 问题标识
+   * @param status - 新的处理状态
+   */
+  private async setIssueStatus(
+    recordId: string,
+    issueId: string,
+    status: ReviewIssueStatus
+  ) {
+    const record = await ReviewHistoryService.setIssueStatus(
+      recordId,
+      issueId,
+      status
+    );
+    if (
+      record &&
+      ReviewHistoryService.getLatest(record.rootPath)?.id === record.id
+    ) {
+      await CodeReviewDiagnostics.publish(
+        ReviewHistoryService.getOpenIssuesByFile(record)
+      );
+    }
+  }
+
+  /**
+   * 在编辑器中打开问题所在的位置
+   * @param recordId - 记录标识
+   * @param issueId - 问题标识
+   */
+  private async openIssue(recordId: string, issueId: string) {
+    const record = ReviewHistoryService.getRecord(recordId);
+    const issue = record?.issues.find((item) => item.id === issueId);
+    if (!record || !issue) {
+      return;
+    }
+
+    try {
+      const document = await vscode.workspace.openTextDocument(
+        path.join(record.rootPath, issue.filePath)
+      );
+      const lastLine = document.lineCount - 1;
+      const start = Math.min(issue.startLine - 1, lastLine);
+      const end = Math.min((issue.endLine ?? issue.startLine) - 1, lastLine);
+      await vscode.window.showTextDocument(document, {
+        viewColumn: vscode.ViewColumn.Beside,
+        selection: new vscode.Range(
+          start,
+          0,
+          end,
+          document.lineAt(end).range.end.character
+        ),
+      });
+    } catch (error) {
+      vscode.window.showWarningMessage(
+        formatMessage("review.history.open.failed", [issue.filePath])
+      );
+      console.warn(`Failed to open ${issue.filePath}:`, error);
+    }
+  }
+
+  /**
+   * 确认后删除审查记录
+   * @param id - 记录标识
+   */
+  private async deleteRecord(id: string) {
+    const confirm = getMessage("review.history.delete");
+    const choice = await vscode.window.showWarningMessage(
+      getMessage("review.history.delete.confirm"),
+      { modal: true },
+      confirm
+    );
+    if (choice === confirm) {
+      await ReviewHistoryService.remove(id);
+    }
+  }
+
+  /**
+   * 生成审查记录的标题
+   * @param record - 审查记录
+   * @returns 审查时间和仓库名称
+   */
+  private getRecordTitle(record: ReviewHistoryRecord): string {
+    return `${new Date(record.timestamp).toLocaleString()} · ${path.basename(
+      record.rootPath
+    )}`;
+  }
+
+  /**
+   * 生成审查记录列表的HTML
+   * @param records - 所有审查记录
+   * @returns HTML内容
+   */
+  private renderRecordList(records: ReviewHistoryRecord[]): string {
+    return records
+      .map((record) => {
+        const count = (status: ReviewIssueStatus) =>
+          record.issues.filter((issue) => issue.status === status).length;
+        return `<button class="record${
+          record.id === this.selectedId ? " selected" : ""
+        }" data-action="select" data-id="${escapeHtml(record.id)}">
+          <div class="record-title">${escapeHtml(
+            this.getRecordTitle(record)
+          )}</div>
+          <div class="muted">${escapeHtml(
+            formatMessage("review.history.counts", [
+              count("open"),
+              count("resolved"),
+              count("ignored"),
+            ])
+          )}</div>
+        </button>`;
+      })
+      .join("");
+  }
+
+  /**
+   * 生成选中记录的详情HTML
+   * @param record - 选中的审查记录
+   * @param records - 所有审查记录
+   * @returns HTML内容
+   */
+  private renderRecord(
+    record: ReviewHistoryRecord,
+    records: ReviewHistoryRecord[]
+  ): string {
+    const others = records.filter(
+      (item) => item.rootPath === record.rootPath && item.id !== record.id
+    );
+    const compared = others.find((item) => item.id === this.compareId);
+
+    return `<h2>${escapeHtml(this.getRecordTitle(record))}</h2>
+      <div class="muted">${escapeHtml(
+        formatMessage("review.history.meta", [
+          record.revision ?? "-",
+          `${record.provider} / ${record.model}`,
+          Object.keys(record.files).length,
+        ])
+      )}</div>
+      <div class="actions">
+        <button data-action="rerun" data-root="${escapeHtml(
+          record.rootPath
+        )}">${getMessage("review.history.rerun")}</button>
+        <button class="secondary" data-action="delete" data-id="${escapeHtml(
+          record.id
+        )}">${getMessage("review.history.delete")}</button>
+        <label>${getMessage("review.history.compare")}
+          <select id="compare">
+            <option value="">-</option>
+            ${others
+              .map(
+                (item) =>
+                  `<option value="${escapeHtml(item.id)}"${
+                    item.id === this.compareId ? " selected" : ""
+                  }>${escapeHtml(this.getRecordTitle(item))}</option>`
+              )
+              .join("")}
+          </select>
+        </label>
+      </div>
+      <div class="summary">${escapeHtml(record.summary)}</div>
+      ${
+        compared
+          ? this.renderComparison(record, compared)
+          : this.renderIssues(record, record.issues)
+      }`;
+  }
+
+  /**
+   * 生成两次审查比较结果的HTML
+   * @param record - 选中的审查记录
+   * @param compared - 比较的审查记录
+   * @returns HTML内容
+   */
+  private renderComparison(
+    record: ReviewHistoryRecord,
+    compared: ReviewHistoryRecord
+  ): string {
+    const [base, target] =
+      compared.timestamp < record.timestamp
+        ? [compared, record]
+        : [record, compared];
+    const { added, fixed, unchanged } = ReviewHistoryService.compare(
+      base,
+      target
+    );
+    const section = (
+      key: string,
+      owner: ReviewHistoryRecord,
+      issues: ReviewHistoryIssue[]
+    ) =>
+      `<h3>${escapeHtml(
+        formatMessage(key, [issues.length])
+      )}</h3>${this.renderIssues(owner, issues)}`;
+
+    return [
+      section("review.history.compare.added", target, added),
+      section("review.history.compare.fixed", base, fixed),
+      section("review.history.compare.unchanged", target, unchanged),
+    ].join("");
+  }
+
+  /**
+   * 生成问题列表的HTML,只有选中记录中的问题可以修改状态
+   * @param record - 问题所属的审查记录
+   * @param issues - 问题列表
+   * @returns HTML内容
+   */
+  private renderIssues(
+    record: ReviewHistoryRecord,
+    issues: ReviewHistoryIssue[]
+  ): string {
+    if (issues.length === 0) {
+      return `<p class="muted">${getMessage("review.history.no.issues")}</p>`;
+    }
+
+    const editable = record.id === this.selectedId;
+    const ids = `data-record="${escapeHtml(record.id)}"`;
+    return issues
+      .map(
+        (issue) => `<div class="issue ${issue.status}">
+          <div class="issue-header">
+            <span class="severity ${issue.severity.toLowerCase()}">${
+              issue.severity
+            }</span>
+            <a href="#" data-action="open" ${ids} data-issue="${escapeHtml(
+              issue.id
+            )}">${escapeHtml(
+              `${issue.filePath}:${issue.startLine}${
+                issue.endLine && issue.endLine !== issue.startLine
+                  ? `-${issue.endLine}`
+                  : ""
+              }`
+            )}</a>
+            <span class="muted">${getMessage(
+              `review.history.status.${issue.status}`
+            )}</span>
+          </div>
+          <div>${escapeHtml(issue.description)}</div>
+          ${
+            issue.suggestion
+              ? `<div class="muted">${escapeHtml(issue.suggestion)}</div>`
+              : ""
+          }
+          ${
+            editable
+              ? `<div class="actions">${STATUS_ACTIONS[issue.status]
+                  .map(
+                    (status) =>
+                      `<button class="secondary" data-action="status" ${ids} data-issue="${escapeHtml(
+                        issue.id
+                      )}" data-status="${status}">${getMessage(
+                        `review.history.mark.${status}`
+                      )}</button>`
+                  )
+                  .join("")}</div>`
+              : ""
+          }
+        </div>`
+      )
+      .join("");
+  }
+
+  /**
+   * 生成面板的HTML内容
+   * @param records - 所有审查记录
+   * @returns HTML内容
+   */
+  private getWebviewContent(records: ReviewHistoryRecord[]): string {
+    const nonce = getNonce();
+    const selected = records.find((record) => record.id === this.selectedId);
+
+    return `<!DOCTYPE html>
+    <html>
+      <head>
+        <meta charset="UTF-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+        <title>${getMessage("review.history.title")}</title>
+        <style>
+          body { padding: 0; margin: 0; display: flex; height: 100vh; }
+          .list {
+            width: 280px;
+            flex-shrink: 0;
+            overflow-y: auto;
+            border-right: 1px solid var(--vscode-panel-border);
+          }
+          .detail { flex: 1; overflow-y: auto; padding: 0 20px 20px; }
+          .muted { color: var(--vscode-descriptionForeground); }
+          .record {
+            display: block;
+            width: 100%;
+            padding: 8px 12px;
+            text-align: left;
+            color: inherit;
+            background: none;
+            border: none;
+            border-bottom: 1px solid var(--vscode-panel-border);
+            cursor: pointer;
+          }
+          .record.selected {
+            color: var(--vscode-list-activeSelectionForeground);
+            background: var(--vscode-list-activeSelectionBackground);
+          }
+          .record-title { font-weight: bold; }
+          .actions { margin: 8px 0; display: flex; gap: 8px; align-items: center; }
+          .actions button {
+            padding: 4px 12px;
+            color: var(--vscode-button-foreground);
+            background: var(--vscode-button-background);
+            border: none;
+            cursor: pointer;
+          }
+          .actions button.secondary {
+            color: var(--vscode-button-secondaryForeground);
+            background: var(--vscode-button-secondaryBackground);
+          }
+          select {
+            margin-left: 4px;
+            color: var(--vscode-dropdown-foreground);
+            background: var(--vscode-dropdown-background);
+            border: 1px solid var(--vscode-dropdown-border);
+          }
+          .summary { white-space: pre-wrap; margin: 12px 0; }
+          .issue {
+            margin: 8px 0;
+            padding: 8px 12px;
+            border-left: 3px solid var(--vscode-panel-border);
+            background: var(--vscode-editor-inactiveSelectionBackground);
+          }
+          .issue.resolved, .issue.ignored { opacity: 0.6; }
+          .issue-header { display: flex; gap: 8px; margin-bottom: 4px; }
+          .severity { font-weight: bold; }
+          .severity.error { color: var(--vscode-errorForeground); }
+          .severity.warning { color: var(--vscode-editorWarning-foreground); }
+          .severity.note { color: var(--vscode-editorInfo-foreground); }
+          a { color: var(--vscode-textLink-foreground); }
+        </style>
+      </head>
+      <body>
+        <div class="list">${this.renderRecordList(records)}</div>
+        <div class="detail">${
+          selected
+            ? this.renderRecord(selected, records)
+            : `<p class="muted">${getMessage("review.history.empty")}</p>`
+        }</div>
+        <script nonce="${nonce}">
+          const vscode = acquireVsCodeApi();
+
+          document.body.addEventListener("click", (event) => {
+            const target = event.target.closest("[data-action]");
+            if (!target) {
+              return;
+            }
+            event.preventDefault();
+            const { action, id, root, record, issue, status } = target.dataset;
+            switch (action) {
+              case "select":
+              case "delete":
+                vscode.postMessage({ command: action, data: { id } });
+                break;
+              case "rerun":
+                vscode.postMessage({ command: action, data: { rootPath: root } });
+                break;
+              case "open":
+                vscode.postMessage({
+                  command: action,
+                  data: { recordId: record, issueId: issue },
+                });
+                break;
+              case "status":
+                vscode.postMessage({
+                  command: action,
+                  data: { recordId: record, issueId: issue, status },
+                });
+                break;
+            }
+          });
+          document.getElementById("compare")?.addEventListener("change", (event) => {
+            vscode.postMessage({
+              command: "compare",
+              data: { id: event.target.value },
+            });
+          });
+        </script>
+      </body>
+    </html>`;
+  }
+
+  public dispose() {
+    ReviewHistoryPanel.currentPanel = undefined;
+    this._panel.dispose();
+
+    while (this._disposables.length) {
+      const disposable = this._disposables.pop();
+      if (disposable) {
+        disposable.dispose();
+      }
+    }
+  }
+}
@@ -2,6 +2,14 @@ import * as vscode from "vscode";
 import { WeeklyReportGenerator } from "../services/WeeklyReportGenerator";
 import { ModelConfigurationManager } from "../config/ModelConfigurationManager";
 import { notify } from "../../utils/notification";
+import { getMessage } from "../../utils/i18n";
+import { ReportTemplateService } from "../../services/ReportTemplateService";
+import { ReportHistoryService } from "../../services/ReportHistoryService";
+import {
+  ReportExporter,
+  type ReportExportFormat,
+} from "../../services/ReportExporter";
+import type { ReportKind } from "../../types/weeklyReport";
 
 export class WeeklyReportMessageHandler {
   private readonly generator: WeeklyReportGenerator;
@@ -18,6 +26,39 @@ export class WeeklyReportMessageHandler {
         await this.handleGenerateCommand(message, webview);
         break;
 
+      case "save":
+        await this.handleSave(message, webview);
+        break;
+
+      case "export":
+        await this.handleExport(message);
+        break;
+
+      case "getHistory":
+        this.postHistory(webview);
+        break;
+
+      case "openReport":
+        this.handleOpenReport(message, webview);
+        break;
+
+      case "deleteReport":
+        await ReportHistoryService.remove(message.data.id);
+        this.postHistory(webview);
+        break;
+
+      case "getTemplates":
+        this.postTemplates(webview);
+        break;
+
+      case "saveTemplate":
+        await this.handleSaveTemplate(message, webview);
+        break;
+
+      case "deleteTemplate":
+        await this.handleDeleteTemplate(message, webview);
+        break;
+
       case "notification":
         if (message.text) {
           notify.info(message.text, message.args || []);
@@ -28,17 +69,33 @@ export class WeeklyReportMessageHandler {
 
   private async handleGenerateCommand(message: any, webview: vscode.Webview) {
     try {
-      const report = await this.generator.generateReport(message.data.period);
-      const author = await this.generator.getCurrentAuthor();
+      let template = ReportTemplateService.getTemplate(message.data.templateId);
+      if (!template) {
+        notify.warn("report.template.not.found");
+        template = ReportTemplateService.getTemplate("weekly")!;
+      }
+      const { content, timesheet } = await this.generator.generateReport(
+        message.data.period,
+        template
+      );
+      const authors = await this.generator.getReportAuthors();
 
       webview.postMessage({
         command: "report",
-        data: report,
+        data: content,
+      });
+      webview.postMessage({
+        command: "timesheet",
+        data: timesheet,
       });
       console.log("message.data.period", message.data.period);
       const formattedPeriod = this.formatPeriod(message.data.period);
       console.log("formattedPeriod", formattedPeriod);
-      notify.info("weeklyReport.generation.success", [formattedPeriod, author]);
+      notify.info("weeklyReport.generation.success", [
+        formattedPeriod,
+        authors.join(", "),
+        template.name,
+      ]);
     } catch (error: any) {
       notify.error("weeklyReport.generation.failed", [error], {
         timeout: 3000,
@@ -46,6 +103,119 @@ export class WeeklyReportMessageHandler {
     }
   }
 
+  private async handleSave(message: any, webview: vscode.Webview) {
+    const { id, content, kind, templateId, period } = message.data;
+    if (!content?.trim()) {
+      notify.warn("report.empty");
+      return;
+    }
+
+    const report = await ReportHistoryService.save({
+      id,
+      title: this.getTitle(templateId, kind, period),
+      kind,
+      templateId,
+      period,
+      content,
+    });
+    webview.postMessage({ command: "saved", data: { id: report.id } });
+    this.postHistory(webview);
+    notify.info("report.saved", [report.title]);
+  }
+
+  private async handleExport(message: any) {
+    const { content, kind, templateId, period } = message.data;
+    if (!content?.trim()) {
+      notify.warn("report.empty");
+      return;
+    }
+
+    const formats: { label: string; format: ReportExportFormat }[] = [
+      { label: getMessage("report.export.markdown"), format: "markdown" },
+      { label: getMessage("report.export.html"), format: "html" },
+      { label: getMessage("report.export.word"), format: "word" },
+      { label: getMessage("report.export.clipboard"), format: "clipboard" },
+    ];
+    const picked = await vscode.window.showQuickPick(formats, {
+      placeHolder: getMessage("report.export.placeholder"),
+    });
+    if (!picked) {
+      return;
+    }
+
+    try {
+      const uri = await ReportExporter.export(
+        { title: this.getTitle(templateId, kind, period), content },
+        picked.format
+      );
+      if (picked.format === "clipboard") {
+        notify.info("weeklyReport.copy.success");
+      } else if (uri) {
+        notify.info("report.exported", [uri.fsPath]);
+      }
+    } catch (error) {
+      notify.error("report.export.failed", [
+        error instanceof Error ? error.message : String(error),
+      ]);
+    }
+  }
+
+  private handleOpenReport(message: any, webview: vscode.Webview) {
+    const report = ReportHistoryService.getReport(message.data.id);
+    if (!report) {
+      notify.warn("report.not.found");
+      this.postHistory(webview);
+      return;
+    }
+    webview.postMessage({ command: "loadReport", data: report });
+  }
+
+  private postHistory(webview: vscode.Webview) {
+    webview.postMessage({
+      command: "history",
+      data: ReportHistoryService.getReports().map(
+        ({ id, title, timestamp, kind }) => ({ id, title, timestamp, kind })
+      ),
+    });
+  }
+
+  private getTitle(
+    templateId: string,
+    kind: ReportKind,
+    period: { startDate: string; endDate: string }
+  ): string {
+    const name =
+      ReportTemplateService.getTemplate(templateId)?.name ??
+      getMessage(`report.kind.${kind}`);
+    return `${name} ${period.startDate} ~ ${period.endDate}`;
+  }
+
+  private async handleSaveTemplate(message: any, webview: vscode.Webview) {
+    const template = await ReportTemplateService.save(message.data);
+    this.postTemplates(webview, template.id);
+    notify.info("report.template.saved", [template.name]);
+  }
+
+  private async handleDeleteTemplate(message: any, webview: vscode.Webview) {
+    const template = ReportTemplateService.getTemplate(message.data.id);
+    if (!template || template.builtin) {
+      return;
+    }
+    await ReportTemplateService.remove(template.id);
+    this.postTemplates(webview);
+    notify.info("report.template.deleted", [template.name]);
+  }
+
+  private postTemplates(webview: vscode.Webview, selectedId?: string) {
+    webview.postMessage({
+      command: "templates",
+      data: {
+        templates: ReportTemplateService.getTemplates(),
+        selectedId,
+      },
+    });
+  }
+
   private formatPeriod(period: { startDate: string; endDate: string }): string {
     const formatDate = (dateStr: string) => {
       const date = new Date(dateStr);
@@ -2,7 +2,8 @@ import { WeeklyReportService, type Period } from "../../services/weeklyReport";
 import { AIProviderFactory } from "../../ai/AIProviderFactory";
 import { ModelConfigurationManager } from "../config/ModelConfigurationManager";
 import { ProgressHandler } from "../../utils/notification";
-import { getMessage } from "../../utils/i18n";
+import { formatMessage, getMessage } from "../../utils/i18n";
+import type { ReportTemplate, Timesheet } from "../../types/weeklyReport";
 
 export class WeeklyReportGenerator {
   private readonly weeklyReportService: WeeklyReportService;
@@ -13,11 +14,14 @@ export class WeeklyReportGenerator {
     this.configManager = new ModelConfigurationManager();
   }
 
-  public async generateReport(period: string): Promise<string> {
+  public async generateReport(
+    period: string,
+    template: ReportTemplate
+  ): Promise<{ content: string; timesheet: Timesheet }> {
     await this.weeklyReportService.initialize();
 
     return await ProgressHandler.withProgress(
-      await getMessage("weeklyReport.generating"),
+      formatMessage("weeklyReport.generating", [template.name]),
       async () => {
         const workItems = await this.weeklyReportService.generate(
           period as unknown as Period
@@ -27,19 +31,28 @@ export class WeeklyReportGenerator {
 
         const response = await aiProvider.generateWeeklyReport(
           workItems.map((item) => item.content),
-          selectedModel
+          selectedModel,
+          template.prompt
         );
 
         if (!response?.content) {
           throw new Error(await getMessage("weeklyReport.empty.response"));
         }
 
-        return response.content;
+        return {
+          content: response.content,
+          timesheet: {
+            config: this.weeklyReportService.getWorkTimeConfig(
+              period as unknown as Period
+            ),
+            items: workItems,
+          },
+        };
       }
     );
   }
 
-  public async getCurrentAuthor(): Promise<string> {
-    return await this.weeklyReportService.getCurrentAuthor();
+  public async getReportAuthors(): Promise<string[]> {
+    return await this.weeklyReportService.getReportAuthors();
   }
 }